@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { chunkRecipients, mergeBulkResponses, runWithConcurrency } from '../utils/bulk';
+import type { SendBulkEmailsResponse } from '../types/email';
+
+function response(overrides: Partial<SendBulkEmailsResponse['data']> = {}): SendBulkEmailsResponse {
+  return {
+    success: true,
+    correlationId: `corr-${overrides.batchId ?? 'batch-1'}`,
+    data: {
+      batchId: 'batch-1',
+      status: 'completed',
+      templateKey: 'digest',
+      totalRecipients: 1,
+      processedCount: 1,
+      successCount: 1,
+      failureCount: 0,
+      suppressedCount: 0,
+      startedAt: '2026-05-07T10:00:00Z',
+      completedAt: '2026-05-07T10:00:01Z',
+      recipients: [{ email: 'a@example.com', status: 'sent' }],
+      ...overrides,
+    },
+  };
+}
+
+describe('chunkRecipients', () => {
+  const recipients = [1, 2, 3, 4, 5].map((n) => ({ email: `user${n}@example.com` }));
+
+  it('keeps the whole list in one chunk without a chunk size', () => {
+    expect(chunkRecipients(recipients)).toEqual([recipients]);
+  });
+
+  it('splits into chunks of at most chunkSize', () => {
+    expect(chunkRecipients(recipients, 2).map((chunk) => chunk.length)).toEqual([2, 2, 1]);
+  });
+
+  it('returns one empty chunk for an empty list', () => {
+    expect(chunkRecipients([], 10)).toEqual([[]]);
+  });
+
+  it('rejects invalid chunk sizes', () => {
+    expect(() => chunkRecipients(recipients, 0)).toThrow(RangeError);
+    expect(() => chunkRecipients(recipients, 1.5)).toThrow(RangeError);
+  });
+});
+
+describe('runWithConcurrency', () => {
+  it('processes every item', async () => {
+    const seen: number[] = [];
+    await runWithConcurrency([1, 2, 3], 2, async (item) => {
+      seen.push(item);
+    });
+    expect(seen.sort()).toEqual([1, 2, 3]);
+  });
+
+  it('does nothing for an empty list', async () => {
+    let calls = 0;
+    await runWithConcurrency([], 3, async () => {
+      calls++;
+    });
+    expect(calls).toBe(0);
+  });
+});
+
+describe('mergeBulkResponses', () => {
+  it('returns a single response unchanged', () => {
+    const only = response();
+    expect(mergeBulkResponses([only])).toBe(only);
+  });
+
+  it('sums counts and concatenates recipients and errors', () => {
+    const merged = mergeBulkResponses([
+      response({
+        batchId: 'batch-1',
+        totalRecipients: 2,
+        processedCount: 2,
+        successCount: 1,
+        failureCount: 1,
+        recipients: [
+          { email: 'a@example.com', status: 'sent' },
+          { email: 'b@example.com', status: 'failed' },
+        ],
+        errors: [{ code: 'INVALID_RECIPIENT', message: 'Invalid', recipient: 'b@example.com' }],
+      }),
+      response({
+        batchId: 'batch-2',
+        status: 'processing',
+        startedAt: '2026-05-07T09:59:00Z',
+        completedAt: null,
+        suppressedCount: 1,
+        successCount: 0,
+        recipients: [{ email: 'c@example.com', status: 'suppressed' }],
+      }),
+    ]);
+
+    expect(merged.correlationId).toBe('corr-batch-1');
+    expect(merged.data).toMatchObject({
+      batchId: 'batch-1',
+      status: 'mixed',
+      totalRecipients: 3,
+      processedCount: 3,
+      successCount: 1,
+      failureCount: 1,
+      suppressedCount: 1,
+      startedAt: '2026-05-07T09:59:00Z',
+      completedAt: null,
+      metadata: { batchIds: ['batch-1', 'batch-2'], correlationIds: ['corr-batch-1', 'corr-batch-2'] },
+    });
+    expect(merged.data.recipients.map((r) => r.email)).toEqual([
+      'a@example.com',
+      'b@example.com',
+      'c@example.com',
+    ]);
+    expect(merged.data.errors).toHaveLength(1);
+  });
+
+  it('rejects an empty list', () => {
+    expect(() => mergeBulkResponses([])).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createCircuitBreakerMirror } from '../circuitBreaker/createCircuitBreakerMirror';
+
+class NetworkError extends Error {
+  name = 'NetworkError';
+}
+
+class CircuitOpenError extends Error {
+  name = 'CircuitOpenError';
+}
+
+function createMirror() {
+  return createCircuitBreakerMirror({
+    failureThreshold: 3,
+    resetTimeoutMs: 10_000,
+    isFailure: (error) => error instanceof NetworkError,
+    isOpenError: (error) => error instanceof CircuitOpenError,
+  });
+}
+
+describe('createCircuitBreakerMirror', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.parse('2026-05-07T10:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('opens after the configured number of consecutive failures', () => {
+    const mirror = createMirror();
+
+    mirror.recordFailure(new NetworkError());
+    mirror.recordFailure(new NetworkError());
+    expect(mirror.getState()).toMatchObject({ status: 'closed', failureCount: 2 });
+
+    mirror.recordFailure(new NetworkError());
+    expect(mirror.getState()).toEqual({
+      status: 'open',
+      failureCount: 3,
+      openedAt: Date.now(),
+      nextProbeAt: Date.now() + 10_000,
+    });
+  });
+
+  it('resets the count on success and ignores errors that do not count', () => {
+    const mirror = createMirror();
+
+    mirror.recordFailure(new NetworkError());
+    mirror.recordFailure(new NetworkError());
+    mirror.recordSuccess();
+    mirror.recordFailure(new Error('Invalid template data'));
+    mirror.recordFailure(new NetworkError());
+
+    expect(mirror.getState()).toMatchObject({ status: 'closed', failureCount: 1 });
+  });
+
+  it('moves to half-open after the reset timeout and closes on the next success', () => {
+    const mirror = createMirror();
+    const listener = vi.fn();
+    mirror.subscribe(listener);
+
+    mirror.recordFailure(new CircuitOpenError());
+    expect(mirror.getState().status).toBe('open');
+
+    vi.advanceTimersByTime(10_000);
+    expect(mirror.getState().status).toBe('half-open');
+
+    mirror.recordSuccess();
+    expect(mirror.getState()).toEqual({
+      status: 'closed',
+      failureCount: 0,
+      openedAt: null,
+      nextProbeAt: null,
+    });
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  it('reopens when the half-open probe fails', () => {
+    const mirror = createMirror();
+
+    mirror.recordFailure(new CircuitOpenError());
+    vi.advanceTimersByTime(10_000);
+    mirror.recordFailure(new NetworkError());
+
+    expect(mirror.getState()).toMatchObject({
+      status: 'open',
+      nextProbeAt: Date.now() + 10_000,
+    });
+  });
+
+  it('closes on reset and cancels the pending probe', () => {
+    const mirror = createMirror();
+
+    mirror.recordFailure(new CircuitOpenError());
+    mirror.reset();
+    vi.advanceTimersByTime(10_000);
+
+    expect(mirror.getState().status).toBe('closed');
+  });
+});
@@ -1,9 +1,12 @@
 import React from 'react';
-import { renderHook } from '@testing-library/react';
+import { act, renderHook } from '@testing-library/react';
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { getOrCreateContext, useHuefyContext } from '../context';
+import { getOrCreateClientsContext, getOrCreateContext, useHuefyContext } from '../context';
+import { useSendEmail } from '../hooks/useSendEmail';
+import type { HuefyContextValue } from '../types';
 
 const CONTEXT_KEY = '__HUEFY_REACT_CONTEXT__';
+const CLIENTS_CONTEXT_KEY = '__HUEFY_REACT_CLIENTS_CONTEXT__';
 
 describe('getOrCreateContext', () => {
   afterEach(() => {
@@ -72,3 +75,75 @@ describe('useHuefyContext', () => {
     expect(result.current.client).toBe(mockValue.client);
   });
 });
+
+describe('named providers', () => {
+  afterEach(() => {
+    const globalRegistry = globalThis as unknown as Record<string, unknown>;
+    delete globalRegistry[CONTEXT_KEY];
+    delete globalRegistry[CLIENTS_CONTEXT_KEY];
+  });
+
+  function contextValue(client: unknown): HuefyContextValue {
+    return {
+      client: client as HuefyContextValue['client'],
+      isReady: true,
+      isLoading: false,
+      error: null,
+    };
+  }
+
+  function createWrapper(
+    defaultValue: HuefyContextValue | undefined,
+    clients: Record<string, HuefyContextValue>,
+  ) {
+    const Context = getOrCreateContext();
+    const ClientsContext = getOrCreateClientsContext();
+
+    return function Wrapper({ children }: { children: React.ReactNode }) {
+      return (
+        <Context.Provider value={defaultValue}>
+          <ClientsContext.Provider value={clients}>{children}</ClientsContext.Provider>
+        </Context.Provider>
+      );
+    };
+  }
+
+  it('should return the named provider, or the unnamed one without a name', () => {
+    const transactional = contextValue({ name: 'transactional' });
+    const marketing = contextValue({ name: 'marketing' });
+    const wrapper = createWrapper(transactional, { marketing });
+
+    const { result } = renderHook(
+      () => ({ fallback: useHuefyContext(), named: useHuefyContext('marketing') }),
+      { wrapper },
+    );
+
+    expect(result.current.fallback).toBe(transactional);
+    expect(result.current.named).toBe(marketing);
+  });
+
+  it('should name the mounted providers when the requested one is missing', () => {
+    const wrapper = createWrapper(undefined, { marketing: contextValue({}) });
+
+    expect(() => {
+      renderHook(() => useHuefyContext('transactional'), { wrapper });
+    }).toThrow('No HuefyProvider named "transactional" is mounted above this component. Mounted named providers: "marketing".');
+  });
+
+  it('should send through the client selected by the hook option', async () => {
+    const defaultSend = vi.fn().mockResolvedValue({});
+    const marketingSend = vi.fn().mockResolvedValue({});
+    const wrapper = createWrapper(contextValue({ sendEmail: defaultSend }), {
+      marketing: contextValue({ sendEmail: marketingSend }),
+    });
+
+    const { result } = renderHook(() => useSendEmail({ client: 'marketing' }), { wrapper });
+
+    await act(async () => {
+      await result.current.send('newsletter', {}, 'ada@example.com');
+    });
+
+    expect(marketingSend).toHaveBeenCalledTimes(1);
+    expect(defaultSend).not.toHaveBeenCalled();
+  });
+});
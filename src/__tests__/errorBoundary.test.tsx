@@ -0,0 +1,128 @@
+import React from 'react';
+import { render, screen, act } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { HuefyErrorBoundary } from '../components/HuefyErrorBoundary';
+import { getOrCreateContext } from '../context';
+import type { HuefyContextValue, HuefyErrorBoundaryFallbackProps } from '../types';
+
+const CONTEXT_KEY = '__HUEFY_REACT_CONTEXT__';
+
+function createWrapper(contextValue: Partial<HuefyContextValue> = {}) {
+  const Context = getOrCreateContext();
+
+  const defaultValue: HuefyContextValue = {
+    client: {} as unknown as HuefyContextValue['client'],
+    isReady: true,
+    isLoading: false,
+    error: null,
+    ...contextValue,
+  };
+
+  return function Wrapper({ children }: { children: React.ReactNode }) {
+    return <Context.Provider value={defaultValue}>{children}</Context.Provider>;
+  };
+}
+
+function Fallback({ error, retry }: HuefyErrorBoundaryFallbackProps) {
+  return (
+    <div>
+      <span data-testid="fallback">{error.message}</span>
+      <button data-testid="retry" onClick={retry}>
+        Retry
+      </button>
+    </div>
+  );
+}
+
+let shouldThrow = false;
+
+function Flaky() {
+  if (shouldThrow) throw new Error('Render failed');
+  return <span data-testid="content">Content</span>;
+}
+
+describe('HuefyErrorBoundary', () => {
+  beforeEach(() => {
+    shouldThrow = false;
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    const globalRegistry = globalThis as unknown as Record<string, unknown>;
+    delete globalRegistry[CONTEXT_KEY];
+  });
+
+  it('renders the children when there is no error', () => {
+    render(
+      <HuefyErrorBoundary fallback={Fallback}>
+        <Flaky />
+      </HuefyErrorBoundary>,
+      { wrapper: createWrapper() },
+    );
+
+    expect(screen.getByTestId('content')).toBeInTheDocument();
+  });
+
+  it('renders the fallback for the provider initialization error and re-initializes on retry', () => {
+    const reinitialize = vi.fn();
+
+    render(
+      <HuefyErrorBoundary fallback={Fallback}>
+        <Flaky />
+      </HuefyErrorBoundary>,
+      {
+        wrapper: createWrapper({
+          client: null,
+          isReady: false,
+          error: new Error('Invalid API key'),
+          reinitialize,
+        }),
+      },
+    );
+
+    expect(screen.getByTestId('fallback')).toHaveTextContent('Invalid API key');
+
+    act(() => {
+      screen.getByTestId('retry').click();
+    });
+
+    expect(reinitialize).toHaveBeenCalledTimes(1);
+  });
+
+  it('catches render errors and re-renders the children on retry', () => {
+    const reinitialize = vi.fn();
+    const onError = vi.fn();
+    shouldThrow = true;
+
+    render(
+      <HuefyErrorBoundary fallback={Fallback} onError={onError}>
+        <Flaky />
+      </HuefyErrorBoundary>,
+      { wrapper: createWrapper({ reinitialize }) },
+    );
+
+    expect(screen.getByTestId('fallback')).toHaveTextContent('Render failed');
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), expect.anything());
+
+    shouldThrow = false;
+    act(() => {
+      screen.getByTestId('retry').click();
+    });
+
+    expect(screen.getByTestId('content')).toBeInTheDocument();
+    expect(reinitialize).not.toHaveBeenCalled();
+  });
+
+  it('accepts a static fallback and works outside a provider', () => {
+    shouldThrow = true;
+
+    render(
+      <HuefyErrorBoundary fallback={<span data-testid="static">Something went wrong</span>}>
+        <Flaky />
+      </HuefyErrorBoundary>,
+    );
+
+    expect(screen.getByTestId('static')).toBeInTheDocument();
+  });
+});
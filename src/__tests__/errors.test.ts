@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { HuefyErrorCode, InsufficientQuotaError } from '@teracrafts/huefy';
+import {
+  ClientNotReadyError,
+  FormValidationError,
+  RateLimitBlockedError,
+  describeError,
+} from '../errors';
+
+function coreError(name: string, message: string, extra: Record<string, unknown> = {}) {
+  return Object.assign(new Error(message), { name, ...extra });
+}
+
+describe('describeError', () => {
+  it('describes rate limiting with its retry-after delay', () => {
+    const error = coreError('RateLimitError', 'Too many requests', {
+      code: 'RATE_LIMIT_EXCEEDED',
+      retryAfter: 30,
+      correlationId: 'corr-1',
+    });
+
+    expect(describeError(error)).toMatchObject({
+      kind: 'rate-limited',
+      message: 'Too many requests',
+      retryable: true,
+      retryAfter: 30,
+      correlationId: 'corr-1',
+      field: null,
+      error,
+    });
+  });
+
+  it('recognizes core error classes whatever their name', () => {
+    const error = new InsufficientQuotaError('Monthly email quota exceeded', { limit: 1000, used: 1000 });
+    Object.defineProperty(error, 'name', { value: 'Error' });
+
+    expect(describeError(error)).toMatchObject({
+      kind: 'quota-exceeded',
+      code: HuefyErrorCode.INSUFFICIENT_QUOTA,
+      retryable: false,
+    });
+  });
+
+  it('only reports core error codes as the code', () => {
+    const error = coreError('HuefyProxyError', 'Not allowed', { code: 'TEMPLATE_NOT_ALLOWED' });
+
+    expect(describeError(error).code).toBeNull();
+  });
+
+  it('relates template and recipient errors to their request field', () => {
+    expect(describeError(coreError('InvalidRecipientError', 'Bad address')).field).toBe('recipient');
+    expect(describeError(coreError('TemplateNotFoundError', 'Missing')).field).toBe('templateKey');
+    expect(describeError(coreError('InvalidTemplateDataError', 'Bad data')).field).toBe('data');
+  });
+
+  it('prefers a field and correlation id reported in the error details', () => {
+    const error = coreError('InvalidTemplateDataError', 'Bad data', {
+      details: { field: 'data.firstName', correlationId: 'corr-2' },
+    });
+
+    expect(describeError(error)).toMatchObject({ field: 'data.firstName', correlationId: 'corr-2' });
+  });
+
+  it('falls back to the error code when the name is generic', () => {
+    expect(describeError(coreError('HuefyError', 'Quota', { code: 'INSUFFICIENT_QUOTA' }))).toMatchObject({
+      kind: 'quota-exceeded',
+      retryable: false,
+    });
+    expect(describeError(coreError('HuefyError', 'Down', { code: 'NETWORK_ERROR' }))).toMatchObject({
+      kind: 'network',
+      retryable: true,
+    });
+  });
+
+  it('treats fetch failures as network errors', () => {
+    expect(describeError(new TypeError('Failed to fetch'))).toMatchObject({
+      kind: 'network',
+      retryable: true,
+    });
+    expect(describeError(new TypeError('x is undefined')).kind).toBe('unknown');
+  });
+
+  it('gives validation and not-ready errors their own kinds', () => {
+    const validation = describeError(new FormValidationError(['Recipient email is required']));
+    expect(validation).toMatchObject({
+      kind: 'validation',
+      message: 'Validation failed: Recipient email is required',
+      retryable: false,
+    });
+    expect(describeError(new ClientNotReadyError('Not ready'))).toMatchObject({
+      kind: 'not-ready',
+      retryable: true,
+    });
+  });
+
+  it('describes a blocked send as rate limited', () => {
+    const error = new RateLimitBlockedError(new Date(Date.now() + 10_000), 100);
+
+    expect(describeError(error)).toMatchObject({ kind: 'rate-limited', retryAfter: 10 });
+  });
+
+  it('never retries aborted requests and wraps non-Error values', () => {
+    expect(describeError(new DOMException('Aborted', 'AbortError')).retryable).toBe(false);
+
+    const described = describeError('boom');
+    expect(described.kind).toBe('unknown');
+    expect(described.error).toBeInstanceOf(Error);
+    expect(described.message).toBe('boom');
+  });
+});
@@ -138,6 +138,12 @@ describe('useHuefy', () => {
       HuefyErrorCode.INSUFFICIENT_QUOTA,
     );
     expect((result.current.error as InsufficientQuotaError).statusCode).toBe(402);
+    expect(result.current.errorInfo).toMatchObject({
+      kind: 'quota-exceeded',
+      code: HuefyErrorCode.INSUFFICIENT_QUOTA,
+      retryable: false,
+      error: actionError,
+    });
     expect(onError).toHaveBeenCalledWith(actionError);
   });
 
@@ -212,13 +218,373 @@ describe('useHuefy', () => {
       await result.current.execute('arg1', 'arg2');
     });
 
+    expect(actionFn).toHaveBeenCalledWith(expect.anything(), 'arg1', 'arg2');
+  });
+
+  it('should pass the execution context before the arguments with withContext', async () => {
+    const actionFn = vi.fn().mockResolvedValue('result');
+
+    const { result } = renderHook(() => useHuefy(actionFn, { withContext: true }), {
+      wrapper: createWrapper(),
+    });
+
+    await act(async () => {
+      await result.current.execute('arg1', 'arg2');
+    });
+
     expect(actionFn).toHaveBeenCalledWith(
       expect.anything(), // client
+      { signal: expect.any(AbortSignal), idempotencyKey: expect.any(String) },
       'arg1',
       'arg2',
     );
   });
 
+  it('should abort the signal and move to cancelled on cancel', async () => {
+    let signal: AbortSignal | undefined;
+    const actionFn = vi.fn().mockImplementation(
+      (_client, context: { signal: AbortSignal }) =>
+        new Promise((_, reject) => {
+          signal = context.signal;
+          context.signal.addEventListener('abort', () =>
+            reject(new DOMException('The operation was aborted.', 'AbortError')),
+          );
+        }),
+    );
+    const onError = vi.fn();
+
+    const { result } = renderHook(() => useHuefy(actionFn, { onError, withContext: true }), {
+      wrapper: createWrapper(),
+    });
+
+    let executePromise: Promise<unknown>;
+    act(() => {
+      executePromise = result.current.execute();
+    });
+
+    expect(result.current.status).toBe('loading');
+
+    await act(async () => {
+      result.current.cancel();
+      await executePromise;
+    });
+
+    expect(signal?.aborted).toBe(true);
+    expect(result.current.status).toBe('cancelled');
+    expect(result.current.loading).toBe(false);
+    expect(result.current.error).toBeNull();
+    expect(onError).not.toHaveBeenCalled();
+    await expect(executePromise!).resolves.toBeUndefined();
+  });
+
+  it('should discard the result of a cancelled action', async () => {
+    let resolvePromise: (value: string) => void;
+    const actionFn = vi.fn().mockImplementation(
+      () => new Promise<string>((resolve) => { resolvePromise = resolve; }),
+    );
+    const onSuccess = vi.fn();
+
+    const { result } = renderHook(() => useHuefy<string>(actionFn, { onSuccess }), {
+      wrapper: createWrapper(),
+    });
+
+    let executePromise: Promise<unknown>;
+    act(() => {
+      executePromise = result.current.execute();
+    });
+
+    await act(async () => {
+      result.current.cancel();
+      resolvePromise!('late');
+      await executePromise;
+    });
+
+    expect(result.current.status).toBe('cancelled');
+    expect(result.current.data).toBeNull();
+    expect(onSuccess).not.toHaveBeenCalled();
+  });
+
+  it('should treat cancel without an in-flight action as a no-op', () => {
+    const { result } = renderHook(() => useHuefy(vi.fn()), {
+      wrapper: createWrapper(),
+    });
+
+    act(() => {
+      result.current.cancel();
+    });
+
+    expect(result.current.status).toBe('idle');
+  });
+
+  it('should abort the in-flight signal on unmount', async () => {
+    let signal: AbortSignal | undefined;
+    const actionFn = vi.fn().mockImplementation((_client, context: { signal: AbortSignal }) => {
+      signal = context.signal;
+      return new Promise(() => {});
+    });
+
+    const { result, unmount } = renderHook(() => useHuefy(actionFn, { withContext: true }), {
+      wrapper: createWrapper(),
+    });
+
+    act(() => {
+      result.current.execute();
+    });
+
+    unmount();
+
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('should infer execute arguments from the action function', async () => {
+    const actionFn = vi.fn(async (_client: unknown, email: string, count: number) => `${email}:${count}`);
+
+    const { result } = renderHook(
+      () => useHuefy((client, email: string, count: number) => actionFn(client, email, count)),
+      { wrapper: createWrapper() },
+    );
+
+    let value: string | undefined;
+    await act(async () => {
+      value = await result.current.execute('a@b.com', 2);
+    });
+
+    expect(value).toBe('a@b.com:2');
+
+    if (false as boolean) {
+      // @ts-expect-error wrong argument type
+      await result.current.execute('a@b.com', '2');
+      // @ts-expect-error missing argument
+      await result.current.execute('a@b.com');
+    }
+  });
+
+  it('should keep accepting untyped variadic actions', async () => {
+    const actionFn = vi.fn().mockResolvedValue('ok');
+
+    const { result } = renderHook(
+      () => useHuefy<string>((client, ...args) => actionFn(client, ...args)),
+      { wrapper: createWrapper() },
+    );
+
+    await act(async () => {
+      await result.current.execute('anything', 1, { nested: true });
+    });
+
+    expect(actionFn).toHaveBeenCalledWith(expect.anything(), 'anything', 1, { nested: true });
+  });
+
+  it('should reuse the idempotency key until a success and rotate it afterwards', async () => {
+    const actionFn = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('Network failure'))
+      .mockResolvedValue('ok');
+    const keyOf = (call: number) =>
+      (actionFn.mock.calls[call][1] as { idempotencyKey: string }).idempotencyKey;
+
+    const { result } = renderHook(() => useHuefy(actionFn, { withContext: true }), {
+      wrapper: createWrapper(),
+    });
+    const initialKey = result.current.idempotencyKey;
+
+    await act(async () => {
+      await result.current.execute();
+    });
+    await act(async () => {
+      await result.current.execute();
+    });
+
+    expect(keyOf(0)).toBe(initialKey);
+    expect(keyOf(1)).toBe(initialKey);
+    expect(result.current.idempotencyKey).not.toBe(initialKey);
+
+    const nextKey = result.current.idempotencyKey;
+    act(() => {
+      result.current.reset();
+    });
+    expect(result.current.idempotencyKey).not.toBe(nextKey);
+  });
+
+  it('should rotate the idempotency key when a failed execution is followed by other arguments', async () => {
+    const actionFn = vi.fn().mockRejectedValue(new Error('Network failure'));
+    const keyOf = (call: number) =>
+      (actionFn.mock.calls[call][1] as { idempotencyKey: string }).idempotencyKey;
+
+    const { result } = renderHook(() => useHuefy(actionFn, { withContext: true }), {
+      wrapper: createWrapper(),
+    });
+
+    await act(async () => {
+      await result.current.execute({ to: 'a@example.com', data: { a: 1, b: 2 } });
+    });
+    // Same payload with its keys in another order
+    await act(async () => {
+      await result.current.execute({ data: { b: 2, a: 1 }, to: 'a@example.com' });
+    });
+    await act(async () => {
+      await result.current.execute({ to: 'b@example.com', data: { a: 1, b: 2 } });
+    });
+
+    expect(keyOf(1)).toBe(keyOf(0));
+    expect(keyOf(2)).not.toBe(keyOf(0));
+    expect(result.current.idempotencyKey).toBe(keyOf(2));
+  });
+
+  it('should use a caller-provided idempotency key', async () => {
+    const actionFn = vi.fn().mockResolvedValue('ok');
+
+    const { result } = renderHook(
+      () => useHuefy(actionFn, { idempotencyKey: 'order-42', withContext: true }),
+      { wrapper: createWrapper() },
+    );
+
+    await act(async () => {
+      await result.current.execute();
+    });
+
+    expect(actionFn).toHaveBeenCalledWith(expect.anything(), {
+      signal: expect.any(AbortSignal),
+      idempotencyKey: 'order-42',
+    });
+    expect(result.current.idempotencyKey).toBe('order-42');
+  });
+
+  describe('concurrency', () => {
+    function deferredAction() {
+      const pending: Array<(value: string) => void> = [];
+      const actionFn = vi.fn().mockImplementation(
+        () => new Promise<string>((resolve) => pending.push(resolve)),
+      );
+      return { actionFn, pending };
+    }
+
+    it('should ignore calls while one is pending', async () => {
+      const { actionFn, pending } = deferredAction();
+
+      const { result } = renderHook(
+        () => useHuefy(actionFn, { concurrency: 'ignore-while-pending' }),
+        { wrapper: createWrapper() },
+      );
+
+      let first: Promise<unknown>;
+      let second: Promise<unknown>;
+      act(() => {
+        first = result.current.execute();
+        second = result.current.execute();
+      });
+
+      expect(actionFn).toHaveBeenCalledTimes(1);
+      expect(result.current.inFlight).toBe(1);
+      await expect(second!).resolves.toBeUndefined();
+
+      await act(async () => {
+        pending[0]('first');
+        await first!;
+      });
+
+      expect(result.current.data).toBe('first');
+      expect(result.current.inFlight).toBe(0);
+    });
+
+    it('should queue calls and run them one after another', async () => {
+      const { actionFn, pending } = deferredAction();
+
+      const { result } = renderHook(() => useHuefy(actionFn, { concurrency: 'queue' }), {
+        wrapper: createWrapper(),
+      });
+
+      let first: Promise<unknown>;
+      let second: Promise<unknown>;
+      act(() => {
+        first = result.current.execute();
+        second = result.current.execute();
+      });
+
+      expect(actionFn).toHaveBeenCalledTimes(1);
+      expect(result.current.inFlight).toBe(1);
+      expect(result.current.queued).toBe(1);
+
+      await act(async () => {
+        pending[0]('first');
+        await first!;
+      });
+
+      expect(actionFn).toHaveBeenCalledTimes(2);
+      expect(result.current.queued).toBe(0);
+      expect(result.current.status).toBe('loading');
+
+      await act(async () => {
+        pending[1]('second');
+        await expect(second!).resolves.toBe('second');
+      });
+
+      expect(result.current.data).toBe('second');
+      expect(result.current.status).toBe('success');
+    });
+
+    it('should drop queued calls on cancel', async () => {
+      const { actionFn } = deferredAction();
+
+      const { result } = renderHook(() => useHuefy(actionFn, { concurrency: 'queue' }), {
+        wrapper: createWrapper(),
+      });
+
+      let queuedCall: Promise<unknown>;
+      act(() => {
+        result.current.execute();
+        queuedCall = result.current.execute();
+      });
+
+      act(() => {
+        result.current.cancel();
+      });
+
+      await expect(queuedCall!).resolves.toBeUndefined();
+      expect(actionFn).toHaveBeenCalledTimes(1);
+      expect(result.current.queued).toBe(0);
+      expect(result.current.inFlight).toBe(0);
+      expect(result.current.status).toBe('cancelled');
+    });
+
+    it('should run parallel calls side by side with their own idempotency keys', async () => {
+      const { actionFn, pending } = deferredAction();
+
+      const { result } = renderHook(() => useHuefy(actionFn, { concurrency: 'parallel', withContext: true }), {
+        wrapper: createWrapper(),
+      });
+
+      let first: Promise<unknown>;
+      let second: Promise<unknown>;
+      act(() => {
+        first = result.current.execute();
+        second = result.current.execute();
+      });
+
+      expect(actionFn).toHaveBeenCalledTimes(2);
+      expect(result.current.inFlight).toBe(2);
+      const [[, firstContext], [, secondContext]] = actionFn.mock.calls;
+      expect(firstContext.signal.aborted).toBe(false);
+      expect(firstContext.idempotencyKey).not.toBe(secondContext.idempotencyKey);
+
+      await act(async () => {
+        pending[1]('second');
+        await second!;
+      });
+
+      expect(result.current.data).toBe('second');
+      expect(result.current.status).toBe('loading');
+
+      await act(async () => {
+        pending[0]('first');
+        await expect(first!).resolves.toBe('first');
+      });
+
+      expect(result.current.data).toBe('first');
+      expect(result.current.inFlight).toBe(0);
+      expect(result.current.status).toBe('success');
+    });
+  });
+
   it('should handle non-Error exceptions', async () => {
     const actionFn = vi.fn().mockRejectedValue('string error');
 
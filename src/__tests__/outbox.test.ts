@@ -0,0 +1,177 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createOutbox } from '../outbox/createOutbox';
+import {
+  createLocalStorageOutboxStorage,
+  createMemoryOutboxStorage,
+} from '../outbox/storage';
+import type { SendEmailRequest } from '../types/email';
+import type { OutboxItem } from '../types/outbox';
+
+class NetworkError extends Error {
+  name = 'NetworkError';
+}
+
+const isRetryable = (error: unknown) => error instanceof NetworkError;
+
+const request: SendEmailRequest = {
+  templateKey: 'welcome',
+  data: { name: 'Alice' },
+  recipient: 'alice@example.com',
+};
+
+function storedItem(overrides: Partial<OutboxItem> = {}): OutboxItem {
+  return {
+    id: 'item-1',
+    request,
+    status: 'pending',
+    attempts: 1,
+    createdAt: 0,
+    nextAttemptAt: 0,
+    ...overrides,
+  };
+}
+
+describe('createOutbox', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    localStorage.clear();
+  });
+
+  it('captures only retryable errors', async () => {
+    const outbox = createOutbox({ dispatch: vi.fn(), isRetryable });
+
+    expect(await outbox.capture(request, new Error('Invalid template'))).toBeNull();
+    const item = await outbox.capture(request, new NetworkError('offline'));
+
+    expect(item).toMatchObject({ request, status: 'pending', attempts: 1, lastError: 'offline' });
+    expect(outbox.getItems()).toEqual([item]);
+  });
+
+  it('replays a queued item after the backoff delay and removes it on success', async () => {
+    const dispatch = vi.fn().mockResolvedValue(undefined);
+    const outbox = createOutbox({ dispatch, isRetryable, baseDelayMs: 1000 });
+
+    await outbox.enqueue(request);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(dispatch).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(dispatch).toHaveBeenCalledWith(expect.objectContaining({ request }));
+    expect(outbox.getItems()).toEqual([]);
+  });
+
+  it('backs off exponentially and marks the item failed after maxAttempts', async () => {
+    const dispatch = vi.fn().mockRejectedValue(new NetworkError('still offline'));
+    const outbox = createOutbox({ dispatch, isRetryable, baseDelayMs: 100, maxAttempts: 3 });
+
+    await outbox.enqueue(request);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(dispatch).toHaveBeenCalledTimes(1);
+    expect(outbox.getItems()[0]).toMatchObject({ status: 'pending', attempts: 2 });
+
+    await vi.advanceTimersByTimeAsync(199);
+    expect(dispatch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(dispatch).toHaveBeenCalledTimes(2);
+
+    expect(outbox.getItems()[0]).toMatchObject({
+      status: 'failed',
+      attempts: 3,
+      lastError: 'still offline',
+    });
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(dispatch).toHaveBeenCalledTimes(2);
+  });
+
+  it('marks an item failed right away on a non-retryable replay error', async () => {
+    const dispatch = vi.fn().mockRejectedValue(new Error('Template not found'));
+    const outbox = createOutbox({ dispatch, isRetryable, baseDelayMs: 100 });
+
+    await outbox.enqueue(request);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(outbox.getItems()[0]).toMatchObject({ status: 'failed', attempts: 2 });
+  });
+
+  it('retries failed items on demand and discards items without sending them', async () => {
+    const dispatch = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('Template not found'))
+      .mockResolvedValue(undefined);
+    const outbox = createOutbox({ dispatch, isRetryable, baseDelayMs: 100 });
+
+    const first = await outbox.enqueue(request);
+    const second = await outbox.enqueue({ ...request, recipient: 'bob@example.com' });
+    await outbox.discard(second.id);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(outbox.getItems()).toEqual([expect.objectContaining({ id: first.id, status: 'failed' })]);
+
+    await outbox.retry(first.id);
+
+    expect(dispatch).toHaveBeenCalledTimes(2);
+    expect(outbox.getItems()).toEqual([]);
+  });
+
+  it('does not replay while the browser is offline', async () => {
+    const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    const dispatch = vi.fn().mockResolvedValue(undefined);
+    const outbox = createOutbox({
+      dispatch,
+      isRetryable,
+      storage: createMemoryOutboxStorage([storedItem()]),
+    });
+
+    await outbox.replay();
+    expect(dispatch).not.toHaveBeenCalled();
+
+    onLine.mockReturnValue(true);
+    await outbox.replay();
+    expect(dispatch).toHaveBeenCalledTimes(1);
+    onLine.mockRestore();
+  });
+
+  it('restores items interrupted mid-replay as pending', async () => {
+    const outbox = createOutbox({
+      dispatch: vi.fn().mockResolvedValue(undefined),
+      isRetryable,
+      storage: createMemoryOutboxStorage([storedItem({ status: 'sending' })]),
+    });
+
+    await outbox.enqueue({ ...request, recipient: 'bob@example.com' });
+
+    expect(outbox.getItems().map((item) => item.status)).toEqual(['pending', 'pending']);
+  });
+
+  it('notifies subscribers on every change', async () => {
+    const outbox = createOutbox({ dispatch: vi.fn(), isRetryable });
+    await outbox.replay();
+    const listener = vi.fn();
+    const unsubscribe = outbox.subscribe(listener);
+
+    const item = await outbox.enqueue(request);
+    await outbox.discard(item.id);
+    unsubscribe();
+    await outbox.enqueue(request);
+
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('persists items to localStorage', async () => {
+    const storage = createLocalStorageOutboxStorage('test:outbox');
+    const outbox = createOutbox({ dispatch: vi.fn(), isRetryable, storage });
+
+    const item = await outbox.enqueue(request);
+    expect(JSON.parse(localStorage.getItem('test:outbox') ?? '[]')).toEqual([item]);
+
+    const restored = createOutbox({ dispatch: vi.fn(), isRetryable, storage });
+    await restored.replay();
+    expect(restored.getItems()).toEqual([item]);
+
+    await restored.discard(item.id);
+    expect(localStorage.getItem('test:outbox')).toBeNull();
+  });
+});
@@ -1,12 +1,15 @@
-import React from 'react';
+import React, { Suspense } from 'react';
 import { render, screen, waitFor, act } from '@testing-library/react';
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { HuefyProvider } from '../components/HuefyProvider';
 import { useHuefyContext } from '../context';
+import { useSendEmail } from '../hooks/useSendEmail';
+import { createMemoryOutboxStorage } from '../outbox/storage';
 
 // Mock the SDK client
-vi.mock('@teracrafts/huefy', () => {
+vi.mock('@teracrafts/huefy', async (importOriginal) => {
   return {
+    ...(await importOriginal<typeof import('@teracrafts/huefy')>()),
     HuefyEmailClient: vi.fn().mockImplementation((config: unknown) => ({
       config,
       close: vi.fn(),
@@ -20,7 +23,8 @@ const CONTEXT_KEY = '__HUEFY_REACT_CONTEXT__';
  * Helper component that displays context state for testing.
  */
 function ContextConsumer() {
-  const { client, isReady, isLoading, error } = useHuefyContext();
+  const { client, isReady, isLoading, error, connectionStatus, health, rateLimit } =
+    useHuefyContext();
 
   return (
     <div>
@@ -28,6 +32,9 @@ function ContextConsumer() {
       <span data-testid="is-loading">{String(isLoading)}</span>
       <span data-testid="has-client">{String(client !== null)}</span>
       <span data-testid="error">{error?.message ?? 'none'}</span>
+      <span data-testid="connection-status">{connectionStatus}</span>
+      <span data-testid="health-version">{health?.version ?? 'none'}</span>
+      <span data-testid="rate-limit-remaining">{rateLimit?.remaining ?? 'none'}</span>
     </div>
   );
 }
@@ -107,6 +114,100 @@ describe('HuefyProvider', () => {
     expect(onError).toHaveBeenCalledWith(expect.any(Error));
   });
 
+  it('should retry a failed initialization with backoff', async () => {
+    const { HuefyEmailClient } = await import('@teracrafts/huefy');
+    const MockClient = HuefyEmailClient as unknown as ReturnType<typeof vi.fn>;
+    const failure = () => {
+      throw new Error('Init failed');
+    };
+    MockClient.mockImplementationOnce(failure).mockImplementationOnce(failure);
+
+    const onError = vi.fn();
+
+    render(
+      <HuefyProvider
+        config={defaultConfig}
+        onError={onError}
+        retryInitialization={{ maxAttempts: 3, baseDelayMs: 1 }}
+      >
+        <ContextConsumer />
+      </HuefyProvider>,
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId('is-ready')).toHaveTextContent('true');
+    });
+
+    expect(MockClient).toHaveBeenCalledTimes(3);
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('should report the last error once initialization retries are exhausted', async () => {
+    const { HuefyEmailClient } = await import('@teracrafts/huefy');
+    const MockClient = HuefyEmailClient as unknown as ReturnType<typeof vi.fn>;
+    MockClient.mockImplementationOnce(() => {
+      throw new Error('First failure');
+    }).mockImplementationOnce(() => {
+      throw new Error('Last failure');
+    });
+
+    const onError = vi.fn();
+
+    render(
+      <HuefyProvider
+        config={defaultConfig}
+        onError={onError}
+        retryInitialization={{ maxAttempts: 2, baseDelayMs: 1 }}
+      >
+        <ContextConsumer />
+      </HuefyProvider>,
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId('error')).toHaveTextContent('Last failure');
+    });
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(screen.getByTestId('is-loading')).toHaveTextContent('false');
+  });
+
+  it('should initialize again when reinitialize is called', async () => {
+    const { HuefyEmailClient } = await import('@teracrafts/huefy');
+    const MockClient = HuefyEmailClient as unknown as ReturnType<typeof vi.fn>;
+    MockClient.mockImplementationOnce(() => {
+      throw new Error('Init failed');
+    });
+
+    function RetryButton() {
+      const { reinitialize } = useHuefyContext();
+      return (
+        <button data-testid="reinitialize" onClick={reinitialize}>
+          Retry
+        </button>
+      );
+    }
+
+    render(
+      <HuefyProvider config={defaultConfig}>
+        <ContextConsumer />
+        <RetryButton />
+      </HuefyProvider>,
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId('error')).toHaveTextContent('Init failed');
+    });
+
+    act(() => {
+      screen.getByTestId('reinitialize').click();
+    });
+
+    await waitFor(() => {
+      expect(screen.getByTestId('is-ready')).toHaveTextContent('true');
+    });
+    expect(screen.getByTestId('error')).toHaveTextContent('none');
+  });
+
   it('should call client.close on unmount', async () => {
     const closeFn = vi.fn();
     const { HuefyEmailClient } = await import('@teracrafts/huefy');
@@ -130,6 +231,297 @@ describe('HuefyProvider', () => {
     expect(closeFn).toHaveBeenCalled();
   });
 
+  it('should report initialized without probing by default', async () => {
+    const healthCheck = vi.fn();
+    const { HuefyEmailClient } = await import('@teracrafts/huefy');
+    const MockClient = HuefyEmailClient as unknown as ReturnType<typeof vi.fn>;
+    MockClient.mockImplementationOnce(() => ({ close: vi.fn(), healthCheck }));
+
+    render(
+      <HuefyProvider config={defaultConfig}>
+        <ContextConsumer />
+      </HuefyProvider>,
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId('connection-status')).toHaveTextContent('initialized');
+    });
+
+    expect(healthCheck).not.toHaveBeenCalled();
+  });
+
+  it('should report reachable when the health probe succeeds', async () => {
+    const healthCheck = vi.fn().mockResolvedValue({
+      success: true,
+      correlationId: 'corr-health-1',
+      data: { status: 'healthy', timestamp: '2026-05-07T10:00:00Z', version: '1.0.0' },
+    });
+    const { HuefyEmailClient } = await import('@teracrafts/huefy');
+    const MockClient = HuefyEmailClient as unknown as ReturnType<typeof vi.fn>;
+    MockClient.mockImplementationOnce(() => ({ close: vi.fn(), healthCheck }));
+
+    render(
+      <HuefyProvider config={defaultConfig} healthCheck>
+        <ContextConsumer />
+      </HuefyProvider>,
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId('connection-status')).toHaveTextContent('reachable');
+    });
+
+    expect(healthCheck).toHaveBeenCalledTimes(1);
+    expect(screen.getByTestId('is-ready')).toHaveTextContent('true');
+    expect(screen.getByTestId('health-version')).toHaveTextContent('1.0.0');
+  });
+
+  it('should stay ready but report unreachable when the health probe fails', async () => {
+    const { HuefyEmailClient } = await import('@teracrafts/huefy');
+    const MockClient = HuefyEmailClient as unknown as ReturnType<typeof vi.fn>;
+    MockClient.mockImplementationOnce(() => ({
+      close: vi.fn(),
+      healthCheck: vi.fn().mockRejectedValue(new Error('Network failure')),
+    }));
+
+    render(
+      <HuefyProvider config={defaultConfig} healthCheck>
+        <ContextConsumer />
+      </HuefyProvider>,
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId('connection-status')).toHaveTextContent('unreachable');
+    });
+
+    expect(screen.getByTestId('is-ready')).toHaveTextContent('true');
+    expect(screen.getByTestId('error')).toHaveTextContent('none');
+  });
+
+  it('should replay stored outbox items through the client once ready', async () => {
+    const sendEmail = vi.fn().mockResolvedValue({ success: true });
+    const { HuefyEmailClient } = await import('@teracrafts/huefy');
+    const MockClient = HuefyEmailClient as unknown as ReturnType<typeof vi.fn>;
+    MockClient.mockImplementationOnce(() => ({ close: vi.fn(), sendEmail }));
+
+    const request = { templateKey: 'welcome', data: {}, recipient: 'ada@example.com' };
+    const storage = createMemoryOutboxStorage([
+      {
+        id: 'item-1',
+        request,
+        idempotencyKey: 'key-1',
+        status: 'pending',
+        attempts: 1,
+        createdAt: 0,
+        nextAttemptAt: 0,
+      },
+    ]);
+
+    render(
+      <HuefyProvider config={defaultConfig} outbox={{ storage, isRetryable: () => true }}>
+        <ContextConsumer />
+      </HuefyProvider>,
+    );
+
+    await waitFor(() => {
+      expect(sendEmail).toHaveBeenCalledWith(request, { idempotencyKey: 'key-1' });
+    });
+    expect(await storage.load()).toEqual([]);
+  });
+
+  it('should capture rate-limit updates and forward them to the config callback', async () => {
+    const { HuefyEmailClient } = await import('@teracrafts/huefy');
+    const MockClient = HuefyEmailClient as unknown as ReturnType<typeof vi.fn>;
+    const onRateLimitUpdate = vi.fn();
+
+    render(
+      <HuefyProvider config={{ ...defaultConfig, onRateLimitUpdate }}>
+        <ContextConsumer />
+      </HuefyProvider>,
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId('is-ready')).toHaveTextContent('true');
+    });
+
+    const update = { limit: 100, remaining: 42, reset: 30 };
+    const clientConfig = MockClient.mock.calls[MockClient.mock.calls.length - 1][0];
+    act(() => {
+      clientConfig.onRateLimitUpdate(update);
+    });
+
+    expect(screen.getByTestId('rate-limit-remaining')).toHaveTextContent('42');
+    expect(onRateLimitUpdate).toHaveBeenCalledWith(update);
+  });
+
+  it('should suspend hooks until the client is ready in suspense mode', async () => {
+    function SendButton() {
+      const { status } = useSendEmail();
+      return <span data-testid="send-status">{status}</span>;
+    }
+
+    render(
+      <HuefyProvider config={defaultConfig} suspense>
+        <Suspense fallback={<span data-testid="fallback">Loading</span>}>
+          <SendButton />
+        </Suspense>
+      </HuefyProvider>,
+    );
+
+    expect(screen.getByTestId('fallback')).toBeInTheDocument();
+
+    await waitFor(() => {
+      expect(screen.getByTestId('send-status')).toHaveTextContent('idle');
+    });
+  });
+
+  it('should resolve the ready promise with the initialized client', async () => {
+    let ready: Promise<unknown> | undefined;
+    let client: unknown;
+    function ReadyCapture() {
+      ({ ready, client } = useHuefyContext());
+      return null;
+    }
+
+    render(
+      <HuefyProvider config={defaultConfig}>
+        <ReadyCapture />
+      </HuefyProvider>,
+    );
+
+    const resolved = await ready;
+    await waitFor(() => expect(client).not.toBeNull());
+    expect(resolved).toBe(client);
+  });
+
+  it('should register named providers without shadowing the unnamed one', async () => {
+    const { HuefyEmailClient } = await import('@teracrafts/huefy');
+    const MockClient = HuefyEmailClient as unknown as ReturnType<typeof vi.fn>;
+
+    function ClientStates() {
+      const fallback = useHuefyContext();
+      const marketing = useHuefyContext('marketing');
+
+      return (
+        <div>
+          <span data-testid="both-ready">{String(fallback.isReady && marketing.isReady)}</span>
+          <span data-testid="same-client">{String(fallback.client === marketing.client)}</span>
+        </div>
+      );
+    }
+
+    render(
+      <HuefyProvider config={defaultConfig}>
+        <HuefyProvider name="marketing" config={{ apiKey: 'marketing-key' }}>
+          <ClientStates />
+        </HuefyProvider>
+      </HuefyProvider>,
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId('both-ready')).toHaveTextContent('true');
+    });
+    expect(screen.getByTestId('same-client')).toHaveTextContent('false');
+    expect(MockClient).toHaveBeenCalledWith(expect.objectContaining({ apiKey: 'test-api-key' }));
+    expect(MockClient).toHaveBeenCalledWith(expect.objectContaining({ apiKey: 'marketing-key' }));
+  });
+
+  it('should use a client passed in instead of creating one', async () => {
+    const { HuefyEmailClient } = await import('@teracrafts/huefy');
+    const MockClient = HuefyEmailClient as unknown as ReturnType<typeof vi.fn>;
+    MockClient.mockClear();
+
+    const customClient = {
+      sendEmail: vi.fn().mockResolvedValue({ success: true }),
+      sendBulkEmails: vi.fn(),
+      healthCheck: vi.fn().mockResolvedValue({
+        success: true,
+        data: { status: 'healthy', timestamp: '2024-01-01T00:00:00Z', version: '1.2.3' },
+        correlationId: 'corr-1',
+      }),
+      close: vi.fn(),
+    };
+
+    function SendButton() {
+      const { client } = useHuefyContext();
+      const { send } = useSendEmail();
+      return (
+        <div>
+          <span data-testid="is-custom">{String(client === (customClient as unknown))}</span>
+          <button data-testid="send" onClick={() => send('welcome', {}, 'ada@example.com')}>
+            Send
+          </button>
+        </div>
+      );
+    }
+
+    const { unmount } = render(
+      <HuefyProvider client={customClient} healthCheck>
+        <ContextConsumer />
+        <SendButton />
+      </HuefyProvider>,
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId('connection-status')).toHaveTextContent('reachable');
+    });
+    expect(screen.getByTestId('is-custom')).toHaveTextContent('true');
+    expect(screen.getByTestId('health-version')).toHaveTextContent('1.2.3');
+    expect(MockClient).not.toHaveBeenCalled();
+
+    await act(async () => {
+      screen.getByTestId('send').click();
+    });
+    expect(customClient.sendEmail).toHaveBeenCalledWith(
+      { templateKey: 'welcome', data: {}, recipient: 'ada@example.com', provider: undefined },
+      expect.objectContaining({ idempotencyKey: expect.any(String) }),
+    );
+
+    unmount();
+    expect(customClient.close).not.toHaveBeenCalled();
+  });
+
+  it('should send through the proxy endpoint without creating a core client', async () => {
+    const { HuefyEmailClient } = await import('@teracrafts/huefy');
+    const MockClient = HuefyEmailClient as unknown as ReturnType<typeof vi.fn>;
+    MockClient.mockClear();
+
+    const proxyFetch = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ success: true, data: { emailId: 'email-1' } }), { status: 200 }),
+    );
+
+    function SendButton() {
+      const { send, data } = useSendEmail();
+      return (
+        <div>
+          <span data-testid="email-id">{data?.data.emailId ?? 'none'}</span>
+          <button data-testid="send" onClick={() => send('welcome', {}, 'ada@example.com')}>
+            Send
+          </button>
+        </div>
+      );
+    }
+
+    render(
+      <HuefyProvider proxy={{ endpoint: '/api/huefy', fetch: proxyFetch }}>
+        <ContextConsumer />
+        <SendButton />
+      </HuefyProvider>,
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId('is-ready')).toHaveTextContent('true');
+    });
+    await act(async () => {
+      screen.getByTestId('send').click();
+    });
+
+    await waitFor(() => {
+      expect(screen.getByTestId('email-id')).toHaveTextContent('email-1');
+    });
+    expect(proxyFetch).toHaveBeenCalledWith('/api/huefy', expect.objectContaining({ method: 'POST' }));
+    expect(MockClient).not.toHaveBeenCalled();
+  });
+
   it('should render multiple children', () => {
     render(
       <HuefyProvider config={defaultConfig}>
@@ -0,0 +1,313 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describeError } from '../errors';
+import { createProxyClient } from '../proxy';
+import { createHuefyProxyHandler, toNodeHandler } from '../server';
+import { createFakeClient } from '../testing';
+import type { FakeHuefyClient } from '../testing';
+import type { HuefyProxyHandlerOptions } from '../server';
+
+vi.mock('@teracrafts/huefy', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@teracrafts/huefy')>()),
+  HuefyEmailClient: vi.fn().mockImplementation(() => createFakeClient()),
+}));
+
+const ENDPOINT = 'https://app.example.com/api/huefy';
+
+function setup(options: Partial<HuefyProxyHandlerOptions> = {}) {
+  const fake = createFakeClient();
+  const handler = createHuefyProxyHandler({
+    client: fake,
+    templates: ['welcome'],
+    authorize: () => true,
+    ...options,
+  });
+  const fetchImpl = vi.fn((input: RequestInfo | URL, init?: RequestInit) =>
+    handler(new Request(input, init)),
+  );
+  const client = createProxyClient({ endpoint: ENDPOINT, fetch: fetchImpl as typeof fetch });
+  return { fake, handler, client, fetchImpl };
+}
+
+function post(handler: (request: Request) => Promise<Response>, body: unknown) {
+  return handler(
+    new Request(ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    }),
+  );
+}
+
+describe('backend proxy', () => {
+  let fake: FakeHuefyClient;
+
+  beforeEach(() => {
+    fake = createFakeClient();
+  });
+
+  it('forwards sends with their idempotency key', async () => {
+    const { fake: forwarded, client, fetchImpl } = setup();
+
+    const response = await client.sendEmail(
+      { templateKey: 'welcome', data: { firstName: 'Ada' }, recipient: 'ada@example.com' },
+      { idempotencyKey: 'key-1' },
+    );
+
+    expect(response.data.recipients[0].email).toBe('ada@example.com');
+    expect(forwarded.sentEmails[0].request).toEqual({
+      templateKey: 'welcome',
+      data: { firstName: 'Ada' },
+      recipient: 'ada@example.com',
+    });
+    expect(forwarded.sentEmails[0].options.idempotencyKey).toBe('key-1');
+
+    const init = fetchImpl.mock.calls[0][1] as RequestInit;
+    expect(new Headers(init.headers).get('Idempotency-Key')).toBe('key-1');
+    expect(JSON.parse(init.body as string)).toMatchObject({ action: 'sendEmail' });
+  });
+
+  it('forwards bulk sends and health checks', async () => {
+    const { fake: forwarded, client } = setup();
+
+    await client.sendBulkEmails({
+      templateKey: 'welcome',
+      recipients: [{ email: 'a@example.com', data: { n: 1 } }, { email: 'b@example.com' }],
+    });
+    await expect(client.healthCheck()).resolves.toMatchObject({ data: { status: 'healthy' } });
+
+    expect(forwarded.bulkSends[0].request.recipients).toEqual([
+      { email: 'a@example.com', data: { n: 1 } },
+      { email: 'b@example.com' },
+    ]);
+    expect(forwarded.healthChecks).toBe(1);
+  });
+
+  it('forwards batch status polls the request may read', async () => {
+    const authorizeBatch = vi.fn((batchId: string) => batchId !== 'batch_other');
+    const { fake: forwarded, client, handler } = setup({ authorizeBatch });
+
+    const sent = await client.sendBulkEmails({
+      templateKey: 'welcome',
+      recipients: [{ email: 'a@example.com' }],
+    });
+    const status = await client.getBatchStatus!(sent.data.batchId);
+
+    expect(status.data).toMatchObject({ batchId: sent.data.batchId, processedCount: 1 });
+    expect(forwarded.batchStatusChecks).toEqual([sent.data.batchId]);
+    expect(authorizeBatch).toHaveBeenCalledWith(sent.data.batchId, expect.any(Request));
+
+    const other = await post(handler, { action: 'getBatchStatus', request: { batchId: 'batch_other' } });
+    expect(other.status).toBe(403);
+    await expect(other.json()).resolves.toMatchObject({ error: { code: 'BATCH_NOT_ALLOWED' } });
+    expect(forwarded.batchStatusChecks).toHaveLength(1);
+
+    const missingId = await post(handler, { action: 'getBatchStatus', request: {} });
+    expect(missingId.status).toBe(400);
+    await expect(missingId.json()).resolves.toMatchObject({ error: { field: 'batchId' } });
+  });
+
+  it('answers batch status polls with 501 when the client cannot read batches', async () => {
+    const { sendEmail, sendBulkEmails, healthCheck } = createFakeClient();
+    const handler = createHuefyProxyHandler({
+      client: { sendEmail, sendBulkEmails, healthCheck },
+      templates: ['welcome'],
+      authorize: () => true,
+      authorizeBatch: () => true,
+    });
+
+    const response = await post(handler, { action: 'getBatchStatus', request: { batchId: 'batch_1' } });
+    expect(response.status).toBe(501);
+    await expect(response.json()).resolves.toMatchObject({ error: { code: 'NOT_SUPPORTED' } });
+  });
+
+  it('only forwards batch status polls with authorizeBatch', async () => {
+    const { fake: forwarded, handler } = setup();
+
+    const response = await post(handler, { action: 'getBatchStatus', request: { batchId: 'batch_1' } });
+    expect(response.status).toBe(403);
+    await expect(response.json()).resolves.toMatchObject({ error: { code: 'ACTION_NOT_ALLOWED' } });
+    expect(forwarded.batchStatusChecks).toHaveLength(0);
+
+    expect(() => setup({ actions: ['getBatchStatus'] })).toThrow(/authorizeBatch/);
+  });
+
+  it('rejects templates outside the allowlist before sending', async () => {
+    const { fake: forwarded, client } = setup();
+
+    const error = await client
+      .sendEmail({ templateKey: 'admin-invite', data: {}, recipient: 'ada@example.com' })
+      .catch((err: unknown) => err);
+
+    expect(error).toMatchObject({ code: 'TEMPLATE_NOT_ALLOWED', statusCode: 403, field: 'templateKey' });
+    expect(forwarded.sentEmails).toHaveLength(0);
+  });
+
+  it('validates the payload', async () => {
+    const { handler } = setup();
+
+    const missingTemplate = await post(handler, { action: 'sendEmail', request: { recipient: 'ada@example.com' } });
+    expect(missingTemplate.status).toBe(400);
+    await expect(missingTemplate.json()).resolves.toMatchObject({
+      error: { code: 'INVALID_REQUEST', field: 'templateKey' },
+    });
+
+    const badRecipient = await post(handler, {
+      action: 'sendEmail',
+      request: { templateKey: 'welcome', recipient: 'not-an-email' },
+    });
+    expect(badRecipient.status).toBe(400);
+    await expect(badRecipient.json()).resolves.toMatchObject({
+      error: { code: 'INVALID_RECIPIENT', message: 'recipient: Invalid email address' },
+    });
+
+    const unknownAction = await post(handler, { action: 'deleteEverything' });
+    expect(unknownAction.status).toBe(400);
+
+    const get = await handler(new Request(ENDPOINT));
+    expect(get.status).toBe(405);
+    expect(get.headers.get('Allow')).toBe('POST');
+  });
+
+  it('passes core errors through so they keep their classification', async () => {
+    const { fake: forwarded, client } = setup();
+    forwarded.failWith('sendEmail', 'rate-limited');
+
+    const error = await client
+      .sendEmail({ templateKey: 'welcome', data: {}, recipient: 'ada@example.com' })
+      .catch((err: unknown) => err);
+
+    expect(error).toMatchObject({ name: 'RateLimitError', statusCode: 429 });
+    expect(describeError(error)).toMatchObject({ kind: 'rate-limited', retryAfter: 60 });
+  });
+
+  it('checks authorization and the allowed actions', async () => {
+    const authorize = vi.fn().mockResolvedValue(false);
+    const { handler: denied } = setup({ authorize });
+    expect((await post(denied, { action: 'healthCheck' })).status).toBe(401);
+
+    const { handler: sendOnly } = setup({ actions: ['sendEmail'] });
+    expect((await post(sendOnly, { action: 'healthCheck' })).status).toBe(403);
+
+    // @ts-expect-error authorize is required
+    expect(() => createHuefyProxyHandler({ client: fake, templates: ['welcome'] })).toThrow(/authorize/);
+  });
+
+  it('forwards only the known recipient fields', async () => {
+    const { fake: forwarded, handler } = setup();
+
+    await post(handler, {
+      action: 'sendEmail',
+      request: {
+        templateKey: 'welcome',
+        recipient: { email: 'ada@example.com', type: 'cc', data: { plan: 'pro' }, bcc: ['eve@example.com'] },
+      },
+    });
+    await post(handler, {
+      action: 'sendBulkEmails',
+      request: {
+        templateKey: 'welcome',
+        recipients: [{ email: 'ada@example.com', sender: 'ceo@example.com' }],
+      },
+    });
+
+    expect(forwarded.sentEmails[0].request.recipient).toEqual({
+      email: 'ada@example.com',
+      type: 'cc',
+      data: { plan: 'pro' },
+    });
+    expect(forwarded.bulkSends[0].request.recipients).toEqual([{ email: 'ada@example.com' }]);
+  });
+
+  it('keeps error details out of the response', async () => {
+    const { fake: forwarded, handler } = setup();
+    forwarded.failWith(
+      'sendEmail',
+      Object.assign(new Error('Invalid template data'), {
+        name: 'ValidationError',
+        statusCode: 400,
+        details: { field: 'data.firstName', query: 'SELECT * FROM templates' },
+      }),
+    );
+
+    const response = await post(handler, {
+      action: 'sendEmail',
+      request: { templateKey: 'welcome', recipient: 'ada@example.com' },
+    });
+    const body = await response.json();
+
+    expect(body.error).toMatchObject({ name: 'ValidationError', field: 'data.firstName' });
+    expect(body.error).not.toHaveProperty('details');
+  });
+
+  it('creates a core client from config on first use', async () => {
+    const { HuefyEmailClient } = await import('@teracrafts/huefy');
+    const handler = createHuefyProxyHandler({
+      config: { apiKey: 'srv_test' },
+      templates: ['welcome'],
+      authorize: () => true,
+    });
+
+    expect(HuefyEmailClient).not.toHaveBeenCalled();
+    expect((await post(handler, { action: 'healthCheck' })).status).toBe(200);
+    expect(HuefyEmailClient).toHaveBeenCalledWith({ apiKey: 'srv_test' });
+  });
+
+  it('adapts the handler to Node request handlers', async () => {
+    const handler = createHuefyProxyHandler({ client: fake, templates: ['welcome'], authorize: () => true });
+    const res = { statusCode: 0, headers: {} as Record<string, string>, body: '' };
+
+    await toNodeHandler(handler)(
+      {
+        method: 'POST',
+        url: '/api/huefy',
+        headers: { host: 'app.example.com', 'content-type': 'application/json', 'content-length': '3' },
+        body: { action: 'sendEmail', request: { templateKey: 'welcome', recipient: 'ada@example.com' } },
+        async *[Symbol.asyncIterator]() {},
+      },
+      {
+        get statusCode() {
+          return res.statusCode;
+        },
+        set statusCode(value: number) {
+          res.statusCode = value;
+        },
+        setHeader: (name: string, value: string) => {
+          res.headers[name] = value;
+        },
+        end: (body?: string) => {
+          res.body = body ?? '';
+        },
+      },
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers['content-type']).toBe('application/json');
+    expect(JSON.parse(res.body).success).toBe(true);
+    expect(fake.sentEmails).toHaveLength(1);
+  });
+
+  it('answers Node requests whose body cannot be read', async () => {
+    const handler = vi.fn(createHuefyProxyHandler({ client: fake, templates: ['welcome'], authorize: () => true }));
+    const nodeHandler = toNodeHandler(handler, { maxBodySize: 8 });
+    const respond = async (chunks: () => AsyncGenerator<string>) => {
+      const res = { statusCode: 0, setHeader: vi.fn(), end: vi.fn() };
+      await nodeHandler(
+        { method: 'POST', url: '/api/huefy', headers: {}, [Symbol.asyncIterator]: chunks },
+        res,
+      );
+      return { status: res.statusCode, body: JSON.parse(res.end.mock.calls[0][0] as string) };
+    };
+
+    const oversized = await respond(async function* () {
+      yield '{"action":';
+    });
+    expect(oversized).toMatchObject({ status: 413, body: { error: { code: 'PAYLOAD_TOO_LARGE' } } });
+
+    const aborted = await respond(async function* () {
+      yield '{';
+      throw Object.assign(new Error('aborted'), { code: 'ECONNRESET' });
+    });
+    expect(aborted).toMatchObject({ status: 400, body: { error: { code: 'INVALID_REQUEST' } } });
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
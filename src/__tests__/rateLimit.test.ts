@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { isRateLimited, toRateLimitState } from '../utils/rateLimit';
+import type { RateLimitInfo } from '@teracrafts/huefy';
+
+const NOW = Date.parse('2026-05-07T10:00:00Z');
+
+function info(reset: unknown, remaining = 0): RateLimitInfo {
+  return { limit: 100, remaining, reset } as unknown as RateLimitInfo;
+}
+
+describe('toRateLimitState', () => {
+  it('accepts an epoch timestamp in seconds', () => {
+    expect(toRateLimitState(info(NOW / 1000 + 30), NOW).resetAt).toBe(NOW + 30_000);
+  });
+
+  it('accepts an epoch timestamp in milliseconds', () => {
+    expect(toRateLimitState(info(NOW + 30_000), NOW).resetAt).toBe(NOW + 30_000);
+  });
+
+  it('treats small numbers as seconds until the reset', () => {
+    expect(toRateLimitState(info(30), NOW).resetAt).toBe(NOW + 30_000);
+  });
+
+  it('accepts dates and date strings', () => {
+    expect(toRateLimitState(info(new Date(NOW + 5000)), NOW).resetAt).toBe(NOW + 5000);
+    expect(toRateLimitState(info('2026-05-07T10:01:00Z'), NOW).resetAt).toBe(NOW + 60_000);
+  });
+
+  it('keeps the limit, remaining count and raw info', () => {
+    const raw = info(30, 7);
+    expect(toRateLimitState(raw, NOW)).toEqual({
+      limit: 100,
+      remaining: 7,
+      resetAt: NOW + 30_000,
+      updatedAt: NOW,
+      info: raw,
+    });
+  });
+
+  it('reports an unknown reset as null', () => {
+    expect(toRateLimitState(info(undefined), NOW).resetAt).toBeNull();
+    expect(toRateLimitState(info('soon'), NOW).resetAt).toBeNull();
+  });
+});
+
+describe('isRateLimited', () => {
+  it('is limited only with no remaining requests before the reset', () => {
+    expect(isRateLimited(toRateLimitState(info(30, 0), NOW), NOW)).toBe(true);
+    expect(isRateLimited(toRateLimitState(info(30, 1), NOW), NOW)).toBe(false);
+    expect(isRateLimited(toRateLimitState(info(30, 0), NOW), NOW + 30_000)).toBe(false);
+  });
+
+  it('is never limited without a known reset time', () => {
+    expect(isRateLimited(toRateLimitState(info(undefined, 0), NOW), NOW)).toBe(false);
+    expect(isRateLimited(null, NOW)).toBe(false);
+  });
+});
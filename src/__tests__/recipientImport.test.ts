@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { parseRecipients } from '../import/parseRecipients';
+import { parseCsv, detectDelimiter } from '../import/csv';
+
+describe('parseCsv', () => {
+  it('handles quoted fields, doubled quotes and CRLF line endings', () => {
+    const rows = parseCsv('email,note\r\nann@example.com,"Hello, ""Ann""\nsecond line"\r\n\r\nbob@example.com,', ',');
+
+    expect(rows).toEqual([
+      { line: 1, cells: ['email', 'note'], raw: 'email,note' },
+      {
+        line: 2,
+        cells: ['ann@example.com', 'Hello, "Ann"\nsecond line'],
+        raw: 'ann@example.com,"Hello, ""Ann""\nsecond line"',
+      },
+      { line: 5, cells: ['bob@example.com', ''], raw: 'bob@example.com,' },
+    ]);
+  });
+
+  it('detects the delimiter of the first line', () => {
+    expect(detectDelimiter('email;type;name')).toBe(';');
+    expect(detectDelimiter('email\ttype')).toBe('\t');
+    expect(detectDelimiter('email')).toBe(',');
+  });
+});
+
+describe('parseRecipients', () => {
+  it('maps header columns to email, type and data', () => {
+    const result = parseRecipients(
+      'Email;Type;First Name;Plan\nann@example.com;CC;Ann;pro\nbob@example.com;;Bob;',
+      { defaultType: 'to' },
+    );
+
+    expect(result.format).toBe('csv');
+    expect(result.recipients).toEqual([
+      { email: 'ann@example.com', type: 'cc', data: { 'First Name': 'Ann', Plan: 'pro' } },
+      { email: 'bob@example.com', type: 'to', data: { 'First Name': 'Bob' } },
+    ]);
+    expect(result.totalRows).toBe(2);
+  });
+
+  it('uses explicit column mappings and reads headerless CSV', () => {
+    const result = parseRecipients('Ann,ann@example.com,bcc\nBob,bob@example.com,to', {
+      format: 'csv',
+      columns: { email: 1, type: 2, data: { firstName: 0 } },
+    });
+
+    expect(result.recipients).toEqual([
+      { email: 'ann@example.com', type: 'bcc', data: { firstName: 'Ann' } },
+      { email: 'bob@example.com', type: 'to', data: { firstName: 'Bob' } },
+    ]);
+  });
+
+  it('reads headerless spreadsheet rows that start with an address as CSV', () => {
+    const result = parseRecipients('alice@example.com\tAlice\nbob@example.com\tBob', {
+      columns: { data: { name: 1 } },
+    });
+
+    expect(result.format).toBe('csv');
+    expect(result.errors).toEqual([]);
+    expect(result.recipients).toEqual([
+      { email: 'alice@example.com', data: { name: 'Alice' } },
+      { email: 'bob@example.com', data: { name: 'Bob' } },
+    ]);
+    expect(parseRecipients('alice@example.com\tAlice').recipients).toEqual([{ email: 'alice@example.com' }]);
+  });
+
+  it('throws when a mapped column is missing', () => {
+    expect(() =>
+      parseRecipients('email\nann@example.com', { columns: { type: 'kind' } }),
+    ).toThrow(RangeError);
+  });
+
+  it('throws when a header row has no email column', () => {
+    expect(() => parseRecipients('name,address\nAnn,ann@example.com', { format: 'csv' })).toThrow(
+      /no email column/,
+    );
+    expect(
+      parseRecipients('name,address\nAnn,ann@example.com', { format: 'csv', columns: { email: 'address' } })
+        .recipients,
+    ).toEqual([{ email: 'ann@example.com', data: { name: 'Ann' } }]);
+  });
+
+  it('reads free-form pasted text with named addresses', () => {
+    const result = parseRecipients(
+      'ann@example.com, "Bob Smith" <bob@example.com>\ncarol@example.com;\tdave@example.com',
+    );
+
+    expect(result.format).toBe('text');
+    expect(result.recipients).toEqual([
+      { email: 'ann@example.com' },
+      { email: 'bob@example.com', data: { name: 'Bob Smith' } },
+      { email: 'carol@example.com' },
+      { email: 'dave@example.com' },
+    ]);
+  });
+
+  it('keeps separators inside quotes and angle brackets in pasted text', () => {
+    const result = parseRecipients('"Doe, Jane" <jane@example.com>; "Roe; Rich" <rich@example.com>');
+
+    expect(result.format).toBe('text');
+    expect(result.errors).toEqual([]);
+    expect(result.recipients).toEqual([
+      { email: 'jane@example.com', data: { name: 'Doe, Jane' } },
+      { email: 'rich@example.com', data: { name: 'Roe; Rich' } },
+    ]);
+  });
+
+  it('reports invalid rows with their line', () => {
+    const result = parseRecipients('email,type\nann@example.com,to\nnot-an-email,to\nbob@example.com,fax');
+
+    expect(result.recipients).toEqual([{ email: 'ann@example.com', type: 'to' }]);
+    expect(result.errors).toEqual([
+      { line: 3, value: 'not-an-email,to', message: 'Invalid email address' },
+      { line: 4, value: 'bob@example.com,fax', message: 'Recipient type must be one of: to, cc, bcc' },
+    ]);
+  });
+
+  it('drops repeated addresses, ignoring case, and reports them', () => {
+    const input = 'ann@example.com\nbob@example.com\nANN@example.com';
+
+    const result = parseRecipients(input);
+    expect(result.recipients.map((recipient) => recipient.email)).toEqual([
+      'ann@example.com',
+      'bob@example.com',
+    ]);
+    expect(result.duplicates).toEqual([{ line: 3, email: 'ANN@example.com', firstLine: 1 }]);
+
+    expect(parseRecipients(input, { dedupe: false }).recipients).toHaveLength(3);
+  });
+
+  it('reports rows past maxRecipients as errors', () => {
+    const result = parseRecipients('a@example.com\nb@example.com\nc@example.com', { maxRecipients: 2 });
+
+    expect(result.recipients).toHaveLength(2);
+    expect(result.errors).toEqual([{ line: 3, value: 'c@example.com', message: 'More than 2 recipients' }]);
+  });
+});
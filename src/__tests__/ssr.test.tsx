@@ -0,0 +1,124 @@
+// @vitest-environment node
+import React, { Suspense } from 'react';
+import { renderToString } from 'react-dom/server';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { HuefyProvider } from '../components/HuefyProvider';
+import { useHuefyContext } from '../context';
+import { useEmailForm } from '../hooks/useEmailForm';
+import { useHealthCheck } from '../hooks/useHealthCheck';
+import { useOutbox } from '../hooks/useOutbox';
+import { useRateLimit } from '../hooks/useRateLimit';
+import { useSendEmail } from '../hooks/useSendEmail';
+import { createLocalStorageOutboxStorage } from '../outbox';
+import { createHuefyServer } from '../server';
+import { createFakeClient } from '../testing';
+
+vi.mock('@teracrafts/huefy', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@teracrafts/huefy')>()),
+  HuefyEmailClient: vi.fn().mockImplementation(() => createFakeClient()),
+}));
+
+const CONTEXT_KEY = '__HUEFY_REACT_CONTEXT__';
+
+function SendUi() {
+  const { isReady, isLoading } = useHuefyContext();
+  const { status } = useSendEmail();
+  const { formData } = useEmailForm({ defaultTemplate: 'welcome' });
+  const { healthy } = useHealthCheck({ interval: 1000 });
+  const { pending } = useOutbox();
+  const { remaining } = useRateLimit();
+
+  return (
+    <p>
+      {[
+        `ready=${isReady}`,
+        `loading=${isLoading}`,
+        `status=${status}`,
+        `template=${formData.templateKey}`,
+        `healthy=${healthy}`,
+        `pending=${pending.length}`,
+        `remaining=${remaining}`,
+      ].join(' ')}
+    </p>
+  );
+}
+
+describe('server-side rendering', () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+    const globalRegistry = globalThis as unknown as Record<string, unknown>;
+    delete globalRegistry[CONTEXT_KEY];
+  });
+
+  it('runs without browser globals', () => {
+    expect(typeof window).toBe('undefined');
+    expect(typeof document).toBe('undefined');
+  });
+
+  it('renders the provider and hooks to a string without creating a client', async () => {
+    const { HuefyEmailClient } = await import('@teracrafts/huefy');
+
+    const html = renderToString(
+      <HuefyProvider
+        config={{ apiKey: 'sdk_test' }}
+        healthCheck
+        outbox={{ storage: createLocalStorageOutboxStorage() }}
+      >
+        <SendUi />
+      </HuefyProvider>,
+    );
+
+    expect(html).toContain('ready=false');
+    expect(html).toContain('loading=true');
+    expect(html).toContain('status=idle');
+    expect(html).toContain('welcome');
+    expect(HuefyEmailClient).not.toHaveBeenCalled();
+  });
+
+  it('renders the Suspense fallback in suspense mode', () => {
+    const html = renderToString(
+      <HuefyProvider config={{ apiKey: 'sdk_test' }} suspense>
+        <Suspense fallback={<span>Connecting</span>}>
+          <SendUi />
+        </Suspense>
+      </HuefyProvider>,
+    );
+
+    expect(html).toContain('Connecting');
+    expect(html).not.toContain('ready=');
+  });
+
+  it('sends from server code without a React tree', async () => {
+    const client = createFakeClient();
+    const huefy = createHuefyServer({ client });
+
+    await huefy.sendEmail('welcome', { firstName: 'Ada' }, 'ada@example.com', {
+      idempotencyKey: 'key-1',
+    });
+    const bulk = await huefy.sendBulkEmails(
+      'digest',
+      [{ email: 'a@example.com' }, { email: 'b@example.com' }, { email: 'c@example.com' }],
+      { chunkSize: 2, idempotencyKey: 'batch' },
+    );
+
+    expect(client.sentEmails[0]).toEqual({
+      request: { templateKey: 'welcome', data: { firstName: 'Ada' }, recipient: 'ada@example.com' },
+      options: { idempotencyKey: 'key-1' },
+    });
+    expect(client.bulkSends.map(({ options }) => options.idempotencyKey)).toEqual([
+      'batch:0',
+      'batch:1',
+    ]);
+    expect(bulk.data.totalRecipients).toBe(3);
+  });
+
+  it('creates the core client from config on first use only', async () => {
+    const { HuefyEmailClient } = await import('@teracrafts/huefy');
+    const huefy = createHuefyServer({ config: { apiKey: 'srv_test' } });
+
+    expect(HuefyEmailClient).not.toHaveBeenCalled();
+    await huefy.healthCheck();
+    await huefy.healthCheck();
+    expect(HuefyEmailClient).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,116 @@
+import React, { Suspense } from 'react';
+import { render, screen, act } from '@testing-library/react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { getOrCreateContext } from '../context';
+import { useSendEmail } from '../hooks/useSendEmail';
+import { createDeferred } from '../utils/deferred';
+import type { HuefyContextValue } from '../types';
+
+const CONTEXT_KEY = '__HUEFY_REACT_CONTEXT__';
+
+type Client = NonNullable<HuefyContextValue['client']>;
+
+function SendButton() {
+  const { send } = useSendEmail();
+  return (
+    <button data-testid="send" onClick={() => send('welcome', {}, 'a@b.com')}>
+      Send
+    </button>
+  );
+}
+
+class Boundary extends React.Component<
+  { children: React.ReactNode },
+  { error: Error | null }
+> {
+  state = { error: null as Error | null };
+
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  render() {
+    if (this.state.error) {
+      return <span data-testid="boundary">{this.state.error.message}</span>;
+    }
+    return this.props.children;
+  }
+}
+
+function renderWithContext(value: HuefyContextValue) {
+  const Context = getOrCreateContext();
+  const tree = (contextValue: HuefyContextValue) => (
+    <Context.Provider value={contextValue}>
+      <Boundary>
+        <Suspense fallback={<span data-testid="fallback">Loading</span>}>
+          <SendButton />
+        </Suspense>
+      </Boundary>
+    </Context.Provider>
+  );
+
+  const view = render(tree(value));
+  return { rerender: (next: HuefyContextValue) => view.rerender(tree(next)) };
+}
+
+describe('suspense mode', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    const globalRegistry = globalThis as unknown as Record<string, unknown>;
+    delete globalRegistry[CONTEXT_KEY];
+  });
+
+  it('renders the fallback until the client is ready', async () => {
+    const ready = createDeferred<Client>();
+    const client = { sendEmail: vi.fn().mockResolvedValue({}) } as unknown as Client;
+    const loading: HuefyContextValue = {
+      client: null,
+      isReady: false,
+      isLoading: true,
+      error: null,
+      suspense: true,
+      ready: ready.promise,
+    };
+
+    const { rerender } = renderWithContext(loading);
+    expect(screen.getByTestId('fallback')).toBeInTheDocument();
+    expect(screen.queryByTestId('send')).not.toBeInTheDocument();
+
+    await act(async () => {
+      ready.resolve(client);
+      rerender({ ...loading, client, isReady: true, isLoading: false });
+    });
+
+    expect(screen.getByTestId('send')).toBeInTheDocument();
+    expect(screen.queryByTestId('fallback')).not.toBeInTheDocument();
+  });
+
+  it('throws initialization errors to the nearest error boundary', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const ready = createDeferred<Client>();
+    ready.reject(new Error('Invalid API key'));
+
+    renderWithContext({
+      client: null,
+      isReady: false,
+      isLoading: false,
+      error: new Error('Invalid API key'),
+      suspense: true,
+      ready: ready.promise,
+    });
+
+    expect(screen.getByTestId('boundary')).toHaveTextContent('Invalid API key');
+  });
+
+  it('reports loading state as usual when suspense is off', () => {
+    renderWithContext({
+      client: null,
+      isReady: false,
+      isLoading: true,
+      error: null,
+      ready: createDeferred<Client>().promise,
+    });
+
+    expect(screen.getByTestId('send')).toBeInTheDocument();
+  });
+});
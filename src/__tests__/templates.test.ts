@@ -0,0 +1,45 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import type {
+  EmailData,
+  TemplateData,
+  TemplateDataOf,
+  TemplateKey,
+  TemplateKeyOf,
+} from '../types/email';
+
+interface ExampleTemplates {
+  'welcome-email': { firstName: string };
+  'password-reset': { resetUrl: string; expiresInMinutes: number };
+}
+
+interface EmptyTemplates {}
+
+describe('template registry types', () => {
+  it('falls back to loose types without a registry', () => {
+    expectTypeOf<TemplateKey>().toEqualTypeOf<string>();
+    expectTypeOf<TemplateData<'anything'>>().toEqualTypeOf<EmailData>();
+    expectTypeOf<TemplateKeyOf<EmptyTemplates>>().toEqualTypeOf<string>();
+    expectTypeOf<TemplateDataOf<EmptyTemplates, 'anything'>>().toEqualTypeOf<EmailData>();
+  });
+
+  it('restricts keys to the registry', () => {
+    expectTypeOf<TemplateKeyOf<ExampleTemplates>>().toEqualTypeOf<
+      'welcome-email' | 'password-reset'
+    >();
+  });
+
+  it('resolves the data shape for a key', () => {
+    expectTypeOf<TemplateDataOf<ExampleTemplates, 'welcome-email'>>().toEqualTypeOf<{
+      firstName: string;
+    }>();
+    expectTypeOf<TemplateDataOf<ExampleTemplates, 'unknown-template'>>().toBeNever();
+  });
+
+  it('resolves a union of data shapes for a union of keys', () => {
+    expectTypeOf<
+      TemplateDataOf<ExampleTemplates, TemplateKeyOf<ExampleTemplates>>
+    >().toEqualTypeOf<
+      { firstName: string } | { resetUrl: string; expiresInMinutes: number }
+    >();
+  });
+});
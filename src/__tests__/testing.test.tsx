@@ -0,0 +1,142 @@
+import React from 'react';
+import { act, renderHook } from '@testing-library/react';
+import { describe, it, expect, afterEach } from 'vitest';
+import { InsufficientQuotaError, RateLimitError } from '@teracrafts/huefy';
+import { useHuefyContext } from '../context';
+import { useSendBulkEmails } from '../hooks/useSendBulkEmails';
+import { useSendEmail } from '../hooks/useSendEmail';
+import {
+  MockHuefyProvider,
+  createFakeClient,
+  createHuefyTestError,
+  expectEmailSent,
+  expectNoEmailSent,
+  findSentEmails,
+} from '../testing';
+import type { FakeHuefyClient, MockHuefyProviderProps } from '../testing';
+
+const CONTEXT_KEY = '__HUEFY_REACT_CONTEXT__';
+
+function createWrapper(props: Omit<MockHuefyProviderProps, 'children'> = {}) {
+  return function Wrapper({ children }: { children: React.ReactNode }) {
+    return <MockHuefyProvider {...props}>{children}</MockHuefyProvider>;
+  };
+}
+
+describe('testing entry', () => {
+  afterEach(() => {
+    const globalRegistry = globalThis as unknown as Record<string, unknown>;
+    delete globalRegistry[CONTEXT_KEY];
+  });
+
+  it('is ready on the first render and records sends on its own fake client', async () => {
+    const { result } = renderHook(() => useSendEmail(), { wrapper: createWrapper() });
+
+    expect(result.current.status).toBe('idle');
+
+    await act(async () => {
+      await result.current.send('welcome', { firstName: 'Ada' }, 'ada@example.com');
+    });
+
+    expect(result.current.data?.data.recipients[0].email).toBe('ada@example.com');
+    expectEmailSent({ templateKey: 'welcome', recipient: 'ada@example.com' });
+    expectEmailSent({ data: { firstName: 'Ada' } });
+    expect(() => expectEmailSent({ templateKey: 'password-reset' })).toThrow(
+      /Expected an email matching {"templateKey":"password-reset"} to have been sent.\nSent emails:\n {2}- welcome to "ada@example.com"/,
+    );
+    expect(() => expectNoEmailSent()).toThrow('Expected no email matching {}');
+  });
+
+  it('fails scripted calls with errors classified like the core ones', async () => {
+    const client = createFakeClient();
+    client.failWith('sendEmail', 'rate-limited');
+    client.failWith('sendEmail', createHuefyTestError('quota-exceeded', { message: 'Out of quota' }));
+
+    const { result } = renderHook(() => useSendEmail(), { wrapper: createWrapper({ client }) });
+
+    await act(async () => {
+      await result.current.send('welcome', {}, 'ada@example.com');
+    });
+    expect(result.current.error).toBeInstanceOf(RateLimitError);
+    expect(result.current.errorInfo).toMatchObject({
+      kind: 'rate-limited',
+      retryable: true,
+      retryAfter: 60,
+    });
+
+    await act(async () => {
+      await result.current.send('welcome', {}, 'ada@example.com');
+    });
+    expect(result.current.error).toBeInstanceOf(InsufficientQuotaError);
+    expect(result.current.errorInfo).toMatchObject({ kind: 'quota-exceeded', message: 'Out of quota' });
+
+    await act(async () => {
+      await result.current.send('welcome', {}, 'ada@example.com');
+    });
+    expect(result.current.success).toBe(true);
+    expect(client.sentEmails).toHaveLength(1);
+  });
+
+  it('keeps failing for the scripted number of calls and answers with scripted responses', async () => {
+    const client = createFakeClient();
+    client.failWith('sendBulkEmails', 'provider', { times: 2 });
+
+    await expect(
+      client.sendBulkEmails({ templateKey: 'digest', recipients: [{ email: 'a@example.com' }] }),
+    ).rejects.toMatchObject({ name: 'ProviderError' });
+    await expect(
+      client.sendBulkEmails({ templateKey: 'digest', recipients: [{ email: 'a@example.com' }] }),
+    ).rejects.toMatchObject({ name: 'ProviderError' });
+
+    const { result } = renderHook(() => useSendBulkEmails(), { wrapper: createWrapper({ client }) });
+    await act(async () => {
+      await result.current.send('digest', [{ email: 'a@example.com' }, { email: 'b@example.com' }]);
+    });
+    expect(result.current.data?.data.successCount).toBe(2);
+    expect(client.bulkSends).toHaveLength(1);
+
+    client.respondWith('healthCheck', {
+      success: true,
+      correlationId: 'corr-1',
+      data: { status: 'degraded', timestamp: '2024-01-01T00:00:00Z', version: '2.0.0' },
+    });
+    await expect(client.healthCheck()).resolves.toMatchObject({ data: { status: 'degraded' } });
+    await expect(client.healthCheck()).resolves.toMatchObject({ data: { status: 'healthy' } });
+    expect(client.healthChecks).toBe(2);
+  });
+
+  it('rejects aborted calls without recording them', async () => {
+    const client = createFakeClient({ latencyMs: 50 });
+    const controller = new AbortController();
+
+    const pending = client.sendEmail(
+      { templateKey: 'welcome', data: {}, recipient: 'ada@example.com' },
+      { signal: controller.signal },
+    );
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    expect(findSentEmails({}, client)).toEqual([]);
+  });
+
+  it('registers under a name and applies context overrides', () => {
+    const marketing: FakeHuefyClient = createFakeClient();
+
+    const { result } = renderHook(
+      () => ({ fallback: useHuefyContext(), named: useHuefyContext('marketing') }),
+      {
+        wrapper: ({ children }) => (
+          <MockHuefyProvider value={{ isReady: false, isLoading: true }}>
+            <MockHuefyProvider name="marketing" client={marketing}>
+              {children}
+            </MockHuefyProvider>
+          </MockHuefyProvider>
+        ),
+      },
+    );
+
+    expect(result.current.fallback).toMatchObject({ isReady: false, isLoading: true });
+    expect(result.current.named.client).toBe(marketing);
+    expect(result.current.named.isReady).toBe(true);
+  });
+});
@@ -0,0 +1,237 @@
+import React from 'react';
+import { act, cleanup, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getOrCreateContext } from '../context';
+import { isBatchComplete, useBatchStatus } from '../hooks/useBatchStatus';
+import { createHuefyTestError } from '../testing';
+import type { HuefyContextValue } from '../types';
+import type { SendBulkEmailsResponse } from '../types/email';
+
+const CONTEXT_KEY = '__HUEFY_REACT_CONTEXT__';
+
+function batch(
+  processedCount: number,
+  overrides: Partial<SendBulkEmailsResponse['data']> = {},
+): SendBulkEmailsResponse {
+  return {
+    success: true,
+    correlationId: 'corr-batch-1',
+    data: {
+      batchId: 'batch_123',
+      status: 'processing',
+      templateKey: 'newsletter',
+      totalRecipients: 4,
+      processedCount,
+      successCount: processedCount,
+      failureCount: 0,
+      suppressedCount: 0,
+      startedAt: '2026-05-07T10:00:00Z',
+      recipients: [
+        { email: 'a@example.com', status: 'sent', messageId: 'msg-a', sentAt: '2026-05-07T10:00:01Z' },
+      ],
+      ...overrides,
+    },
+  };
+}
+
+const completed = batch(4, { status: 'completed', completedAt: '2026-05-07T10:00:09Z' });
+
+function createWrapper(client: Record<string, unknown> | null, isReady = true) {
+  const Context = getOrCreateContext();
+
+  const value: HuefyContextValue = {
+    client: client as unknown as HuefyContextValue['client'],
+    isReady,
+    isLoading: false,
+    error: null,
+  };
+
+  return function Wrapper({ children }: { children: React.ReactNode }) {
+    return <Context.Provider value={value}>{children}</Context.Provider>;
+  };
+}
+
+function setVisibility(state: DocumentVisibilityState) {
+  Object.defineProperty(document, 'visibilityState', { configurable: true, get: () => state });
+  document.dispatchEvent(new Event('visibilitychange'));
+}
+
+async function advance(ms: number) {
+  await act(async () => {
+    await vi.advanceTimersByTimeAsync(ms);
+  });
+}
+
+describe('isBatchComplete', () => {
+  it('treats completedAt and final statuses as complete', () => {
+    expect(isBatchComplete(batch(2))).toBe(false);
+    expect(isBatchComplete(batch(2, { status: 'Failed' }))).toBe(true);
+    expect(isBatchComplete(batch(2, { completedAt: '2026-05-07T10:00:09Z' }))).toBe(true);
+  });
+});
+
+describe('useBatchStatus', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    // Unmount first, so restoring the visibility does not trigger a poll
+    cleanup();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    setVisibility('visible');
+    const globalRegistry = globalThis as unknown as Record<string, unknown>;
+    delete globalRegistry[CONTEXT_KEY];
+  });
+
+  it('polls until the batch completes and reports progress', async () => {
+    const getBatchStatus = vi
+      .fn()
+      .mockResolvedValueOnce(batch(1))
+      .mockResolvedValueOnce(batch(3))
+      .mockResolvedValueOnce(completed);
+    const onComplete = vi.fn();
+
+    const { result } = renderHook(() => useBatchStatus('batch_123', { interval: 1000, onComplete }), {
+      wrapper: createWrapper({ getBatchStatus }),
+    });
+
+    await advance(0);
+    expect(getBatchStatus).toHaveBeenCalledWith('batch_123', expect.objectContaining({ signal: expect.anything() }));
+    expect(result.current.progress).toBe(25);
+    expect(result.current.status).toBe('processing');
+    expect(result.current.isPolling).toBe(true);
+    expect(result.current.getRecipientState('A@example.com')).toMatchObject({ status: 'sent' });
+
+    await advance(1000);
+    expect(result.current.progress).toBe(75);
+
+    await advance(1000);
+    expect(result.current.progress).toBe(100);
+    expect(result.current.isComplete).toBe(true);
+    expect(result.current.isPolling).toBe(false);
+    expect(onComplete).toHaveBeenCalledWith(completed);
+
+    await advance(10_000);
+    expect(getBatchStatus).toHaveBeenCalledTimes(3);
+  });
+
+  it('backs off while the batch makes no progress', async () => {
+    const getBatchStatus = vi.fn().mockResolvedValue(batch(1));
+
+    renderHook(() => useBatchStatus('batch_123', { interval: 1000, maxInterval: 4000 }), {
+      wrapper: createWrapper({ getBatchStatus }),
+    });
+
+    await advance(0);
+    // Progress was seen on the first poll, so the next one follows after `interval`
+    await advance(1000);
+    expect(getBatchStatus).toHaveBeenCalledTimes(2);
+
+    await advance(1999);
+    expect(getBatchStatus).toHaveBeenCalledTimes(2);
+    await advance(1);
+    expect(getBatchStatus).toHaveBeenCalledTimes(3);
+
+    await advance(4000);
+    expect(getBatchStatus).toHaveBeenCalledTimes(4);
+    await advance(4000);
+    expect(getBatchStatus).toHaveBeenCalledTimes(5);
+  });
+
+  it('pauses while hidden and polls again when visible', async () => {
+    const getBatchStatus = vi.fn().mockResolvedValue(batch(1));
+
+    renderHook(() => useBatchStatus('batch_123', { interval: 1000 }), {
+      wrapper: createWrapper({ getBatchStatus }),
+    });
+    await advance(0);
+
+    act(() => {
+      setVisibility('hidden');
+    });
+    await advance(10_000);
+    expect(getBatchStatus).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      setVisibility('visible');
+    });
+    await advance(0);
+    expect(getBatchStatus).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops on errors that are not retryable and resumes on refresh', async () => {
+    const getBatchStatus = vi
+      .fn()
+      .mockRejectedValueOnce(createHuefyTestError('authentication'))
+      .mockResolvedValueOnce(completed);
+    const onError = vi.fn();
+
+    const { result } = renderHook(() => useBatchStatus('batch_123', { interval: 1000, onError }), {
+      wrapper: createWrapper({ getBatchStatus }),
+    });
+
+    await advance(5000);
+    expect(getBatchStatus).toHaveBeenCalledTimes(1);
+    expect(result.current.isPolling).toBe(false);
+    expect(result.current.errorInfo?.retryable).toBe(false);
+    expect(onError).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      result.current.refresh();
+    });
+    await advance(0);
+    expect(result.current.isComplete).toBe(true);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('keeps polling through retryable errors', async () => {
+    const getBatchStatus = vi
+      .fn()
+      .mockRejectedValueOnce(createHuefyTestError('network'))
+      .mockResolvedValueOnce(completed);
+
+    const { result } = renderHook(() => useBatchStatus('batch_123', { interval: 1000 }), {
+      wrapper: createWrapper({ getBatchStatus }),
+    });
+
+    await advance(2000);
+    expect(getBatchStatus).toHaveBeenCalledTimes(2);
+    expect(result.current.isComplete).toBe(true);
+  });
+
+  it('does not guess an endpoint for core clients', async () => {
+    // Shaped like `HuefyEmailClient`: no `getBatchStatus`, calls go through `http.request`
+    const request = vi.fn();
+
+    const { result } = renderHook(() => useBatchStatus('batch_123'), {
+      wrapper: createWrapper({ sendEmail: vi.fn(), sendBulkEmails: vi.fn(), http: { request } }),
+    });
+
+    await advance(0);
+    expect(request).not.toHaveBeenCalled();
+    expect(result.current.error?.message).toMatch(/HuefyEmailClient has no batch status method/);
+    expect(result.current.isPolling).toBe(false);
+  });
+
+  it('reports clients that cannot poll batches', async () => {
+    const { result } = renderHook(() => useBatchStatus('batch_123'), {
+      wrapper: createWrapper({ sendBulkEmails: vi.fn() }),
+    });
+
+    await advance(0);
+    expect(result.current.error?.message).toMatch(/does not implement getBatchStatus/);
+    expect(result.current.isPolling).toBe(false);
+  });
+
+  it('does not poll without a batch id or before the client is ready', async () => {
+    const getBatchStatus = vi.fn().mockResolvedValue(batch(1));
+
+    renderHook(() => useBatchStatus(null), { wrapper: createWrapper({ getBatchStatus }) });
+    renderHook(() => useBatchStatus('batch_123'), { wrapper: createWrapper(null, false) });
+    await advance(5000);
+
+    expect(getBatchStatus).not.toHaveBeenCalled();
+  });
+});
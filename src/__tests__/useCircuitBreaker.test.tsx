@@ -0,0 +1,96 @@
+import React from 'react';
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createCircuitBreakerMirror } from '../circuitBreaker/createCircuitBreakerMirror';
+import { getOrCreateContext } from '../context';
+import { useCircuitBreaker } from '../hooks/useCircuitBreaker';
+import { useSendEmail } from '../hooks/useSendEmail';
+import type { HuefyContextValue } from '../types';
+
+const CONTEXT_KEY = '__HUEFY_REACT_CONTEXT__';
+
+function createWrapper(contextValue: Partial<HuefyContextValue> = {}) {
+  const Context = getOrCreateContext();
+
+  const defaultValue: HuefyContextValue = {
+    client: {} as unknown as HuefyContextValue['client'],
+    isReady: true,
+    isLoading: false,
+    error: null,
+    ...contextValue,
+  };
+
+  return function Wrapper({ children }: { children: React.ReactNode }) {
+    return <Context.Provider value={defaultValue}>{children}</Context.Provider>;
+  };
+}
+
+describe('useCircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    const globalRegistry = globalThis as unknown as Record<string, unknown>;
+    delete globalRegistry[CONTEXT_KEY];
+  });
+
+  it('reports a closed breaker when the provider has no mirror', () => {
+    const { result } = renderHook(() => useCircuitBreaker(), { wrapper: createWrapper() });
+
+    expect(result.current).toMatchObject({
+      status: 'closed',
+      isOpen: false,
+      failureCount: 0,
+      nextProbeAt: null,
+      secondsUntilProbe: 0,
+    });
+  });
+
+  it('opens after failed sends and counts down to the next probe', async () => {
+    const circuitBreaker = createCircuitBreakerMirror({
+      failureThreshold: 2,
+      resetTimeoutMs: 5000,
+      isFailure: () => true,
+      isOpenError: () => false,
+    });
+    const sendEmail = vi.fn().mockRejectedValue(new Error('Service unavailable'));
+
+    const { result } = renderHook(
+      () => ({ breaker: useCircuitBreaker(), sender: useSendEmail() }),
+      {
+        wrapper: createWrapper({
+          client: { sendEmail } as unknown as HuefyContextValue['client'],
+          circuitBreaker,
+        }),
+      },
+    );
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      await act(async () => {
+        await result.current.sender.send('welcome', {}, 'ada@example.com');
+      });
+    }
+
+    expect(result.current.breaker.isOpen).toBe(true);
+    expect(result.current.breaker.failureCount).toBe(2);
+    expect(result.current.breaker.secondsUntilProbe).toBe(5);
+
+    act(() => {
+      vi.advanceTimersByTime(2000);
+    });
+    expect(result.current.breaker.secondsUntilProbe).toBe(3);
+
+    act(() => {
+      vi.advanceTimersByTime(3000);
+    });
+    expect(result.current.breaker.status).toBe('half-open');
+    expect(result.current.breaker.isOpen).toBe(false);
+
+    act(() => {
+      result.current.breaker.reset();
+    });
+    expect(result.current.breaker.status).toBe('closed');
+  });
+});
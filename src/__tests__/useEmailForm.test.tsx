@@ -1,10 +1,12 @@
 import React from 'react';
 import { renderHook, act } from '@testing-library/react';
-import { describe, it, expect, vi, afterEach } from 'vitest';
+import { describe, it, expect, vi, afterEach, beforeEach } from 'vitest';
 import { useEmailForm } from '../hooks/useEmailForm';
 import { getOrCreateContext } from '../context';
+import { createOutbox } from '../outbox/createOutbox';
 import type { HuefyContextValue } from '../types';
 import type { SendEmailResponse } from '../types/email';
+import type { StandardSchemaV1, StandardSchemaV1Issue } from '../types/schema';
 
 const CONTEXT_KEY = '__HUEFY_REACT_CONTEXT__';
 
@@ -18,6 +20,29 @@ const mockResponse: SendEmailResponse = {
   },
 };
 
+// Minimal Standard Schema, standing in for Zod / Valibot / ArkType
+function createSchema<Output>(
+  parse: (value: unknown) => { value: Output } | { issues: StandardSchemaV1Issue[] },
+  options: { async?: boolean } = {},
+): StandardSchemaV1<unknown, Output> {
+  return {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate: (value) => (options.async ? Promise.resolve(parse(value)) : parse(value)),
+    },
+  };
+}
+
+const seatsSchema = createSchema<{ name: string; seats: number }>((value) => {
+  const input = value as { name?: string; seats?: string };
+  const issues: StandardSchemaV1Issue[] = [];
+  if (!input.name) issues.push({ message: 'Name is required', path: ['name'] });
+  const seats = Number(input.seats);
+  if (!Number.isInteger(seats)) issues.push({ message: 'Seats must be a number', path: [{ key: 'seats' }] });
+  return issues.length > 0 ? { issues } : { value: { name: input.name as string, seats } };
+});
+
 function createWrapper(contextValue: Partial<HuefyContextValue> = {}) {
   const Context = getOrCreateContext();
 
@@ -119,7 +144,40 @@ describe('useEmailForm', () => {
     expect(result.current.success).toBe(true);
     expect(result.current.loading).toBe(false);
     expect(result.current.error).toBeNull();
-    expect(onSuccess).toHaveBeenCalledWith(mockResponse);
+    expect(onSuccess).toHaveBeenCalledWith(mockResponse, {
+      templateKey: 'welcome',
+      data: { name: 'John' },
+      recipient: 'john@example.com',
+      provider: undefined,
+    });
+  });
+
+  it('calls onSuccess with the submission when the client resolves without a response object', async () => {
+    const onSuccess = vi.fn();
+    const client = { sendEmail: vi.fn().mockResolvedValue(undefined) };
+
+    const { result } = renderHook(
+      () =>
+        useEmailForm({
+          defaultTemplate: 'welcome',
+          defaultRecipient: 'john@example.com',
+          defaultData: { name: 'John' },
+          onSuccess,
+        }),
+      { wrapper: createWrapper({ client: client as unknown as HuefyContextValue['client'] }) },
+    );
+
+    await act(async () => {
+      await result.current.sendEmail();
+    });
+
+    expect(result.current.success).toBe(true);
+    expect(onSuccess).toHaveBeenCalledWith(undefined, {
+      templateKey: 'welcome',
+      data: { name: 'John' },
+      recipient: 'john@example.com',
+      provider: undefined,
+    });
   });
 
   it('blocks send and sets error when client is not initialized', async () => {
@@ -142,6 +200,7 @@ describe('useEmailForm', () => {
 
     expect(result.current.error?.message).toContain('not initialized');
     expect(result.current.success).toBe(false);
+    expect(result.current.errorInfo?.kind).toBe('not-ready');
     expect(onError).toHaveBeenCalled();
   });
 
@@ -159,9 +218,37 @@ describe('useEmailForm', () => {
 
     expect(result.current.error?.message).toContain('Validation failed');
     expect(result.current.success).toBe(false);
+    expect(result.current.errorInfo).toMatchObject({ kind: 'validation', retryable: false });
     expect(onError).toHaveBeenCalled();
   });
 
+  it('clears success when a later submit fails validation', async () => {
+    const { result } = renderHook(
+      () =>
+        useEmailForm({
+          defaultTemplate: 'welcome',
+          defaultRecipient: 'john@example.com',
+          defaultData: { name: 'John' },
+        }),
+      { wrapper: createWrapper() },
+    );
+
+    await act(async () => {
+      await result.current.sendEmail();
+    });
+    expect(result.current.success).toBe(true);
+
+    act(() => {
+      result.current.setFormData({ recipient: '' });
+    });
+    await act(async () => {
+      await result.current.sendEmail();
+    });
+
+    expect(result.current.status).toBe('error');
+    expect(result.current.success).toBe(false);
+  });
+
   it('handles send errors and calls onError', async () => {
     const sendError = new Error('Network failure');
     const onError = vi.fn();
@@ -193,6 +280,46 @@ describe('useEmailForm', () => {
     expect(onError).toHaveBeenCalledWith(sendError);
   });
 
+  it('forwards an abort signal to the client and cancels on demand', async () => {
+    let signal: AbortSignal | undefined;
+    const sendEmail = vi.fn().mockImplementation((_request, options: { signal: AbortSignal }) => {
+      signal = options.signal;
+      return new Promise(() => {});
+    });
+
+    const { result } = renderHook(
+      () =>
+        useEmailForm({
+          defaultTemplate: 'welcome',
+          defaultRecipient: 'john@example.com',
+          defaultData: { name: 'John' },
+        }),
+      {
+        wrapper: createWrapper({
+          client: { sendEmail } as unknown as HuefyContextValue['client'],
+        }),
+      },
+    );
+
+    act(() => {
+      result.current.sendEmail();
+    });
+
+    expect(sendEmail).toHaveBeenCalledWith(
+      { templateKey: 'welcome', data: { name: 'John' }, recipient: 'john@example.com', provider: undefined },
+      { signal: expect.any(AbortSignal), idempotencyKey: expect.any(String) },
+    );
+    expect(result.current.loading).toBe(true);
+
+    act(() => {
+      result.current.cancel();
+    });
+
+    expect(signal?.aborted).toBe(true);
+    expect(result.current.status).toBe('cancelled');
+    expect(result.current.loading).toBe(false);
+  });
+
   it('calls onSending callback before sending', async () => {
     const onSending = vi.fn();
 
@@ -269,6 +396,578 @@ describe('useEmailForm', () => {
     expect(onError).toHaveBeenCalled();
   });
 
+  it('keys validation errors by field and shows them once touched or submitted', async () => {
+    const { result } = renderHook(
+      () => useEmailForm({ defaultTemplate: 'welcome' }),
+      { wrapper: createWrapper() },
+    );
+
+    expect(result.current.fieldErrors).toEqual({ recipient: 'Recipient email is required' });
+    expect(result.current.formErrors).toEqual([]);
+    expect(result.current.getFieldError('recipient')).toBeUndefined();
+    expect(result.current.getFieldProps('recipient')['aria-invalid']).toBe(false);
+
+    act(() => {
+      result.current.getFieldProps('recipient').onBlur();
+    });
+
+    expect(result.current.touched).toEqual({ recipient: true });
+    expect(result.current.getFieldError('recipient')).toBe('Recipient email is required');
+    expect(result.current.getFieldError('templateKey')).toBeUndefined();
+
+    act(() => {
+      result.current.setFieldTouched('recipient', false);
+    });
+    expect(result.current.getFieldError('recipient')).toBeUndefined();
+
+    await act(async () => {
+      await result.current.sendEmail();
+    });
+
+    expect(result.current.submitCount).toBe(1);
+    expect(result.current.getFieldError('recipient')).toBe('Recipient email is required');
+    expect(result.current.error).toMatchObject({
+      name: 'FormValidationError',
+      fieldErrors: { recipient: 'Recipient email is required' },
+    });
+  });
+
+  it('accepts keyed errors for nested data fields from a custom validator', () => {
+    const { result } = renderHook(
+      () =>
+        useEmailForm({
+          defaultTemplate: 'welcome',
+          defaultRecipient: 'john@example.com',
+          defaultData: { address: { city: '' } },
+          validate: (form) => {
+            const address = form.data.address as { city?: string } | undefined;
+            return address?.city ? null : { 'data.address.city': 'City is required' };
+          },
+        }),
+      { wrapper: createWrapper() },
+    );
+
+    expect(result.current.isValid).toBe(false);
+    expect(result.current.validationErrors).toEqual(['City is required']);
+    expect(result.current.fieldErrors).toEqual({ 'data.address.city': 'City is required' });
+
+    act(() => {
+      result.current.getFieldProps('data.address.city').onChange({ target: { value: 'Berlin' } });
+    });
+
+    expect(result.current.formData.data).toEqual({ address: { city: 'Berlin' } });
+    expect(result.current.getFieldProps('data.address.city').value).toBe('Berlin');
+    expect(result.current.isValid).toBe(true);
+  });
+
+  it('tracks dirty fields against the defaults and clears them on reset', () => {
+    const { result } = renderHook(
+      () => useEmailForm({ defaultTemplate: 'welcome', defaultData: { name: 'John' } }),
+      { wrapper: createWrapper() },
+    );
+
+    expect(result.current.isDirty).toBe(false);
+
+    act(() => {
+      result.current.setFieldValue('data.name', 'Jane');
+      result.current.getFieldProps('recipient').onChange('jane@example.com');
+      result.current.setFieldTouched('recipient');
+    });
+
+    expect(result.current.dirty).toEqual({ data: true, 'data.name': true, recipient: true });
+    expect(result.current.isDirty).toBe(true);
+
+    act(() => {
+      result.current.setFieldValue('data.name', 'John');
+    });
+    expect(result.current.dirty).toEqual({ recipient: true });
+
+    act(() => {
+      result.current.reset();
+    });
+
+    expect(result.current.isDirty).toBe(false);
+    expect(result.current.touched).toEqual({});
+    expect(result.current.submitCount).toBe(0);
+  });
+
+  describe('async validation', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const validDefaults = {
+      defaultTemplate: 'welcome',
+      defaultRecipient: 'john@example.com',
+      defaultData: { name: 'John' },
+    } as const;
+
+    it('debounces asyncValidate and aborts validations of stale data', async () => {
+      const signals: AbortSignal[] = [];
+      const asyncValidate = vi.fn((form: { recipient: unknown }, { signal }: { signal: AbortSignal }) => {
+        signals.push(signal);
+        return new Promise<Record<string, string> | null>((resolve) =>
+          setTimeout(
+            () => resolve(form.recipient === 'blocked@example.com' ? { recipient: 'Address is suppressed' } : null),
+            100,
+          ),
+        );
+      });
+
+      const { result } = renderHook(
+        () => useEmailForm({ ...validDefaults, asyncValidate, asyncValidateDebounceMs: 200 }),
+        { wrapper: createWrapper() },
+      );
+
+      expect(result.current.isValidating).toBe(true);
+      expect(result.current.isValid).toBe(false);
+
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(250);
+      });
+      expect(asyncValidate).toHaveBeenCalledTimes(1);
+
+      // Edit while the first validation is in flight, then again within the debounce
+      act(() => {
+        result.current.setFieldValue('recipient', 'jane@example.com');
+      });
+      act(() => {
+        result.current.setFieldValue('recipient', 'blocked@example.com');
+      });
+      expect(signals[0].aborted).toBe(true);
+
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(300);
+      });
+
+      expect(asyncValidate).toHaveBeenCalledTimes(2);
+      expect(asyncValidate.mock.calls[1][0].recipient).toBe('blocked@example.com');
+      expect(result.current.isValidating).toBe(false);
+      expect(result.current.isValid).toBe(false);
+      expect(result.current.fieldErrors).toEqual({ recipient: 'Address is suppressed' });
+    });
+
+    it('skips asyncValidate while the synchronous validation fails', async () => {
+      const asyncValidate = vi.fn().mockResolvedValue(null);
+
+      const { result } = renderHook(
+        () => useEmailForm({ defaultTemplate: 'welcome', asyncValidate }),
+        { wrapper: createWrapper() },
+      );
+
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(500);
+      });
+
+      expect(asyncValidate).not.toHaveBeenCalled();
+      expect(result.current.isValidating).toBe(false);
+      expect(result.current.validationErrors).toEqual(['Recipient email is required']);
+    });
+
+    it('waits for pending validation before sending', async () => {
+      const sendEmail = vi.fn().mockResolvedValue(mockResponse);
+      const asyncValidate = vi.fn(
+        () => new Promise<null>((resolve) => setTimeout(() => resolve(null), 50)),
+      );
+
+      const { result } = renderHook(
+        () => useEmailForm({ ...validDefaults, asyncValidate }),
+        {
+          wrapper: createWrapper({
+            client: { sendEmail } as unknown as HuefyContextValue['client'],
+          }),
+        },
+      );
+
+      // Submitted before the debounce has elapsed
+      let pending: Promise<unknown> | undefined;
+      await act(async () => {
+        pending = result.current.sendEmail();
+        await vi.advanceTimersByTimeAsync(10);
+      });
+      expect(asyncValidate).toHaveBeenCalledTimes(1);
+      expect(sendEmail).not.toHaveBeenCalled();
+
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(50);
+        await pending;
+      });
+
+      expect(sendEmail).toHaveBeenCalledTimes(1);
+      expect(result.current.success).toBe(true);
+
+      // The scheduled run reuses the settled result
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(500);
+      });
+      expect(asyncValidate).toHaveBeenCalledTimes(1);
+    });
+
+    it('validates and sends the edited data when an edit supersedes a pending validation', async () => {
+      const sendEmail = vi.fn().mockResolvedValue(mockResponse);
+      const asyncValidate = vi.fn(
+        (_formData: unknown, { signal }: { signal: AbortSignal }) =>
+          new Promise<null>((resolve, reject) => {
+            const timer = setTimeout(() => resolve(null), 50);
+            signal.addEventListener('abort', () => {
+              clearTimeout(timer);
+              reject(new DOMException('Aborted', 'AbortError'));
+            });
+          }),
+      );
+      const onSuccess = vi.fn();
+
+      const { result } = renderHook(
+        () => useEmailForm({ ...validDefaults, asyncValidate, onSuccess }),
+        {
+          wrapper: createWrapper({
+            client: { sendEmail } as unknown as HuefyContextValue['client'],
+          }),
+        },
+      );
+
+      let pending: Promise<unknown> | undefined;
+      await act(async () => {
+        pending = result.current.sendEmail();
+        await vi.advanceTimersByTimeAsync(10);
+      });
+      act(() => {
+        result.current.setFormData({ recipient: 'jane@example.com' });
+      });
+
+      let response: unknown;
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(100);
+        response = await pending;
+      });
+
+      expect(asyncValidate).toHaveBeenCalledTimes(2);
+      expect(asyncValidate.mock.calls[1][0]).toMatchObject({ recipient: 'jane@example.com' });
+      expect(sendEmail).toHaveBeenCalledTimes(1);
+      expect(sendEmail.mock.calls[0][0]).toMatchObject({ recipient: 'jane@example.com' });
+      expect(response).toEqual(mockResponse);
+      expect(onSuccess).toHaveBeenCalledTimes(1);
+    });
+
+    it('cancels a send whose validation is pending on reset', async () => {
+      const sendEmail = vi.fn().mockResolvedValue(mockResponse);
+      const asyncValidate = vi.fn(
+        () => new Promise<null>((resolve) => setTimeout(() => resolve(null), 50)),
+      );
+
+      const { result } = renderHook(
+        () => useEmailForm({ ...validDefaults, asyncValidate }),
+        {
+          wrapper: createWrapper({
+            client: { sendEmail } as unknown as HuefyContextValue['client'],
+          }),
+        },
+      );
+
+      let pending: Promise<unknown> | undefined;
+      await act(async () => {
+        pending = result.current.sendEmail();
+        await vi.advanceTimersByTimeAsync(10);
+      });
+      act(() => {
+        result.current.reset();
+      });
+
+      let response: unknown;
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(100);
+        response = await pending;
+      });
+
+      expect(response).toBeUndefined();
+      expect(sendEmail).not.toHaveBeenCalled();
+    });
+
+    it('blocks the send on asynchronous errors', async () => {
+      const sendEmail = vi.fn().mockResolvedValue(mockResponse);
+      const onError = vi.fn();
+
+      const { result } = renderHook(
+        () =>
+          useEmailForm({
+            ...validDefaults,
+            asyncValidate: async () => ['Customer does not exist'],
+            onError,
+          }),
+        {
+          wrapper: createWrapper({
+            client: { sendEmail } as unknown as HuefyContextValue['client'],
+          }),
+        },
+      );
+
+      await act(async () => {
+        await result.current.sendEmail();
+      });
+
+      expect(sendEmail).not.toHaveBeenCalled();
+      expect(result.current.formErrors).toEqual(['Customer does not exist']);
+      expect(result.current.errorInfo).toMatchObject({ kind: 'validation' });
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('schemas', () => {
+    it('maps schema issues onto data fields', () => {
+      const { result } = renderHook(
+        () =>
+          useEmailForm({
+            defaultTemplate: 'invite',
+            defaultRecipient: 'john@example.com',
+            defaultData: { seats: 'many' },
+            schema: seatsSchema,
+          }),
+        { wrapper: createWrapper() },
+      );
+
+      expect(result.current.isValid).toBe(false);
+      expect(result.current.fieldErrors).toEqual({
+        'data.name': 'Name is required',
+        'data.seats': 'Seats must be a number',
+      });
+    });
+
+    it('sends the parsed output and passes it to onSuccess', async () => {
+      const sendEmail = vi.fn().mockResolvedValue(mockResponse);
+      const onSuccess = vi.fn((_response: SendEmailResponse, submission: { data: { seats: number } }) => {
+        // Narrowed to the schema output
+        const seats: number = submission.data.seats;
+        return seats;
+      });
+
+      const { result } = renderHook(
+        () =>
+          useEmailForm({
+            defaultTemplate: 'invite',
+            defaultRecipient: 'john@example.com',
+            defaultData: { name: 'Acme', seats: '5' },
+            schema: seatsSchema,
+            onSuccess,
+          }),
+        {
+          wrapper: createWrapper({
+            client: { sendEmail } as unknown as HuefyContextValue['client'],
+          }),
+        },
+      );
+
+      await act(async () => {
+        await result.current.sendEmail();
+      });
+
+      expect(sendEmail.mock.calls[0][0].data).toEqual({ name: 'Acme', seats: 5 });
+      expect(onSuccess).toHaveBeenCalledWith(
+        mockResponse,
+        expect.objectContaining({ templateKey: 'invite', data: { name: 'Acme', seats: 5 } }),
+      );
+      expect(result.current.formData.data).toEqual({ name: 'Acme', seats: '5' });
+    });
+
+    it('picks the schema of the selected template', () => {
+      const { result } = renderHook(
+        () =>
+          useEmailForm({
+            defaultTemplate: 'welcome',
+            defaultRecipient: 'john@example.com',
+            defaultData: {},
+            schemas: { invite: seatsSchema },
+          }),
+        { wrapper: createWrapper() },
+      );
+
+      expect(result.current.isValid).toBe(true);
+
+      act(() => {
+        result.current.setFieldValue('templateKey', 'invite');
+      });
+
+      expect(result.current.fieldErrors['data.name']).toBe('Name is required');
+    });
+
+    it('validates with asynchronous schemas before sending', async () => {
+      const sendEmail = vi.fn().mockResolvedValue(mockResponse);
+      const asyncSchema = createSchema<{ code: string }>(
+        (value) =>
+          (value as { code?: string }).code === 'VALID'
+            ? { value: { code: 'VALID' } }
+            : { issues: [{ message: 'Unknown code', path: ['code'] }] },
+        { async: true },
+      );
+
+      const { result } = renderHook(
+        () =>
+          useEmailForm({
+            defaultTemplate: 'promo',
+            defaultRecipient: 'john@example.com',
+            defaultData: { code: 'NOPE' },
+            schema: asyncSchema,
+            asyncValidateDebounceMs: 0,
+          }),
+        {
+          wrapper: createWrapper({
+            client: { sendEmail } as unknown as HuefyContextValue['client'],
+          }),
+        },
+      );
+
+      expect(result.current.isValidating).toBe(true);
+
+      await act(async () => {
+        await result.current.sendEmail();
+      });
+
+      expect(sendEmail).not.toHaveBeenCalled();
+      expect(result.current.isValidating).toBe(false);
+      expect(result.current.getFieldError('data.code')).toBe('Unknown code');
+    });
+  });
+
+  describe('recipient lists', () => {
+    const bulkResponse = {
+      success: true,
+      correlationId: 'corr-bulk',
+      data: {
+        batchId: 'batch-1',
+        status: 'completed',
+        templateKey: 'welcome',
+        totalRecipients: 2,
+        processedCount: 2,
+        successCount: 2,
+        failureCount: 0,
+        suppressedCount: 0,
+        startedAt: '2024-01-01T00:00:00Z',
+        completedAt: '2024-01-01T00:00:01Z',
+        recipients: [],
+      },
+    };
+
+    it('manages the list and validates each entry', () => {
+      const { result } = renderHook(
+        () => useEmailForm({ defaultTemplate: 'welcome', defaultRecipients: ['ann@example.com'] }),
+        { wrapper: createWrapper() },
+      );
+
+      expect(result.current.formData.recipients).toEqual([{ email: 'ann@example.com' }]);
+      expect(result.current.isValid).toBe(true);
+
+      act(() => {
+        result.current.addRecipient('bob@example');
+        result.current.addRecipient({ email: 'ANN@example.com', type: 'cc' });
+      });
+
+      expect(result.current.fieldErrors).toEqual({
+        'recipients.1.email': 'Invalid email address',
+        'recipients.2.email': 'Duplicate recipient',
+      });
+
+      act(() => {
+        result.current.updateRecipient(1, { email: 'bob@example.com', data: { firstName: 'Bob' } });
+        result.current.setRecipientType(1, 'bcc');
+        result.current.removeRecipient(2);
+      });
+
+      expect(result.current.formData.recipients).toEqual([
+        { email: 'ann@example.com' },
+        { email: 'bob@example.com', type: 'bcc', data: { firstName: 'Bob' } },
+      ]);
+      expect(result.current.getFieldProps('recipients.1.email').value).toBe('bob@example.com');
+      expect(result.current.isValid).toBe(true);
+    });
+
+    it('sends a single entry with sendEmail', async () => {
+      const sendEmail = vi.fn().mockResolvedValue(mockResponse);
+      const sendBulkEmails = vi.fn();
+
+      const { result } = renderHook(
+        () =>
+          useEmailForm({
+            defaultTemplate: 'welcome',
+            defaultData: { name: 'John' },
+            defaultRecipients: [{ email: 'john@example.com', type: 'cc' }],
+          }),
+        {
+          wrapper: createWrapper({
+            client: { sendEmail, sendBulkEmails } as unknown as HuefyContextValue['client'],
+          }),
+        },
+      );
+
+      await act(async () => {
+        await result.current.sendEmail();
+      });
+
+      expect(sendBulkEmails).not.toHaveBeenCalled();
+      expect(sendEmail.mock.calls[0][0]).toEqual({
+        templateKey: 'welcome',
+        data: { name: 'John' },
+        recipient: { email: 'john@example.com', type: 'cc' },
+        provider: undefined,
+      });
+      expect(result.current.data).toEqual(mockResponse);
+      expect(result.current.bulkData).toBeNull();
+    });
+
+    it('sends several entries with sendBulkEmails and merges their data', async () => {
+      const sendEmail = vi.fn();
+      const sendBulkEmails = vi.fn().mockResolvedValue(bulkResponse);
+      const onSuccess = vi.fn();
+      const onBulkSuccess = vi.fn();
+
+      const { result } = renderHook(
+        () =>
+          useEmailForm({
+            defaultTemplate: 'welcome',
+            defaultData: { team: 'Acme', firstName: 'there' },
+            defaultRecipients: [
+              { email: 'ann@example.com', data: { firstName: 'Ann' } },
+              'bob@example.com',
+            ],
+            defaultProvider: 'ses',
+            onSuccess,
+            onBulkSuccess,
+          }),
+        {
+          wrapper: createWrapper({
+            client: { sendEmail, sendBulkEmails } as unknown as HuefyContextValue['client'],
+          }),
+        },
+      );
+
+      await act(async () => {
+        await result.current.sendEmail();
+      });
+
+      expect(sendEmail).not.toHaveBeenCalled();
+      expect(sendBulkEmails).toHaveBeenCalledWith(
+        {
+          templateKey: 'welcome',
+          provider: 'ses',
+          recipients: [
+            { email: 'ann@example.com', data: { team: 'Acme', firstName: 'Ann' } },
+            { email: 'bob@example.com', data: { team: 'Acme', firstName: 'there' } },
+          ],
+        },
+        expect.objectContaining({ idempotencyKey: expect.any(String) }),
+      );
+      expect(result.current.bulkData).toEqual(bulkResponse);
+      expect(result.current.data).toBeNull();
+      expect(onBulkSuccess).toHaveBeenCalledWith(
+        bulkResponse,
+        expect.objectContaining({ recipients: expect.any(Array) }),
+      );
+      expect(onSuccess).not.toHaveBeenCalled();
+    });
+  });
+
   it('setTemplateData updates only data field', () => {
     const { result } = renderHook(
       () => useEmailForm({ defaultTemplate: 'welcome' }),
@@ -282,4 +981,46 @@ describe('useEmailForm', () => {
     expect(result.current.formData.data).toEqual({ name: 'Alice', city: 'Berlin' });
     expect(result.current.formData.templateKey).toBe('welcome');
   });
+
+  it('exposes the outbox item of a retryable failure and clears it on reset', async () => {
+    const sendEmail = vi.fn().mockRejectedValue(new Error('Failed to fetch'));
+    const outbox = createOutbox({
+      dispatch: vi.fn(),
+      isRetryable: () => true,
+      baseDelayMs: 60_000,
+    });
+
+    const { result } = renderHook(
+      () =>
+        useEmailForm({
+          defaultTemplate: 'welcome',
+          defaultRecipient: 'john@example.com',
+          defaultData: { name: 'John' },
+        }),
+      {
+        wrapper: createWrapper({
+          client: { sendEmail } as unknown as HuefyContextValue['client'],
+          outbox,
+        }),
+      },
+    );
+
+    await act(async () => {
+      await result.current.sendEmail();
+    });
+
+    expect(result.current.error?.message).toBe('Failed to fetch');
+    expect(result.current.outboxItem).toMatchObject({
+      status: 'pending',
+      request: { templateKey: 'welcome', recipient: 'john@example.com' },
+    });
+
+    act(() => {
+      result.current.reset();
+    });
+
+    expect(result.current.outboxItem).toBeNull();
+    expect(outbox.getItems()).toHaveLength(1);
+    outbox.stop();
+  });
 });
@@ -0,0 +1,199 @@
+import React from 'react';
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getOrCreateContext } from '../context';
+import { useHealthCheck } from '../hooks/useHealthCheck';
+import type { HuefyContextValue } from '../types';
+import type { HealthCheckResponse } from '../types/email';
+
+const CONTEXT_KEY = '__HUEFY_REACT_CONTEXT__';
+
+const healthyResponse: HealthCheckResponse = {
+  success: true,
+  correlationId: 'corr-health-1',
+  data: {
+    status: 'healthy',
+    timestamp: '2026-05-07T10:00:00Z',
+    version: '1.0.0',
+  },
+};
+
+function createWrapper(contextValue: Partial<HuefyContextValue> = {}) {
+  const Context = getOrCreateContext();
+
+  const defaultValue: HuefyContextValue = {
+    client: {
+      healthCheck: vi.fn().mockResolvedValue(healthyResponse),
+    } as unknown as HuefyContextValue['client'],
+    isReady: true,
+    isLoading: false,
+    error: null,
+    ...contextValue,
+  };
+
+  return function Wrapper({ children }: { children: React.ReactNode }) {
+    return <Context.Provider value={defaultValue}>{children}</Context.Provider>;
+  };
+}
+
+function setVisibility(state: DocumentVisibilityState) {
+  Object.defineProperty(document, 'visibilityState', { configurable: true, get: () => state });
+  document.dispatchEvent(new Event('visibilitychange'));
+}
+
+describe('useHealthCheck', () => {
+  afterEach(() => {
+    // Unmount first, so restoring the visibility does not trigger a check
+    cleanup();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    setVisibility('visible');
+    const globalRegistry = globalThis as unknown as Record<string, unknown>;
+    delete globalRegistry[CONTEXT_KEY];
+  });
+
+  it('checks health once when the client is ready', async () => {
+    const healthCheck = vi.fn().mockResolvedValue(healthyResponse);
+
+    const { result } = renderHook(() => useHealthCheck(), {
+      wrapper: createWrapper({
+        client: { healthCheck } as unknown as HuefyContextValue['client'],
+      }),
+    });
+
+    await waitFor(() => {
+      expect(result.current.status).toBe('healthy');
+    });
+
+    expect(healthCheck).toHaveBeenCalledTimes(1);
+    expect(result.current.healthy).toBe(true);
+    expect(result.current.version).toBe('1.0.0');
+    expect(result.current.timestamp).toBe('2026-05-07T10:00:00Z');
+    expect(result.current.lastCheckedAt).toBeInstanceOf(Date);
+  });
+
+  it('does not check while disabled or before the client is ready', () => {
+    const healthCheck = vi.fn().mockResolvedValue(healthyResponse);
+
+    renderHook(() => useHealthCheck({ enabled: false }), {
+      wrapper: createWrapper({
+        client: { healthCheck } as unknown as HuefyContextValue['client'],
+      }),
+    });
+    renderHook(() => useHealthCheck(), {
+      wrapper: createWrapper({ client: null, isReady: false }),
+    });
+
+    expect(healthCheck).not.toHaveBeenCalled();
+  });
+
+  it('reports an unreachable API', async () => {
+    const onError = vi.fn();
+    const healthError = new Error('Network failure');
+
+    const { result } = renderHook(() => useHealthCheck({ onError }), {
+      wrapper: createWrapper({
+        client: {
+          healthCheck: vi.fn().mockRejectedValue(healthError),
+        } as unknown as HuefyContextValue['client'],
+      }),
+    });
+
+    await waitFor(() => {
+      expect(result.current.error).toBe(healthError);
+    });
+
+    expect(result.current.status).toBe('unreachable');
+    expect(result.current.healthy).toBe(false);
+    expect(onError).toHaveBeenCalledWith(healthError);
+  });
+
+  describe('polling', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    it('polls on the configured interval', async () => {
+      const healthCheck = vi.fn().mockResolvedValue(healthyResponse);
+
+      renderHook(() => useHealthCheck({ interval: 1000 }), {
+        wrapper: createWrapper({
+          client: { healthCheck } as unknown as HuefyContextValue['client'],
+        }),
+      });
+
+      expect(healthCheck).toHaveBeenCalledTimes(1);
+
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(3000);
+      });
+
+      expect(healthCheck).toHaveBeenCalledTimes(4);
+    });
+
+    it('pauses while hidden and checks again when visible', async () => {
+      const healthCheck = vi.fn().mockResolvedValue(healthyResponse);
+
+      renderHook(() => useHealthCheck({ interval: 1000 }), {
+        wrapper: createWrapper({
+          client: { healthCheck } as unknown as HuefyContextValue['client'],
+        }),
+      });
+
+      act(() => {
+        setVisibility('hidden');
+      });
+
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(3000);
+      });
+
+      expect(healthCheck).toHaveBeenCalledTimes(1);
+
+      await act(async () => {
+        setVisibility('visible');
+        await vi.advanceTimersByTimeAsync(0);
+      });
+
+      expect(healthCheck).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps polling while hidden when pauseWhenHidden is false', async () => {
+      const healthCheck = vi.fn().mockResolvedValue(healthyResponse);
+
+      renderHook(() => useHealthCheck({ interval: 1000, pauseWhenHidden: false }), {
+        wrapper: createWrapper({
+          client: { healthCheck } as unknown as HuefyContextValue['client'],
+        }),
+      });
+
+      act(() => {
+        setVisibility('hidden');
+      });
+
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(2000);
+      });
+
+      expect(healthCheck).toHaveBeenCalledTimes(3);
+    });
+
+    it('stops polling on unmount', async () => {
+      const healthCheck = vi.fn().mockResolvedValue(healthyResponse);
+
+      const { unmount } = renderHook(() => useHealthCheck({ interval: 1000 }), {
+        wrapper: createWrapper({
+          client: { healthCheck } as unknown as HuefyContextValue['client'],
+        }),
+      });
+
+      unmount();
+
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(3000);
+      });
+
+      expect(healthCheck).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import React from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getOrCreateContext } from '../context';
+import { useOutbox } from '../hooks/useOutbox';
+import { createOutbox } from '../outbox/createOutbox';
+import type { HuefyContextValue } from '../types';
+import type { SendEmailRequest } from '../types/email';
+
+const CONTEXT_KEY = '__HUEFY_REACT_CONTEXT__';
+
+const request: SendEmailRequest = {
+  templateKey: 'welcome',
+  data: { name: 'Alice' },
+  recipient: 'alice@example.com',
+};
+
+function createWrapper(contextValue: Partial<HuefyContextValue> = {}) {
+  const Context = getOrCreateContext();
+
+  const defaultValue: HuefyContextValue = {
+    client: {} as unknown as HuefyContextValue['client'],
+    isReady: true,
+    isLoading: false,
+    error: null,
+    ...contextValue,
+  };
+
+  return function Wrapper({ children }: { children: React.ReactNode }) {
+    return <Context.Provider value={defaultValue}>{children}</Context.Provider>;
+  };
+}
+
+describe('useOutbox', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    const globalRegistry = globalThis as unknown as Record<string, unknown>;
+    delete globalRegistry[CONTEXT_KEY];
+  });
+
+  it('throws when the provider has no outbox', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() => renderHook(() => useOutbox(), { wrapper: createWrapper() })).toThrow(
+      'useOutbox requires the outbox to be enabled on HuefyProvider',
+    );
+  });
+
+  it('reflects queued, failed and discarded items', async () => {
+    const dispatch = vi.fn().mockRejectedValue(new Error('Template not found'));
+    const outbox = createOutbox({ dispatch, isRetryable: () => false, baseDelayMs: 0 });
+
+    const { result } = renderHook(() => useOutbox(), { wrapper: createWrapper({ outbox }) });
+    expect(result.current.items).toEqual([]);
+
+    let itemId = '';
+    await act(async () => {
+      itemId = (await outbox.enqueue(request)).id;
+    });
+    await waitFor(() => expect(result.current.failed).toHaveLength(1));
+    expect(result.current.pending).toEqual([]);
+
+    await act(async () => {
+      await result.current.discard(itemId);
+    });
+    expect(result.current.items).toEqual([]);
+  });
+
+  it('retries every failed item', async () => {
+    const dispatch = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('Template not found'))
+      .mockRejectedValueOnce(new Error('Template not found'))
+      .mockResolvedValue(undefined);
+    const outbox = createOutbox({ dispatch, isRetryable: () => false, baseDelayMs: 0 });
+
+    const { result } = renderHook(() => useOutbox(), { wrapper: createWrapper({ outbox }) });
+
+    await act(async () => {
+      await outbox.enqueue(request);
+      await outbox.enqueue({ ...request, recipient: 'bob@example.com' });
+    });
+    await waitFor(() => expect(result.current.failed).toHaveLength(2));
+
+    await act(async () => {
+      await result.current.retryAll();
+    });
+
+    expect(dispatch).toHaveBeenCalledTimes(4);
+    expect(result.current.items).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+import React from 'react';
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getOrCreateContext } from '../context';
+import { useRateLimit } from '../hooks/useRateLimit';
+import type { HuefyContextValue, RateLimitState } from '../types';
+
+const CONTEXT_KEY = '__HUEFY_REACT_CONTEXT__';
+const NOW = Date.parse('2026-05-07T10:00:00Z');
+
+function createWrapper(contextValue: Partial<HuefyContextValue> = {}) {
+  const Context = getOrCreateContext();
+
+  const defaultValue: HuefyContextValue = {
+    client: {} as unknown as HuefyContextValue['client'],
+    isReady: true,
+    isLoading: false,
+    error: null,
+    ...contextValue,
+  };
+
+  return function Wrapper({ children }: { children: React.ReactNode }) {
+    return <Context.Provider value={defaultValue}>{children}</Context.Provider>;
+  };
+}
+
+function rateLimitState(overrides: Partial<RateLimitState> = {}): RateLimitState {
+  return {
+    limit: 100,
+    remaining: 0,
+    resetAt: NOW + 3000,
+    updatedAt: NOW,
+    info: {} as RateLimitState['info'],
+    ...overrides,
+  };
+}
+
+describe('useRateLimit', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    const globalRegistry = globalThis as unknown as Record<string, unknown>;
+    delete globalRegistry[CONTEXT_KEY];
+  });
+
+  it('reports nothing before the first update', () => {
+    const { result } = renderHook(() => useRateLimit(), { wrapper: createWrapper() });
+
+    expect(result.current).toMatchObject({
+      limit: null,
+      remaining: null,
+      resetAt: null,
+      secondsUntilReset: 0,
+      isLimited: false,
+      info: null,
+    });
+  });
+
+  it('counts down to the reset and lifts the limit afterwards', () => {
+    const { result } = renderHook(() => useRateLimit(), {
+      wrapper: createWrapper({ rateLimit: rateLimitState() }),
+    });
+
+    expect(result.current.isLimited).toBe(true);
+    expect(result.current.remaining).toBe(0);
+    expect(result.current.resetAt).toEqual(new Date(NOW + 3000));
+    expect(result.current.secondsUntilReset).toBe(3);
+
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(result.current.secondsUntilReset).toBe(2);
+
+    act(() => {
+      vi.advanceTimersByTime(2000);
+    });
+    expect(result.current.secondsUntilReset).toBe(0);
+    expect(result.current.isLimited).toBe(false);
+  });
+
+  it('is not limited while requests remain', () => {
+    const { result } = renderHook(() => useRateLimit(), {
+      wrapper: createWrapper({ rateLimit: rateLimitState({ remaining: 12 }) }),
+    });
+
+    expect(result.current.isLimited).toBe(false);
+    expect(result.current.limit).toBe(100);
+  });
+});
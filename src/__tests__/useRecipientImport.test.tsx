@@ -0,0 +1,47 @@
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import { useRecipientImport } from '../hooks/useRecipientImport';
+
+describe('useRecipientImport', () => {
+  it('parses the text as it changes', () => {
+    const { result } = renderHook(() => useRecipientImport({ defaultType: 'to' }));
+
+    expect(result.current.recipients).toEqual([]);
+
+    act(() => {
+      result.current.setText('ann@example.com\nnope\nann@example.com');
+    });
+
+    expect(result.current.recipients).toEqual([{ email: 'ann@example.com', type: 'to' }]);
+    expect(result.current.errors).toEqual([{ line: 2, value: 'nope', message: 'Invalid email address' }]);
+    expect(result.current.duplicates).toHaveLength(1);
+
+    act(() => {
+      result.current.reset();
+    });
+    expect(result.current.text).toBe('');
+  });
+
+  it('keeps the result while re-rendering with equal inline options', () => {
+    const { result, rerender } = renderHook(() =>
+      useRecipientImport({ initialText: 'ann@example.com', columns: { email: 0 } }),
+    );
+    const first = result.current.result;
+
+    rerender();
+
+    expect(result.current.result).toBe(first);
+  });
+
+  it('reads files and reports option errors', async () => {
+    const { result } = renderHook(() => useRecipientImport({ columns: { email: 'address' } }));
+
+    await act(async () => {
+      await result.current.importFile(new Blob(['email\nann@example.com']));
+    });
+
+    expect(result.current.text).toBe('email\nann@example.com');
+    expect(result.current.error).toBeInstanceOf(RangeError);
+    expect(result.current.recipients).toEqual([]);
+  });
+});
@@ -0,0 +1,500 @@
+import React from 'react';
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getOrCreateContext } from '../context';
+import { deriveBulkRecipientStates, useSendBulkEmails } from '../hooks/useSendBulkEmails';
+import type { HuefyContextValue } from '../types';
+import type { SendBulkEmailsResponse } from '../types/email';
+
+const CONTEXT_KEY = '__HUEFY_REACT_CONTEXT__';
+
+const mockResponse: SendBulkEmailsResponse = {
+  success: true,
+  correlationId: 'corr-bulk-1',
+  data: {
+    batchId: 'batch-1',
+    status: 'completed',
+    templateKey: 'digest',
+    totalRecipients: 4,
+    processedCount: 4,
+    successCount: 2,
+    failureCount: 1,
+    suppressedCount: 1,
+    startedAt: '2026-05-07T10:00:00Z',
+    completedAt: '2026-05-07T10:00:05Z',
+    recipients: [
+      { email: 'alice@example.com', status: 'sent', messageId: 'msg-1' },
+      { email: 'bob@example.com', status: 'queued' },
+      { email: 'carol@example.com', status: 'failed', error: 'Mailbox unavailable' },
+      { email: 'dave@example.com', status: 'sent' },
+    ],
+    errors: [
+      { code: 'RECIPIENT_SUPPRESSED', message: 'Recipient unsubscribed', recipient: 'Dave@Example.com' },
+    ],
+  },
+};
+
+function createWrapper(contextValue: Partial<HuefyContextValue> = {}) {
+  const Context = getOrCreateContext();
+
+  const defaultValue: HuefyContextValue = {
+    client: {
+      sendBulkEmails: vi.fn().mockResolvedValue(mockResponse),
+    } as unknown as HuefyContextValue['client'],
+    isReady: true,
+    isLoading: false,
+    error: null,
+    ...contextValue,
+  };
+
+  return function Wrapper({ children }: { children: React.ReactNode }) {
+    return <Context.Provider value={defaultValue}>{children}</Context.Provider>;
+  };
+}
+
+describe('useSendBulkEmails', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    const globalRegistry = globalThis as unknown as Record<string, unknown>;
+    delete globalRegistry[CONTEXT_KEY];
+  });
+
+  it('passes template, recipients and provider through to the client', async () => {
+    const sendBulkEmails = vi.fn().mockResolvedValue(mockResponse);
+
+    const { result } = renderHook(() => useSendBulkEmails(), {
+      wrapper: createWrapper({
+        client: { sendBulkEmails } as unknown as HuefyContextValue['client'],
+      }),
+    });
+
+    await act(async () => {
+      await result.current.send(
+        'digest',
+        [{ email: 'alice@example.com', data: { locale: 'en' } }, { email: 'bob@example.com', type: 'bcc' }],
+        'mailgun',
+      );
+    });
+
+    expect(sendBulkEmails).toHaveBeenCalledWith(
+      {
+        templateKey: 'digest',
+        recipients: [
+          { email: 'alice@example.com', data: { locale: 'en' } },
+          { email: 'bob@example.com', type: 'bcc' },
+        ],
+        provider: 'mailgun',
+      },
+      { signal: expect.any(AbortSignal), idempotencyKey: expect.any(String) },
+    );
+    expect(result.current.data).toEqual(mockResponse);
+    expect(result.current.success).toBe(true);
+  });
+
+  it('derives per-recipient state from the response', async () => {
+    const onSuccess = vi.fn();
+    const { result } = renderHook(() => useSendBulkEmails({ onSuccess }), {
+      wrapper: createWrapper(),
+    });
+
+    expect(result.current.recipientStates).toEqual([]);
+
+    await act(async () => {
+      await result.current.send('digest', [{ email: 'alice@example.com' }]);
+    });
+
+    expect(onSuccess).toHaveBeenCalledWith(mockResponse);
+    expect(result.current.sent.map((state) => state.email)).toEqual([
+      'alice@example.com',
+      'bob@example.com',
+    ]);
+    expect(result.current.failed.map((state) => state.email)).toEqual(['carol@example.com']);
+    expect(result.current.suppressed.map((state) => state.email)).toEqual(['dave@example.com']);
+    expect(result.current.getRecipientState('BOB@example.com')).toMatchObject({
+      outcome: 'sent',
+      status: 'queued',
+    });
+    expect(result.current.getRecipientState('dave@example.com')).toMatchObject({
+      errorCode: 'RECIPIENT_SUPPRESSED',
+      error: 'Recipient unsubscribed',
+    });
+  });
+
+  it('counts recipients the API queued as sent', async () => {
+    // Shape of a freshly accepted batch, as returned by the API
+    const queuedResponse: SendBulkEmailsResponse = {
+      success: true,
+      correlationId: 'corr_bulk_123',
+      data: {
+        batchId: 'batch_123',
+        status: 'processing',
+        templateKey: 'digest',
+        totalRecipients: 2,
+        processedCount: 0,
+        successCount: 0,
+        failureCount: 0,
+        suppressedCount: 0,
+        startedAt: '2026-05-07T10:00:00Z',
+        recipients: [
+          { email: 'alice@example.com', status: 'queued' },
+          { email: 'bob@example.com', status: 'queued' },
+        ],
+      },
+    };
+
+    const { result } = renderHook(() => useSendBulkEmails(), {
+      wrapper: createWrapper({
+        client: {
+          sendBulkEmails: vi.fn().mockResolvedValue(queuedResponse),
+        } as unknown as HuefyContextValue['client'],
+      }),
+    });
+
+    await act(async () => {
+      await result.current.send('digest', [{ email: 'alice@example.com' }, { email: 'bob@example.com' }]);
+    });
+
+    expect(result.current.success).toBe(true);
+    expect(result.current.sent.map((state) => state.email)).toEqual([
+      'alice@example.com',
+      'bob@example.com',
+    ]);
+    expect(result.current.recipientStates.some((state) => state.outcome === 'pending')).toBe(false);
+  });
+
+  it('clears recipient state on reset', async () => {
+    const { result } = renderHook(() => useSendBulkEmails(), { wrapper: createWrapper() });
+
+    await act(async () => {
+      await result.current.send('digest', [{ email: 'alice@example.com' }]);
+    });
+    expect(result.current.recipientStates).toHaveLength(4);
+
+    act(() => {
+      result.current.reset();
+    });
+
+    expect(result.current.recipientStates).toEqual([]);
+    expect(result.current.data).toBeNull();
+  });
+
+  it('surfaces send errors', async () => {
+    const sendError = new Error('At least one recipient is required');
+    const onError = vi.fn();
+
+    const { result } = renderHook(() => useSendBulkEmails({ onError }), {
+      wrapper: createWrapper({
+        client: {
+          sendBulkEmails: vi.fn().mockRejectedValue(sendError),
+        } as unknown as HuefyContextValue['client'],
+      }),
+    });
+
+    await act(async () => {
+      await result.current.send('digest', []);
+    });
+
+    expect(result.current.error).toBe(sendError);
+    expect(result.current.recipientStates).toEqual([]);
+    expect(onError).toHaveBeenCalledWith(sendError);
+  });
+});
+
+describe('useSendBulkEmails chunking', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    const globalRegistry = globalThis as unknown as Record<string, unknown>;
+    delete globalRegistry[CONTEXT_KEY];
+  });
+
+  const recipients = ['a', 'b', 'c', 'd', 'e'].map((name) => ({ email: `${name}@example.com` }));
+
+  function chunkResponse(batchId: string, emails: string[]): SendBulkEmailsResponse {
+    return {
+      success: true,
+      correlationId: `corr-${batchId}`,
+      data: {
+        ...mockResponse.data,
+        batchId,
+        status: 'completed',
+        totalRecipients: emails.length,
+        processedCount: emails.length,
+        successCount: emails.length,
+        failureCount: 0,
+        suppressedCount: 0,
+        recipients: emails.map((email) => ({ email, status: 'sent' })),
+        errors: undefined,
+      },
+    };
+  }
+
+  function echoClient() {
+    let batch = 0;
+    return vi.fn().mockImplementation(({ recipients: chunk }: { recipients: { email: string }[] }) =>
+      Promise.resolve(chunkResponse(`batch-${++batch}`, chunk.map((r) => r.email))),
+    );
+  }
+
+  it('splits recipients into chunks and aggregates the responses', async () => {
+    const sendBulkEmails = echoClient();
+    const onProgress = vi.fn();
+
+    const { result } = renderHook(
+      () => useSendBulkEmails({ chunkSize: 2, chunkConcurrency: 2, onProgress }),
+      {
+        wrapper: createWrapper({
+          client: { sendBulkEmails } as unknown as HuefyContextValue['client'],
+        }),
+      },
+    );
+
+    await act(async () => {
+      await result.current.send('digest', recipients);
+    });
+
+    expect(sendBulkEmails).toHaveBeenCalledTimes(3);
+    expect(sendBulkEmails.mock.calls.map(([request]) => request.recipients.length)).toEqual([2, 2, 1]);
+    expect(result.current.progress).toEqual({ totalChunks: 3, completedChunks: 3, failedChunks: 0 });
+    expect(onProgress).toHaveBeenCalledTimes(3);
+    expect(result.current.data?.data.totalRecipients).toBe(5);
+    expect(result.current.data?.data.successCount).toBe(5);
+    expect(result.current.data?.data.recipients).toHaveLength(5);
+    expect(result.current.batchIds).toHaveLength(3);
+    expect(result.current.success).toBe(true);
+  });
+
+  it('never exceeds the configured chunk concurrency', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const sendBulkEmails = vi.fn().mockImplementation(
+      async ({ recipients: chunk }: { recipients: { email: string }[] }) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+        return chunkResponse('batch', chunk.map((r) => r.email));
+      },
+    );
+
+    const { result } = renderHook(
+      () => useSendBulkEmails({ chunkSize: 1, chunkConcurrency: 2 }),
+      {
+        wrapper: createWrapper({
+          client: { sendBulkEmails } as unknown as HuefyContextValue['client'],
+        }),
+      },
+    );
+
+    await act(async () => {
+      await result.current.send('digest', recipients);
+    });
+
+    expect(sendBulkEmails).toHaveBeenCalledTimes(5);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('keeps successful chunks and retries only the failed ones', async () => {
+    const chunkError = new Error('Rate limit exceeded');
+    const succeed = echoClient();
+    const sendBulkEmails = vi
+      .fn()
+      .mockImplementationOnce(succeed)
+      .mockRejectedValueOnce(chunkError)
+      .mockImplementation(succeed);
+
+    const { result } = renderHook(() => useSendBulkEmails({ chunkSize: 3 }), {
+      wrapper: createWrapper({
+        client: { sendBulkEmails } as unknown as HuefyContextValue['client'],
+      }),
+    });
+    const sendKey = result.current.idempotencyKey;
+
+    await act(async () => {
+      await result.current.send('digest', recipients);
+    });
+
+    expect(result.current.chunks.map((chunk) => chunk.idempotencyKey)).toEqual([
+      `${sendKey}:0`,
+      `${sendKey}:1`,
+    ]);
+    expect(result.current.progress).toEqual({ totalChunks: 2, completedChunks: 1, failedChunks: 1 });
+    expect(result.current.error).toBe(chunkError);
+    expect(result.current.success).toBe(false);
+    expect(result.current.status).toBe('error');
+    expect(result.current.data?.data.totalRecipients).toBe(3);
+    expect(result.current.getRecipientState('d@example.com')).toMatchObject({
+      outcome: 'failed',
+      error: 'Rate limit exceeded',
+    });
+
+    await act(async () => {
+      await result.current.retryFailedChunks();
+    });
+
+    expect(sendBulkEmails).toHaveBeenCalledTimes(3);
+    expect(sendBulkEmails.mock.calls[2][0].recipients.map((r: { email: string }) => r.email)).toEqual([
+      'd@example.com',
+      'e@example.com',
+    ]);
+    expect(sendBulkEmails.mock.calls[2][1].idempotencyKey).toBe(`${sendKey}:1`);
+    expect(result.current.progress).toEqual({ totalChunks: 2, completedChunks: 2, failedChunks: 0 });
+    expect(result.current.error).toBeNull();
+    expect(result.current.success).toBe(true);
+    expect(result.current.status).toBe('success');
+    expect(result.current.data?.data.totalRecipients).toBe(5);
+    expect(result.current.failed).toEqual([]);
+  });
+
+  it('sends other recipients after a failure with new chunk keys', async () => {
+    const sendBulkEmails = vi.fn().mockRejectedValue(new Error('Network failure'));
+
+    const { result } = renderHook(() => useSendBulkEmails({ chunkSize: 3 }), {
+      wrapper: createWrapper({
+        client: { sendBulkEmails } as unknown as HuefyContextValue['client'],
+      }),
+    });
+
+    await act(async () => {
+      await result.current.send('digest', recipients);
+    });
+    const failedKeys = result.current.chunks.map((chunk) => chunk.idempotencyKey);
+
+    await act(async () => {
+      await result.current.send('digest', recipients.slice(1));
+    });
+
+    const keys = sendBulkEmails.mock.calls.map(([, options]) => options.idempotencyKey);
+    expect(keys.slice(0, 2)).toEqual(failedKeys);
+    expect(keys.slice(2)).not.toContain(failedKeys[0]);
+    expect(keys.slice(2)).not.toContain(failedKeys[1]);
+  });
+
+  it('stops sending chunks on cancel and resumes the unsent ones', async () => {
+    const resolvers: Array<() => void> = [];
+    const sendBulkEmails = vi.fn().mockImplementation(
+      ({ recipients: chunk }: { recipients: { email: string }[] }, { signal }: { signal: AbortSignal }) =>
+        new Promise((resolve, reject) => {
+          resolvers.push(() => resolve(chunkResponse('batch', chunk.map((r) => r.email))));
+          signal.addEventListener('abort', () =>
+            reject(new DOMException('The operation was aborted.', 'AbortError')),
+          );
+        }),
+    );
+
+    const { result } = renderHook(() => useSendBulkEmails({ chunkSize: 2 }), {
+      wrapper: createWrapper({
+        client: { sendBulkEmails } as unknown as HuefyContextValue['client'],
+      }),
+    });
+
+    let sendPromise: Promise<unknown>;
+    act(() => {
+      sendPromise = result.current.send('digest', recipients);
+    });
+
+    await act(async () => {
+      result.current.cancel();
+      await sendPromise;
+    });
+
+    expect(sendBulkEmails).toHaveBeenCalledTimes(1);
+    expect(result.current.status).toBe('cancelled');
+    expect(result.current.chunks.map((chunk) => chunk.status)).toEqual(['pending', 'pending', 'pending']);
+    expect(result.current.error).toBeNull();
+
+    sendBulkEmails.mockImplementation(({ recipients: chunk }: { recipients: { email: string }[] }) =>
+      Promise.resolve(chunkResponse('batch', chunk.map((r) => r.email))),
+    );
+
+    await act(async () => {
+      await result.current.retryFailedChunks();
+    });
+
+    expect(sendBulkEmails).toHaveBeenCalledTimes(4);
+    expect(result.current.progress.completedChunks).toBe(3);
+    expect(result.current.success).toBe(true);
+  });
+
+  it('keeps a replaced send from touching the chunks of the new one', async () => {
+    const sendBulkEmails = vi
+      .fn()
+      .mockImplementationOnce(
+        (_request: unknown, { signal }: { signal: AbortSignal }) =>
+          new Promise((_resolve, reject) => {
+            // The transport reports the abort only after the new send finished
+            signal.addEventListener('abort', () =>
+              setTimeout(() => reject(new DOMException('The operation was aborted.', 'AbortError')), 5),
+            );
+          }),
+      )
+      .mockImplementation(({ recipients: chunk }: { recipients: { email: string }[] }) =>
+        Promise.resolve(chunkResponse('batch-2', chunk.map((r) => r.email))),
+      );
+
+    const { result } = renderHook(() => useSendBulkEmails({ chunkSize: 2 }), {
+      wrapper: createWrapper({
+        client: { sendBulkEmails } as unknown as HuefyContextValue['client'],
+      }),
+    });
+
+    act(() => {
+      void result.current.send('digest', recipients);
+    });
+    await act(async () => {
+      await result.current.send('digest', recipients.slice(0, 2));
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    });
+
+    expect(result.current.chunks.map((chunk) => chunk.status)).toEqual(['sent']);
+    expect(result.current.status).toBe('success');
+    expect(result.current.sent).toHaveLength(2);
+  });
+
+  it('reports an error when every chunk fails', async () => {
+    const chunkError = new Error('Provider unavailable');
+    const onError = vi.fn();
+
+    const { result } = renderHook(() => useSendBulkEmails({ chunkSize: 2, onError }), {
+      wrapper: createWrapper({
+        client: {
+          sendBulkEmails: vi.fn().mockRejectedValue(chunkError),
+        } as unknown as HuefyContextValue['client'],
+      }),
+    });
+
+    await act(async () => {
+      await result.current.send('digest', recipients);
+    });
+
+    expect(result.current.data).toBeNull();
+    expect(result.current.error).toBe(chunkError);
+    expect(result.current.failed).toHaveLength(5);
+    expect(onError).toHaveBeenCalledWith(chunkError);
+  });
+});
+
+describe('deriveBulkRecipientStates', () => {
+  it('includes recipients that only appear in errors', () => {
+    const states = deriveBulkRecipientStates({
+      ...mockResponse.data,
+      recipients: [],
+      errors: [{ code: 'INVALID_RECIPIENT', message: 'Invalid email', recipient: 'bad@' }],
+    });
+
+    expect(states).toEqual([
+      { email: 'bad@', outcome: 'failed', error: 'Invalid email', errorCode: 'INVALID_RECIPIENT' },
+    ]);
+  });
+
+  it('ignores errors without a recipient', () => {
+    const states = deriveBulkRecipientStates({
+      ...mockResponse.data,
+      recipients: [{ email: 'alice@example.com', status: 'delivered' }],
+      errors: [{ code: 'PARTIAL_FAILURE', message: 'Some recipients failed' }],
+    });
+
+    expect(states).toEqual([
+      { email: 'alice@example.com', outcome: 'sent', status: 'delivered', messageId: undefined, error: undefined },
+    ]);
+  });
+});
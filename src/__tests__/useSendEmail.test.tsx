@@ -3,6 +3,8 @@ import { act, renderHook } from '@testing-library/react';
 import { afterEach, describe, expect, it, vi } from 'vitest';
 import { getOrCreateContext } from '../context';
 import { useSendEmail } from '../hooks/useSendEmail';
+import { RateLimitBlockedError } from '../errors';
+import { createOutbox } from '../outbox/createOutbox';
 import type { HuefyContextValue } from '../types';
 
 const CONTEXT_KEY = '__HUEFY_REACT_CONTEXT__';
@@ -67,15 +69,231 @@ describe('useSendEmail', () => {
       });
     });
 
-    expect(sendEmail).toHaveBeenCalledWith({
-      templateKey: 'welcome-email',
-      data: { firstName: 'Ada' },
-      recipient: {
-        email: 'ops@example.com',
-        type: 'cc',
-        data: { locale: 'en' },
+    expect(sendEmail).toHaveBeenCalledWith(
+      {
+        templateKey: 'welcome-email',
+        data: { firstName: 'Ada' },
+        recipient: {
+          email: 'ops@example.com',
+          type: 'cc',
+          data: { locale: 'en' },
+        },
+        provider: undefined,
+      },
+      { signal: expect.any(AbortSignal), idempotencyKey: expect.any(String) },
+    );
+  });
+
+  it('types send arguments', () => {
+    const { result } = renderHook(() => useSendEmail(), { wrapper: createWrapper() });
+
+    if (false as boolean) {
+      // @ts-expect-error recipient is required
+      result.current.send('welcome-email', { firstName: 'Ada' });
+      // @ts-expect-error template key must be a string
+      result.current.send(42, { firstName: 'Ada' }, 'ada@example.com');
+    }
+
+    expect(typeof result.current.send).toBe('function');
+  });
+
+  it('aborts the in-flight request on cancel', async () => {
+    let signal: AbortSignal | undefined;
+    const sendEmail = vi.fn().mockImplementation((_request, options: { signal: AbortSignal }) => {
+      signal = options.signal;
+      return new Promise(() => {});
+    });
+
+    const { result } = renderHook(() => useSendEmail(), {
+      wrapper: createWrapper({
+        client: { sendEmail } as unknown as HuefyContextValue['client'],
+      }),
+    });
+
+    act(() => {
+      result.current.send('welcome-email', { firstName: 'Ada' }, 'ada@example.com');
+    });
+
+    expect(result.current.status).toBe('loading');
+
+    act(() => {
+      result.current.cancel();
+    });
+
+    expect(signal?.aborted).toBe(true);
+    expect(result.current.status).toBe('cancelled');
+    expect(result.current.loading).toBe(false);
+  });
+
+  it('queues retryable failures in the outbox and tracks the item until delivery', async () => {
+    const networkError = Object.assign(new Error('Failed to fetch'), { name: 'NetworkError' });
+    const sendEmail = vi.fn().mockRejectedValue(networkError);
+    const dispatch = vi.fn().mockResolvedValue(undefined);
+    const outbox = createOutbox({
+      dispatch,
+      isRetryable: (err) => err === networkError,
+      baseDelayMs: 60_000,
+    });
+
+    const { result } = renderHook(() => useSendEmail(), {
+      wrapper: createWrapper({
+        client: { sendEmail } as unknown as HuefyContextValue['client'],
+        outbox,
+      }),
+    });
+
+    await act(async () => {
+      await result.current.send('welcome-email', { firstName: 'Ada' }, 'ada@example.com');
+    });
+
+    expect(result.current.error).toBe(networkError);
+    expect(result.current.outboxItem).toMatchObject({
+      status: 'pending',
+      request: { templateKey: 'welcome-email', recipient: 'ada@example.com' },
+    });
+
+    await act(async () => {
+      await outbox.retry(result.current.outboxItem!.id);
+    });
+
+    expect(dispatch).toHaveBeenCalledTimes(1);
+    expect(result.current.outboxItem).toBeNull();
+    outbox.stop();
+  });
+
+  it('does not queue non-retryable failures or when opted out', async () => {
+    const sendEmail = vi.fn().mockRejectedValue(new Error('Template not found'));
+    const outbox = createOutbox({ dispatch: vi.fn(), isRetryable: () => false });
+    const wrapper = createWrapper({
+      client: { sendEmail } as unknown as HuefyContextValue['client'],
+      outbox,
+    });
+
+    const { result } = renderHook(() => useSendEmail(), { wrapper });
+    await act(async () => {
+      await result.current.send('welcome-email', { firstName: 'Ada' }, 'ada@example.com');
+    });
+    expect(result.current.outboxItem).toBeNull();
+
+    const capture = vi.spyOn(outbox, 'capture');
+    const optedOut = renderHook(() => useSendEmail({ outbox: false }), { wrapper });
+    await act(async () => {
+      await optedOut.result.current.send('welcome-email', { firstName: 'Ada' }, 'ada@example.com');
+    });
+    expect(capture).not.toHaveBeenCalled();
+    expect(outbox.getItems()).toEqual([]);
+  });
+
+  it('sends a double submit with the same idempotency key', async () => {
+    const sendEmail = vi.fn().mockReturnValue(new Promise(() => {}));
+
+    const { result } = renderHook(() => useSendEmail(), {
+      wrapper: createWrapper({
+        client: { sendEmail } as unknown as HuefyContextValue['client'],
+      }),
+    });
+
+    act(() => {
+      result.current.send('welcome-email', { firstName: 'Ada' }, 'ada@example.com');
+      result.current.send('welcome-email', { firstName: 'Ada' }, 'ada@example.com');
+    });
+
+    const [first, second] = sendEmail.mock.calls.map(([, options]) => options.idempotencyKey);
+    expect(first).toBe(result.current.idempotencyKey);
+    expect(second).toBe(first);
+  });
+
+  it('sends other recipients after a failure with a new idempotency key', async () => {
+    const sendEmail = vi.fn().mockRejectedValue(new Error('Network failure'));
+
+    const { result } = renderHook(() => useSendEmail({ outbox: false }), {
+      wrapper: createWrapper({
+        client: { sendEmail } as unknown as HuefyContextValue['client'],
+      }),
+    });
+
+    await act(async () => {
+      await result.current.send('welcome-email', { firstName: 'Ada' }, 'ada@example.com');
+    });
+    await act(async () => {
+      await result.current.send('welcome-email', { firstName: 'Bob' }, 'bob@example.com');
+    });
+    await act(async () => {
+      await result.current.send('welcome-email', { firstName: 'Bob' }, 'bob@example.com');
+    });
+
+    const [toAda, toBob, retryToBob] = sendEmail.mock.calls.map(([, options]) => options.idempotencyKey);
+    expect(toBob).not.toBe(toAda);
+    expect(retryToBob).toBe(toBob);
+    expect(result.current.idempotencyKey).toBe(toBob);
+  });
+
+  it('queues a second send instead of aborting the first', async () => {
+    const resolvers: Array<(value: unknown) => void> = [];
+    const sendEmail = vi.fn().mockImplementation(
+      () => new Promise((resolve) => resolvers.push(resolve)),
+    );
+
+    const { result } = renderHook(() => useSendEmail({ concurrency: 'queue' }), {
+      wrapper: createWrapper({
+        client: { sendEmail } as unknown as HuefyContextValue['client'],
+      }),
+    });
+
+    let second: Promise<unknown>;
+    act(() => {
+      result.current.send('welcome-email', { firstName: 'Ada' }, 'ada@example.com');
+      second = result.current.send('welcome-email', { firstName: 'Bob' }, 'bob@example.com');
+    });
+
+    const [[, firstOptions]] = sendEmail.mock.calls;
+    expect(firstOptions.signal.aborted).toBe(false);
+    expect(result.current.queued).toBe(1);
+
+    await act(async () => {
+      resolvers[0]({ success: true });
+      await Promise.resolve();
+    });
+    await act(async () => {
+      resolvers[1]({ success: true });
+      await second!;
+    });
+
+    expect(sendEmail).toHaveBeenCalledTimes(2);
+    expect(sendEmail.mock.calls[1][0].recipient).toBe('bob@example.com');
+    expect(result.current.queued).toBe(0);
+    expect(result.current.inFlight).toBe(0);
+  });
+
+  it('blocks sends while the rate limit is exhausted when asked to', async () => {
+    const sendEmail = vi.fn().mockResolvedValue({ success: true });
+    const onError = vi.fn();
+    const resetAt = Date.now() + 60_000;
+
+    const { result } = renderHook(
+      () => useSendEmail({ blockWhenRateLimited: true, onError }),
+      {
+        wrapper: createWrapper({
+          client: { sendEmail } as unknown as HuefyContextValue['client'],
+          rateLimit: {
+            limit: 10,
+            remaining: 0,
+            resetAt,
+            updatedAt: Date.now(),
+            info: {} as NonNullable<HuefyContextValue['rateLimit']>['info'],
+          },
+        }),
       },
-      provider: undefined,
+    );
+
+    await act(async () => {
+      await result.current.send('welcome-email', { firstName: 'Ada' }, 'ada@example.com');
     });
+
+    expect(sendEmail).not.toHaveBeenCalled();
+    expect(result.current.error).toBeInstanceOf(RateLimitBlockedError);
+    expect((result.current.error as RateLimitBlockedError).resetAt).toEqual(new Date(resetAt));
+    expect((result.current.error as RateLimitBlockedError).retryAfter).toBe(60);
+    expect(onError).toHaveBeenCalledWith(expect.any(RateLimitBlockedError));
   });
 });
@@ -0,0 +1,102 @@
+import type {
+  CircuitBreakerMirror,
+  CircuitBreakerState,
+} from '../types/circuitBreaker';
+
+export interface CreateCircuitBreakerMirrorOptions {
+  /** Consecutive failures before the breaker opens. Defaults to 5. */
+  failureThreshold?: number;
+  /** Milliseconds the breaker stays open before a probe. Defaults to 30000. */
+  resetTimeoutMs?: number;
+  /** Whether an error counts towards the threshold. */
+  isFailure: (error: unknown) => boolean;
+  /** Whether an error means the core breaker is already open. */
+  isOpenError: (error: unknown) => boolean;
+  /** Clock used for scheduling. Defaults to `Date.now`. */
+  now?: () => number;
+}
+
+const CLOSED: CircuitBreakerState = {
+  status: 'closed',
+  failureCount: 0,
+  openedAt: null,
+  nextProbeAt: null,
+};
+
+/**
+ * Creates a circuit breaker that follows the same rules as the core client:
+ * it opens after `failureThreshold` consecutive failures, moves to
+ * half-open after `resetTimeoutMs`, and closes again on the next success.
+ *
+ * It only sees requests it is told about, so it approximates the core
+ * breaker; an error saying the core breaker is open always opens it.
+ */
+export function createCircuitBreakerMirror(
+  options: CreateCircuitBreakerMirrorOptions,
+): CircuitBreakerMirror {
+  const {
+    failureThreshold = 5,
+    resetTimeoutMs = 30_000,
+    isFailure,
+    isOpenError,
+    now = Date.now,
+  } = options;
+
+  let state = CLOSED;
+  const listeners = new Set<() => void>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const clearTimer = () => {
+    if (timer) clearTimeout(timer);
+    timer = undefined;
+  };
+
+  const setState = (next: CircuitBreakerState) => {
+    state = next;
+    listeners.forEach((listener) => listener());
+  };
+
+  const open = (failureCount: number) => {
+    const openedAt = now();
+    clearTimer();
+    timer = setTimeout(() => {
+      timer = undefined;
+      setState({ ...state, status: 'half-open' });
+    }, resetTimeoutMs);
+    setState({ status: 'open', failureCount, openedAt, nextProbeAt: openedAt + resetTimeoutMs });
+  };
+
+  return {
+    getState: () => state,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    recordSuccess() {
+      if (state === CLOSED) return;
+      clearTimer();
+      setState(CLOSED);
+    },
+    recordFailure(error) {
+      if (isOpenError(error)) {
+        if (state.status !== 'open') open(Math.max(state.failureCount, failureThreshold));
+        return;
+      }
+      if (!isFailure(error)) return;
+
+      const failureCount = state.failureCount + 1;
+      if (state.status === 'half-open' || failureCount >= failureThreshold) {
+        open(failureCount);
+      } else {
+        setState({ ...state, failureCount });
+      }
+    },
+    reset() {
+      clearTimer();
+      setState(CLOSED);
+    },
+    stop: clearTimer,
+  };
+}
@@ -0,0 +1,18 @@
+import { describeError } from '../errors';
+
+/**
+ * Whether an error means the core circuit breaker is open.
+ */
+export function isCircuitOpenError(error: unknown): boolean {
+  return describeError(error).kind === 'circuit-open';
+}
+
+/**
+ * Whether an error counts towards the circuit breaker threshold: network
+ * failures, timeouts and provider errors. Rate limiting and client errors
+ * say nothing about the health of the API and are ignored.
+ */
+export function isCircuitBreakerFailure(error: unknown): boolean {
+  const { kind } = describeError(error);
+  return kind === 'network' || kind === 'provider';
+}
@@ -0,0 +1,78 @@
+import { Component } from 'react';
+import type { ErrorInfo, ReactNode } from 'react';
+import { useOptionalHuefyContext } from '../context';
+import type { HuefyErrorBoundaryProps } from '../types';
+
+interface BoundaryProps extends HuefyErrorBoundaryProps {
+  initError: Error | null;
+  reinitialize?: () => void;
+}
+
+interface BoundaryState {
+  error: Error | null;
+}
+
+class Boundary extends Component<BoundaryProps, BoundaryState> {
+  state: BoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): BoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, errorInfo: ErrorInfo) {
+    this.props.onError?.(error, errorInfo);
+  }
+
+  retry = () => {
+    const { error } = this.state;
+    const { initError, reinitialize } = this.props;
+    this.setState({ error: null });
+
+    // Render errors caused by a failed initialization need a new client
+    if (initError && (error === null || error === initError)) {
+      reinitialize?.();
+    }
+  };
+
+  render(): ReactNode {
+    const error = this.state.error ?? this.props.initError;
+    if (!error) return this.props.children;
+
+    const { fallback } = this.props;
+    return typeof fallback === 'function' ? fallback({ error, retry: this.retry }) : fallback;
+  }
+}
+
+/**
+ * Error boundary for Huefy UIs.
+ *
+ * Renders `fallback` when a child throws during rendering, including the
+ * initialization errors thrown by hooks in `suspense` mode, and when the
+ * surrounding provider failed to initialize. The fallback's `retry` clears
+ * the error and, if initialization failed, re-initializes the client. Place
+ * it inside the `HuefyProvider`.
+ *
+ * @example
+ * ```tsx
+ * <HuefyProvider config={{ apiKey: 'your-api-key' }} retryInitialization>
+ *   <HuefyErrorBoundary
+ *     fallback={({ error, retry }) => (
+ *       <p>
+ *         Email is unavailable: {error.message}
+ *         <button onClick={retry}>Try again</button>
+ *       </p>
+ *     )}
+ *   >
+ *     <ContactForm />
+ *   </HuefyErrorBoundary>
+ * </HuefyProvider>
+ * ```
+ */
+export function HuefyErrorBoundary(props: HuefyErrorBoundaryProps) {
+  // Outside a provider it still works as a plain error boundary
+  const context = useOptionalHuefyContext(props.client);
+
+  return (
+    <Boundary {...props} initError={context?.error ?? null} reinitialize={context?.reinitialize} />
+  );
+}
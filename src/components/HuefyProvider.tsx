@@ -1,12 +1,44 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
 import { HuefyEmailClient } from '@teracrafts/huefy';
-import { getOrCreateContext } from '../context';
-import type { HuefyProviderProps } from '../types';
+import type { RateLimitInfo } from '@teracrafts/huefy';
+import { createCircuitBreakerMirror } from '../circuitBreaker/createCircuitBreakerMirror';
+import {
+  isCircuitBreakerFailure,
+  isCircuitOpenError,
+} from '../circuitBreaker/isCircuitBreakerFailure';
+import { getOrCreateClientsContext, getOrCreateContext } from '../context';
+import { ClientNotReadyError } from '../errors';
+import { createOutbox } from '../outbox/createOutbox';
+import { isRetryableSendError } from '../outbox/isRetryableSendError';
+import { createProxyClient } from '../proxy/createProxyClient';
+import { createDeferred } from '../utils/deferred';
+import { toRateLimitState } from '../utils/rateLimit';
+import type { ConnectionStatus, HuefyProviderProps, RateLimitState } from '../types';
+import type { CircuitBreakerMirror } from '../types/circuitBreaker';
+import type { HealthCheckResponse, HealthCheckResponseData } from '../types/email';
+import type { Outbox } from '../types/outbox';
 
 /**
  * Provider component that initializes the Huefy client and makes it
  * available to all child components via React context.
  *
+ * With `suspense`, the action hooks suspend while the client initializes
+ * and throw initialization errors to the nearest error boundary. The
+ * context's `ready` promise settles with each initialization either way.
+ *
+ * Instead of `config`, a pre-built or custom client can be passed as
+ * `client`. The provider then uses it as is and leaves closing it to the
+ * caller. With `proxy`, calls are posted to the app's own endpoint (see
+ * `createHuefyProxyHandler` in the server entry) and the browser needs no
+ * API key.
+ *
+ * With `name`, the provider is registered under that name instead of
+ * replacing the unnamed one, so several clients can live in one tree;
+ * hooks select it with their `client` option.
+ *
+ * A failed initialization can be retried automatically with
+ * `retryInitialization`, or on demand through the context's `reinitialize`.
+ *
  * @example
  * ```tsx
  * import { HuefyProvider } from '@teracrafts/huefy-react';
@@ -17,6 +49,7 @@ import type { HuefyProviderProps } from '../types';
  *       config={{ apiKey: 'your-api-key' }}
  *       onReady={() => console.log('Client ready')}
  *       onError={(err) => console.error('Init failed:', err)}
+ *       healthCheck
  *     >
  *       <YourApp />
  *     </HuefyProvider>
@@ -26,29 +59,103 @@ import type { HuefyProviderProps } from '../types';
  */
 export function HuefyProvider({
   config,
+  client: clientProp,
+  proxy,
   onReady,
   onError,
+  healthCheck = false,
+  outbox: outboxOptions,
+  suspense = false,
+  retryInitialization,
+  name,
   children,
 }: HuefyProviderProps) {
   const Context = getOrCreateContext();
+  const ClientsContext = getOrCreateClientsContext();
+  const parentClients = useContext(ClientsContext);
+
+  // A proxy is a client the provider builds itself but that needs no key or closing
+  const proxyEndpoint = typeof proxy === 'string' ? proxy : proxy?.endpoint;
+  const proxyClient = useMemo(
+    () => (proxy ? createProxyClient(typeof proxy === 'string' ? { endpoint: proxy } : proxy) : undefined),
+    [proxyEndpoint], // eslint-disable-line react-hooks/exhaustive-deps
+  );
+  const customClient = clientProp ?? proxyClient;
 
   const [client, setClient] = useState<HuefyEmailClient | null>(null);
   const [isReady, setIsReady] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('initializing');
+  const [health, setHealth] = useState<HealthCheckResponseData | null>(null);
+  const [rateLimit, setRateLimit] = useState<RateLimitState | null>(null);
 
   // Prevent double initialization in React StrictMode
   const initRef = useRef(false);
   const clientRef = useRef<HuefyEmailClient | null>(null);
 
+  // Automatic initialization retries; bumping `initRequest` re-runs the init effect
+  const [initRequest, setInitRequest] = useState(0);
+  const attemptRef = useRef(0);
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  // Settled by each initialization; thrown by suspending hooks
+  const readyRef = useRef(createDeferred<HuefyEmailClient>());
+  const [ready, setReady] = useState(() => readyRef.current.promise);
+
+  // Mirrors the client's breaker using the thresholds it was configured with
+  const circuitBreakerRef = useRef<CircuitBreakerMirror | null>(null);
+  if (!circuitBreakerRef.current) {
+    circuitBreakerRef.current = createCircuitBreakerMirror({
+      failureThreshold: config?.circuitBreakerConfig?.failureThreshold,
+      resetTimeoutMs: config?.circuitBreakerConfig?.resetTimeoutMs,
+      isFailure: isCircuitBreakerFailure,
+      isOpenError: isCircuitOpenError,
+    });
+  }
+  const circuitBreaker = circuitBreakerRef.current;
+
+  // The outbox outlives client re-initialization; options are read once
+  const outboxRef = useRef<Outbox | null>(null);
+  if (outboxOptions && !outboxRef.current) {
+    const { isRetryable = isRetryableSendError, ...rest } =
+      outboxOptions === true ? {} : outboxOptions;
+    outboxRef.current = createOutbox({
+      ...rest,
+      isRetryable,
+      dispatch: (item) => {
+        const currentClient = clientRef.current;
+        if (!currentClient) {
+          return Promise.reject(new ClientNotReadyError('Huefy client is not ready'));
+        }
+        return currentClient
+          .sendEmail(item.request, { idempotencyKey: item.idempotencyKey })
+          .then(
+            (response: unknown) => {
+              circuitBreaker.recordSuccess();
+              return response;
+            },
+            (err: unknown) => {
+              circuitBreaker.recordFailure(err);
+              throw err;
+            },
+          );
+      },
+    });
+  }
+  const outbox = outboxRef.current;
+
   // Stable reference to callbacks to avoid re-triggering effects
   const onReadyRef = useRef(onReady);
   const onErrorRef = useRef(onError);
+  const onRateLimitUpdateRef = useRef(config?.onRateLimitUpdate);
   onReadyRef.current = onReady;
   onErrorRef.current = onError;
+  onRateLimitUpdateRef.current = config?.onRateLimitUpdate;
 
   // Stable config serialization for dependency tracking
   const configKey = useMemo(() => JSON.stringify(config), [config]);
+  const retryKey = JSON.stringify(retryInitialization ?? false);
 
   const initializeClient = useCallback(async () => {
     // Guard against double initialization in StrictMode
@@ -57,44 +164,128 @@ export function HuefyProvider({
 
     setIsLoading(true);
     setError(null);
+    setConnectionStatus('initializing');
+    setHealth(null);
+    setRateLimit(null);
+    if (readyRef.current.settled) {
+      readyRef.current = createDeferred();
+      setReady(readyRef.current.promise);
+    }
 
     try {
-      const newClient = new HuefyEmailClient(config);
+      // A client passed in is used as is and exposed under the core client's
+      // type; the built-in hooks only call its `HuefyClient` methods
+      const newClient = customClient
+        ? (customClient as unknown as HuefyEmailClient)
+        : new HuefyEmailClient({
+            ...config,
+            // Capture updates into context, then forward them to the caller's callback
+            onRateLimitUpdate: (info: RateLimitInfo) => {
+              setRateLimit(toRateLimitState(info));
+              onRateLimitUpdateRef.current?.(info);
+            },
+          });
 
       // If the client has an async initialization method, await it
-      if ('initialize' in newClient && typeof (newClient as Record<string, unknown>).initialize === 'function') {
-        await (newClient as unknown as { initialize(): Promise<void> }).initialize();
+      if (!customClient && 'initialize' in newClient && typeof newClient.initialize === 'function') {
+        await newClient.initialize();
+      }
+
+      // Optional reachability probe; failure is reported, not fatal
+      let status: ConnectionStatus = 'initialized';
+      if (healthCheck) {
+        try {
+          const response: HealthCheckResponse = await newClient.healthCheck();
+          setHealth(response.data);
+          status = 'reachable';
+        } catch {
+          status = 'unreachable';
+        }
       }
 
       clientRef.current = newClient;
       setClient(newClient);
+      setConnectionStatus(status);
       setIsReady(true);
       setIsLoading(false);
+      attemptRef.current = 0;
+      readyRef.current.resolve(newClient);
       onReadyRef.current?.();
     } catch (err) {
       const initError =
         err instanceof Error ? err : new Error('Failed to initialize Huefy client');
+
+      const retry = retryInitialization === true ? {} : retryInitialization;
+      const attempt = attemptRef.current + 1;
+      if (retry && attempt < (retry.maxAttempts ?? 3)) {
+        attemptRef.current = attempt;
+        const delay = Math.min(
+          retry.maxDelayMs ?? 30_000,
+          (retry.baseDelayMs ?? 1000) * 2 ** (attempt - 1),
+        );
+        retryTimerRef.current = setTimeout(() => setInitRequest((n) => n + 1), delay);
+        return;
+      }
+
+      attemptRef.current = 0;
       setError(initError);
+      setConnectionStatus('error');
       setIsLoading(false);
       setIsReady(false);
+      readyRef.current.reject(initError);
       onErrorRef.current?.(initError);
     }
-  }, [configKey]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [configKey, customClient, healthCheck, retryKey]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // A new config starts a fresh series of attempts
+  useEffect(() => {
+    attemptRef.current = 0;
+  }, [initializeClient]);
 
   useEffect(() => {
     initRef.current = false;
     initializeClient();
 
     return () => {
-      // Cleanup on unmount or config change
+      clearTimeout(retryTimerRef.current);
+      // Cleanup on unmount or config change; a client passed in belongs to the caller
       const currentClient = clientRef.current;
-      if (currentClient && typeof currentClient.close === 'function') {
+      if (!customClient && currentClient && typeof currentClient.close === 'function') {
         currentClient.close();
       }
       clientRef.current = null;
       initRef.current = false;
     };
-  }, [initializeClient]);
+  }, [initializeClient, initRequest, customClient]);
+
+  const reinitialize = useCallback(() => {
+    clearTimeout(retryTimerRef.current);
+    attemptRef.current = 0;
+    setInitRequest((n) => n + 1);
+  }, []);
+
+  useEffect(() => () => circuitBreaker.stop(), [circuitBreaker]);
+
+  // Replay queued sends once the client is ready and whenever we come back online
+  useEffect(() => {
+    if (!outbox || !isReady) return;
+
+    void outbox.replay();
+
+    const handleOnline = () => {
+      void outbox.replay();
+    };
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', handleOnline);
+    }
+
+    return () => {
+      if (typeof window !== 'undefined') {
+        window.removeEventListener('online', handleOnline);
+      }
+      outbox.stop();
+    };
+  }, [outbox, isReady, client]);
 
   const contextValue = useMemo(
     () => ({
@@ -102,9 +293,40 @@ export function HuefyProvider({
       isReady,
       isLoading,
       error,
+      connectionStatus,
+      health,
+      outbox,
+      rateLimit,
+      circuitBreaker,
+      suspense,
+      ready,
+      reinitialize,
     }),
-    [client, isReady, isLoading, error],
+    [
+      client,
+      isReady,
+      isLoading,
+      error,
+      connectionStatus,
+      health,
+      outbox,
+      rateLimit,
+      circuitBreaker,
+      suspense,
+      ready,
+      reinitialize,
+    ],
+  );
+
+  const clients = useMemo(
+    () => (name === undefined ? parentClients : { ...parentClients, [name]: contextValue }),
+    [name, parentClients, contextValue],
   );
 
+  // A named provider registers itself without shadowing the unnamed one
+  if (name !== undefined) {
+    return <ClientsContext.Provider value={clients}>{children}</ClientsContext.Provider>;
+  }
+
   return <Context.Provider value={contextValue}>{children}</Context.Provider>;
 }
@@ -1 +1,2 @@
 export { HuefyProvider } from './HuefyProvider';
+export { HuefyErrorBoundary } from './HuefyErrorBoundary';
@@ -35,14 +35,60 @@ export function getOrCreateContext(): React.Context<HuefyContextValue | undefine
   return globalRegistry[CONTEXT_KEY]!;
 }
 
+/**
+ * Contexts of the named providers above a component, keyed by name.
+ */
+export type HuefyClientRegistry = Readonly<Record<string, HuefyContextValue>>;
+
+const CLIENTS_CONTEXT_KEY = '__HUEFY_REACT_CLIENTS_CONTEXT__';
+
+/**
+ * Gets or creates the context that holds named providers, using the same
+ * global registry pattern as `getOrCreateContext`.
+ *
+ * Each named `HuefyProvider` extends the registry it is rendered in, so
+ * nested providers with different names are all reachable below them.
+ *
+ * @returns The shared React context for named Huefy clients.
+ */
+export function getOrCreateClientsContext(): React.Context<HuefyClientRegistry> {
+  const globalRegistry = globalThis as unknown as Record<
+    string,
+    React.Context<HuefyClientRegistry> | undefined
+  >;
+
+  if (!globalRegistry[CLIENTS_CONTEXT_KEY]) {
+    globalRegistry[CLIENTS_CONTEXT_KEY] = createContext<HuefyClientRegistry>({});
+    globalRegistry[CLIENTS_CONTEXT_KEY]!.displayName = 'HuefyClientsContext';
+  }
+
+  return globalRegistry[CLIENTS_CONTEXT_KEY]!;
+}
+
+/**
+ * Reads the default context, or the one of the provider with the given
+ * name, without throwing when it is missing.
+ */
+export function useOptionalHuefyContext(name?: string): HuefyContextValue | undefined {
+  const defaultContext = useContext(getOrCreateContext());
+  const clients = useContext(getOrCreateClientsContext());
+
+  return name === undefined ? defaultContext : clients[name];
+}
+
 /**
  * Hook to access the Huefy context.
  *
  * Must be used within a HuefyProvider. Throws an error if used
  * outside of the provider tree.
  *
+ * Without a name it reads the nearest unnamed provider. With a name it
+ * reads the nearest provider mounted with that `name`.
+ *
+ * @param name - Name of the provider to read, for apps with several clients.
  * @returns The current Huefy context value.
- * @throws Error if used outside of a HuefyProvider.
+ * @throws Error if used outside of a HuefyProvider, or if no provider with
+ * the requested name is mounted.
  *
  * @example
  * ```tsx
@@ -56,8 +102,19 @@ export function getOrCreateContext(): React.Context<HuefyContextValue | undefine
  * }
  * ```
  */
-export function useHuefyContext(): HuefyContextValue {
-  const context = useContext(getOrCreateContext());
+export function useHuefyContext(name?: string): HuefyContextValue {
+  const context = useOptionalHuefyContext(name);
+  const clients = useContext(getOrCreateClientsContext());
+
+  if (context === undefined && name !== undefined) {
+    const mounted = Object.keys(clients);
+    throw new Error(
+      `No HuefyProvider named "${name}" is mounted above this component. ` +
+        (mounted.length > 0
+          ? `Mounted named providers: ${mounted.map((key) => `"${key}"`).join(', ')}.`
+          : `Wrap your component tree with <HuefyProvider name="${name}" config={...}>.`),
+    );
+  }
 
   if (context === undefined) {
     throw new Error(
@@ -0,0 +1,253 @@
+import {
+  AuthenticationError,
+  HuefyErrorCode,
+  InsufficientQuotaError,
+  InvalidRecipientError,
+  InvalidTemplateDataError,
+  ProviderError,
+  RateLimitError,
+  TemplateNotFoundError,
+} from '@teracrafts/huefy';
+
+/**
+ * Thrown by send hooks with `blockWhenRateLimited` instead of sending a
+ * request that the API would reject with 429.
+ */
+export class RateLimitBlockedError extends Error {
+  override readonly name = 'RateLimitBlockedError';
+
+  constructor(
+    /** When the rate-limit window resets. */
+    readonly resetAt: Date,
+    /** Requests allowed per window, when the API reported it. */
+    readonly limit: number | null = null,
+  ) {
+    super(`Rate limit reached; requests are blocked until ${resetAt.toISOString()}`);
+  }
+
+  /** Whole seconds until the window resets. */
+  get retryAfter(): number {
+    return Math.max(0, Math.ceil((this.resetAt.getTime() - Date.now()) / 1000));
+  }
+}
+
+/**
+ * Reported when a hook runs before the provider's client is ready.
+ */
+export class ClientNotReadyError extends Error {
+  override readonly name = 'ClientNotReadyError';
+}
+
+/**
+ * Reported by `useEmailForm` when the form does not pass validation.
+ */
+export class FormValidationError extends Error {
+  override readonly name = 'FormValidationError';
+
+  constructor(
+    /** Messages returned by the validator. */
+    readonly errors: string[],
+    /** The field-level messages among `errors`, keyed by field path. */
+    readonly fieldErrors: Partial<Record<string, string>> = {},
+  ) {
+    super(`Validation failed: ${errors.join(', ')}`);
+  }
+}
+
+/**
+ * Broad category of a hook error, for choosing what to show the user.
+ */
+export type HuefyErrorKind =
+  | 'validation'
+  | 'not-ready'
+  | 'rate-limited'
+  | 'quota-exceeded'
+  | 'authentication'
+  | 'template-not-found'
+  | 'invalid-template-data'
+  | 'invalid-recipient'
+  | 'provider'
+  | 'circuit-open'
+  | 'network'
+  | 'unknown';
+
+/**
+ * Normalized description of an error reported by a hook.
+ */
+export interface HuefyErrorDescriptor {
+  kind: HuefyErrorKind;
+  /**
+   * Core SDK error code, if the error carries one. Other codes, such as those
+   * of a proxy endpoint, are left out here but still decide `kind`.
+   */
+  code: HuefyErrorCode | null;
+  message: string;
+  /** Whether sending the same request again later may succeed. */
+  retryable: boolean;
+  /** Seconds to wait before retrying, when known. */
+  retryAfter: number | null;
+  /** Correlation id of the failed API request, when known. */
+  correlationId: string | null;
+  /** Request field the error relates to (`templateKey`, `data`, `recipient`). */
+  field: string | null;
+  /** The original error. */
+  error: Error;
+}
+
+type ErrorClass = abstract new (...args: never[]) => Error;
+
+interface KindRule {
+  kind: HuefyErrorKind;
+  classes: ErrorClass[];
+  /** Class names, for errors of another copy of the core package or rebuilt by the proxy client. */
+  names: string[];
+  code?: RegExp;
+  retryable: boolean;
+  field?: string;
+}
+
+// Matched with instanceof first; the name and code fallbacks cover errors of
+// a duplicated copy of the core package and errors without a class
+const KIND_RULES: KindRule[] = [
+  {
+    kind: 'validation',
+    classes: [FormValidationError],
+    names: ['FormValidationError'],
+    retryable: false,
+  },
+  {
+    kind: 'not-ready',
+    classes: [ClientNotReadyError],
+    names: ['ClientNotReadyError'],
+    retryable: true,
+  },
+  {
+    kind: 'rate-limited',
+    classes: [RateLimitError, RateLimitBlockedError],
+    names: ['RateLimitError', 'RateLimitBlockedError'],
+    code: /RATE_?LIMIT|TOO_MANY_REQUESTS/i,
+    retryable: true,
+  },
+  {
+    kind: 'quota-exceeded',
+    classes: [InsufficientQuotaError],
+    names: ['InsufficientQuotaError'],
+    code: /QUOTA/i,
+    retryable: false,
+  },
+  {
+    kind: 'authentication',
+    classes: [AuthenticationError],
+    names: ['AuthenticationError'],
+    code: /AUTH|API_KEY|UNAUTHORI[SZ]ED|FORBIDDEN/i,
+    retryable: false,
+  },
+  {
+    kind: 'template-not-found',
+    classes: [TemplateNotFoundError],
+    names: ['TemplateNotFoundError'],
+    code: /TEMPLATE_NOT_FOUND/i,
+    retryable: false,
+    field: 'templateKey',
+  },
+  {
+    kind: 'invalid-template-data',
+    classes: [InvalidTemplateDataError],
+    names: ['InvalidTemplateDataError'],
+    code: /TEMPLATE_DATA/i,
+    retryable: false,
+    field: 'data',
+  },
+  {
+    kind: 'invalid-recipient',
+    classes: [InvalidRecipientError],
+    names: ['InvalidRecipientError'],
+    code: /RECIPIENT|EMAIL_ADDRESS/i,
+    retryable: false,
+    field: 'recipient',
+  },
+  {
+    kind: 'provider',
+    classes: [ProviderError],
+    names: ['ProviderError'],
+    code: /PROVIDER/i,
+    retryable: true,
+  },
+  { kind: 'circuit-open', classes: [], names: ['CircuitOpenError'], code: /CIRCUIT/i, retryable: true },
+  {
+    kind: 'network',
+    classes: [],
+    names: ['NetworkError', 'TimeoutError'],
+    code: /NETWORK|TIMEOUT|CONNECTION/i,
+    retryable: true,
+  },
+];
+
+// fetch() rejects with a TypeError whose message differs per runtime
+const FETCH_FAILURE_MESSAGE = /failed to fetch|fetch failed|networkerror|network request failed|load failed/i;
+
+function readString(source: unknown, key: string): string | null {
+  if (!source || typeof source !== 'object') return null;
+  const value = (source as Record<string, unknown>)[key];
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+function readNumber(source: unknown, key: string): number | null {
+  if (!source || typeof source !== 'object') return null;
+  const value = (source as Record<string, unknown>)[key];
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+const CORE_ERROR_CODES = new Set<unknown>(Object.values(HuefyErrorCode));
+
+function isHuefyErrorCode(value: unknown): value is HuefyErrorCode {
+  return CORE_ERROR_CODES.has(value);
+}
+
+function findRule(error: Error, code: string | null): KindRule | undefined {
+  const byClass = KIND_RULES.find((rule) => rule.classes.some((cls) => error instanceof cls));
+  if (byClass) return byClass;
+  const byName = KIND_RULES.find((rule) => rule.names.includes(error.name));
+  if (byName) return byName;
+  if (code) {
+    const byCode = KIND_RULES.find((rule) => rule.code?.test(code));
+    if (byCode) return byCode;
+  }
+  if (error instanceof TypeError && FETCH_FAILURE_MESSAGE.test(error.message)) {
+    return KIND_RULES.find((rule) => rule.kind === 'network');
+  }
+  return undefined;
+}
+
+/**
+ * Builds a normalized descriptor for an error reported by a hook or thrown
+ * by the core client.
+ *
+ * Aborted requests are not retryable: they were cancelled on purpose.
+ */
+export function describeError(error: unknown): HuefyErrorDescriptor {
+  const normalized =
+    error instanceof Error
+      ? error
+      : new Error(typeof error === 'string' ? error : 'An unexpected error occurred');
+  const details = (normalized as { details?: unknown }).details;
+
+  const rawCode = (normalized as { code?: unknown }).code;
+  const code = typeof rawCode === 'string' || typeof rawCode === 'number' ? rawCode : null;
+  const rule =
+    normalized.name === 'AbortError'
+      ? undefined
+      : findRule(normalized, code === null ? null : String(code));
+
+  return {
+    kind: rule?.kind ?? 'unknown',
+    code: isHuefyErrorCode(rawCode) ? rawCode : null,
+    message: normalized.message,
+    retryable: rule?.retryable ?? false,
+    retryAfter: readNumber(normalized, 'retryAfter') ?? readNumber(details, 'retryAfter'),
+    correlationId:
+      readString(normalized, 'correlationId') ?? readString(details, 'correlationId'),
+    field: readString(normalized, 'field') ?? readString(details, 'field') ?? rule?.field ?? null,
+    error: normalized,
+  };
+}
@@ -2,3 +2,13 @@ export { useHuefy } from './useHuefy';
 export { useEmailForm } from './useEmailForm';
 export { useSendEmail } from './useSendEmail';
 export type { UseSendEmailOptions, UseSendEmailResult } from './useSendEmail';
+export { useSendBulkEmails } from './useSendBulkEmails';
+export type { UseSendBulkEmailsOptions, UseSendBulkEmailsResult } from './useSendBulkEmails';
+export { useHealthCheck } from './useHealthCheck';
+export type { UseHealthCheckOptions, UseHealthCheckResult } from './useHealthCheck';
+export { useOutbox } from './useOutbox';
+export type { UseOutboxResult } from './useOutbox';
+export { useRateLimit } from './useRateLimit';
+export type { UseRateLimitResult } from './useRateLimit';
+export { useCircuitBreaker } from './useCircuitBreaker';
+export type { UseCircuitBreakerResult } from './useCircuitBreaker';
@@ -0,0 +1,274 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useHuefyContext } from '../context';
+import { describeError } from '../errors';
+import type { HuefyErrorDescriptor } from '../errors';
+import { useHuefy } from './useHuefy';
+import { deriveBulkRecipientStates } from './useSendBulkEmails';
+import type { HuefyClient } from '../types/client';
+import type { BulkRecipientState, SendBulkEmailsResponse } from '../types/email';
+
+export interface UseBatchStatusOptions {
+  /** Poll at all. Defaults to `true`. */
+  enabled?: boolean;
+  /** Delay in milliseconds before the next poll while the batch is moving. Defaults to `2000`. */
+  interval?: number;
+  /** Upper bound of the backed-off delay in milliseconds. Defaults to `30000`. */
+  maxInterval?: number;
+  /**
+   * Factor the delay grows by after a poll that saw no progress or failed.
+   * Defaults to `2`.
+   */
+  backoffFactor?: number;
+  /**
+   * Skip polls while the document is hidden and poll again as soon as it
+   * becomes visible. Defaults to `true`.
+   */
+  pauseWhenHidden?: boolean;
+  /** Called with every status received. */
+  onUpdate?: (response: SendBulkEmailsResponse) => void;
+  /** Called once the batch reaches a final status. */
+  onComplete?: (response: SendBulkEmailsResponse) => void;
+  onError?: (error: Error) => void;
+  /** Name of the `HuefyProvider` to poll through. Defaults to the unnamed provider. */
+  client?: string;
+}
+
+export interface UseBatchStatusResult {
+  /** Batch status reported by the API (e.g. `'processing'`), or null before the first poll. */
+  status: string | null;
+  /** Last status response of this batch. */
+  data: SendBulkEmailsResponse | null;
+  /** Processed share of the recipients, from 0 to 100. */
+  progress: number;
+  /** Whether the batch reached a final status; polling stops then. */
+  isComplete: boolean;
+  /** Whether polls are scheduled. */
+  isPolling: boolean;
+  /** Per-recipient outcome derived from the last status. */
+  recipientStates: BulkRecipientState[];
+  /** Look up the state of a single recipient by email (case-insensitive). */
+  getRecipientState: (email: string) => BulkRecipientState | undefined;
+  loading: boolean;
+  error: Error | null;
+  /** Normalized description of `error`. */
+  errorInfo: HuefyErrorDescriptor | null;
+  /** When the last poll settled, successfully or not. */
+  lastCheckedAt: Date | null;
+  /** Poll now, and resume polling if it stopped on an error. */
+  refresh: () => void;
+}
+
+const FINAL_STATUSES = new Set([
+  'completed',
+  'complete',
+  'failed',
+  'cancelled',
+  'canceled',
+  'partial',
+  'partially_completed',
+]);
+
+/**
+ * Whether a batch status is final: the API set `completedAt` or reported a
+ * completed, failed or cancelled status.
+ */
+export function isBatchComplete(response: SendBulkEmailsResponse): boolean {
+  const { status, completedAt } = response.data;
+  return Boolean(completedAt) || FINAL_STATUSES.has(status.trim().toLowerCase());
+}
+
+function batchProgress(response: SendBulkEmailsResponse): number {
+  const { processedCount, totalRecipients } = response.data;
+  if (totalRecipients <= 0) return isBatchComplete(response) ? 100 : 0;
+  return Math.min(100, Math.round((processedCount / totalRecipients) * 100));
+}
+
+function isDocumentHidden(): boolean {
+  return typeof document !== 'undefined' && document.visibilityState === 'hidden';
+}
+
+/**
+ * Hook that follows a bulk batch until it finishes, by polling the client's
+ * `getBatchStatus`. The core `HuefyEmailClient` has no such method, so it
+ * cannot be polled; use a proxy client or a custom client that has one.
+ *
+ * The first poll runs as soon as the client is ready. The delay starts at
+ * `interval` and grows by `backoffFactor`, up to `maxInterval`, after
+ * every poll that saw no progress or failed; it drops back to `interval`
+ * when the processed count moves. Polling stops once the batch reaches a
+ * final status, on errors that are not retryable, and, by default, while
+ * the page is hidden. Pass `null` to poll nothing.
+ *
+ * @example
+ * ```tsx
+ * function BatchProgress({ batchId }: { batchId: string }) {
+ *   const { progress, status, isComplete } = useBatchStatus(batchId);
+ *
+ *   return (
+ *     <>
+ *       <progress value={progress} max={100} />
+ *       <span>{isComplete ? `Done: ${status}` : `${progress}%`}</span>
+ *     </>
+ *   );
+ * }
+ * ```
+ */
+export function useBatchStatus(
+  batchId: string | null | undefined,
+  options: UseBatchStatusOptions = {},
+): UseBatchStatusResult {
+  const {
+    enabled = true,
+    interval = 2000,
+    maxInterval = 30_000,
+    backoffFactor = 2,
+    pauseWhenHidden = true,
+  } = options;
+  const { isReady } = useHuefyContext(options.client);
+  const lastCheckedAtRef = useRef<Date | null>(null);
+  const lastErrorRef = useRef<Error | null>(null);
+  const [isPolling, setIsPolling] = useState(false);
+  // Bumped by `refresh` to restart the polling loop
+  const [pollRequest, setPollRequest] = useState(0);
+
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const { execute, loading, error, data } = useHuefy(
+    (client: HuefyClient, { signal }, id: string): Promise<SendBulkEmailsResponse> => {
+      if (!client.getBatchStatus) {
+        return Promise.reject(
+          new Error(
+            'The Huefy client does not implement getBatchStatus, so useBatchStatus cannot poll it; ' +
+              'the core HuefyEmailClient has no batch status method',
+          ),
+        );
+      }
+      return client.getBatchStatus(id, { signal });
+    },
+    {
+      onSuccess: (response) => {
+        lastCheckedAtRef.current = new Date();
+        lastErrorRef.current = null;
+        optionsRef.current.onUpdate?.(response);
+        if (isBatchComplete(response)) optionsRef.current.onComplete?.(response);
+      },
+      onError: (err) => {
+        lastCheckedAtRef.current = new Date();
+        lastErrorRef.current = err;
+        optionsRef.current.onError?.(err);
+      },
+      client: options.client,
+      withContext: true,
+    },
+  );
+
+  // Stable reference so the polling effect does not restart on every render
+  const executeRef = useRef(execute);
+  executeRef.current = execute;
+
+  useEffect(() => {
+    if (!enabled || !isReady || !batchId) return;
+
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let waitingForVisible = false;
+    let delay = interval;
+    let lastProcessed: number | undefined;
+
+    const stop = () => {
+      stopped = true;
+      setIsPolling(false);
+    };
+
+    const poll = async () => {
+      if (pauseWhenHidden && isDocumentHidden()) {
+        waitingForVisible = true;
+        return;
+      }
+
+      const response = await executeRef.current(batchId);
+      if (stopped) return;
+
+      if (response) {
+        if (isBatchComplete(response)) {
+          stop();
+          return;
+        }
+        const processed = response.data.processedCount;
+        delay =
+          lastProcessed === undefined || processed !== lastProcessed
+            ? interval
+            : Math.min(maxInterval, delay * backoffFactor);
+        lastProcessed = processed;
+      } else {
+        // Superseded or aborted polls leave no error behind
+        const failure = lastErrorRef.current;
+        if (failure && !describeError(failure).retryable) {
+          stop();
+          return;
+        }
+        delay = Math.min(maxInterval, delay * backoffFactor);
+      }
+
+      timer = setTimeout(() => void poll(), delay);
+    };
+
+    const handleVisibilityChange = () => {
+      if (waitingForVisible && !isDocumentHidden()) {
+        waitingForVisible = false;
+        void poll();
+      }
+    };
+    const watchVisibility = pauseWhenHidden && typeof document !== 'undefined';
+    if (watchVisibility) {
+      document.addEventListener('visibilitychange', handleVisibilityChange);
+    }
+
+    setIsPolling(true);
+    void poll();
+
+    return () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      if (watchVisibility) {
+        document.removeEventListener('visibilitychange', handleVisibilityChange);
+      }
+      setIsPolling(false);
+    };
+  }, [batchId, enabled, isReady, interval, maxInterval, backoffFactor, pauseWhenHidden, pollRequest]);
+
+  const refresh = useCallback(() => setPollRequest((count) => count + 1), []);
+
+  // A response of a previous batch id is not this batch's status
+  const current = data && data.data.batchId === batchId ? data : null;
+  const recipientStates = useMemo(() => deriveBulkRecipientStates(current?.data), [current]);
+
+  const getRecipientState = useCallback(
+    (email: string) => {
+      const normalized = email.trim().toLowerCase();
+      return recipientStates.find((state) => state.email.trim().toLowerCase() === normalized);
+    },
+    [recipientStates],
+  );
+
+  const isComplete = current ? isBatchComplete(current) : false;
+  const progress = current ? batchProgress(current) : 0;
+
+  const errorInfo = useMemo(() => (error ? describeError(error) : null), [error]);
+
+  return {
+    status: current?.data.status ?? null,
+    data: current,
+    progress,
+    isComplete,
+    isPolling,
+    recipientStates,
+    getRecipientState,
+    loading,
+    error,
+    errorInfo,
+    lastCheckedAt: lastCheckedAtRef.current,
+    refresh,
+  };
+}
@@ -0,0 +1,73 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { useHuefyContext } from '../context';
+import { useCountdown } from './useCountdown';
+import type { HuefyClientSelector } from '../types';
+import type { CircuitBreakerState, CircuitBreakerStatus } from '../types/circuitBreaker';
+
+export interface UseCircuitBreakerResult {
+  status: CircuitBreakerStatus;
+  /** Whether sends are currently rejected by the breaker. */
+  isOpen: boolean;
+  /** Consecutive failures counted towards the threshold. */
+  failureCount: number;
+  /** When the breaker last opened. */
+  openedAt: Date | null;
+  /** When the breaker lets the next probe request through. */
+  nextProbeAt: Date | null;
+  /** Whole seconds until `nextProbeAt`; counts down live while open. */
+  secondsUntilProbe: number;
+  /** Close the breaker mirror, e.g. after the user fixed their connection. */
+  reset: () => void;
+}
+
+const CLOSED: CircuitBreakerState = {
+  status: 'closed',
+  failureCount: 0,
+  openedAt: null,
+  nextProbeAt: null,
+};
+const subscribeNoop = () => () => {};
+const getClosed = () => CLOSED;
+
+/**
+ * Hook that reports the state of the client's circuit breaker.
+ *
+ * The provider mirrors the core breaker from the outcome of every request
+ * made through the hooks, using the `circuitBreakerConfig` thresholds.
+ * Requests made on the raw client outside the hooks are not seen.
+ *
+ * @example
+ * ```tsx
+ * function EmailStatusBanner() {
+ *   const { isOpen, secondsUntilProbe } = useCircuitBreaker();
+ *
+ *   if (!isOpen) return null;
+ *   return <div role="alert">Email is temporarily unavailable. Retrying in {secondsUntilProbe}s.</div>;
+ * }
+ * ```
+ */
+export function useCircuitBreaker(options: HuefyClientSelector = {}): UseCircuitBreakerResult {
+  const { circuitBreaker } = useHuefyContext(options.client);
+
+  const state = useSyncExternalStore(
+    circuitBreaker ? circuitBreaker.subscribe : subscribeNoop,
+    circuitBreaker ? circuitBreaker.getState : getClosed,
+    circuitBreaker ? circuitBreaker.getState : getClosed,
+  );
+
+  const { secondsLeft } = useCountdown(state.status === 'open' ? state.nextProbeAt : null);
+
+  const reset = useCallback(() => {
+    circuitBreaker?.reset();
+  }, [circuitBreaker]);
+
+  return {
+    status: state.status,
+    isOpen: state.status === 'open',
+    failureCount: state.failureCount,
+    openedAt: state.openedAt === null ? null : new Date(state.openedAt),
+    nextProbeAt: state.nextProbeAt === null ? null : new Date(state.nextProbeAt),
+    secondsUntilProbe: secondsLeft,
+    reset,
+  };
+}
@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+
+const TICK_MS = 1000;
+
+/**
+ * Internal hook: the current time, refreshed once a second until `target`
+ * (epoch milliseconds) has passed, and the whole seconds left until then.
+ */
+export function useCountdown(target: number | null) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    setNow(Date.now());
+    if (target === null || target <= Date.now()) return;
+
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= target) clearInterval(timer);
+    }, TICK_MS);
+
+    return () => clearInterval(timer);
+  }, [target]);
+
+  const secondsLeft = target === null ? 0 : Math.max(0, Math.ceil((target - now) / 1000));
+
+  return { now, secondsLeft };
+}
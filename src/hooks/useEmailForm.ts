@@ -1,92 +1,399 @@
-import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { useHuefyContext } from '../context';
+import { ClientNotReadyError, FormValidationError, describeError } from '../errors';
+import { collectPaths, getPath, isEqualValue, setPath } from '../utils/fieldPath';
+import { validateRecipient, validateRecipientList } from '../utils/recipient';
+import { validateWithSchema, type SchemaOutcome } from '../utils/schema';
+import { useHuefy } from './useHuefy';
+import { useOutboxCapture } from './useOutboxCapture';
+import type { HuefyClient } from '../types/client';
 import type {
   EmailFormData,
+  EmailFormField,
+  EmailFormFieldErrors,
+  EmailFormFieldProps,
+  EmailFormValidationResult,
   EmailData,
   EmailRecipient,
+  RecipientType,
+  SendBulkEmailsResponse,
   SendEmailResponse,
+  TemplateData,
+  TemplateKey,
   UseEmailFormOptions,
   UseEmailFormResult,
 } from '../types/email';
+import type { StandardSchemaV1 } from '../types/schema';
 
-const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-
-function defaultValidate(formData: EmailFormData): string[] | null {
-  const errors: string[] = [];
+function defaultValidate(formData: EmailFormData): EmailFormFieldErrors | null {
+  const errors: EmailFormFieldErrors = {};
   if (!formData.templateKey || formData.templateKey.trim().length === 0) {
-    errors.push('Template key is required');
+    errors.templateKey = 'Template key is required';
   }
-  const recipientError = validateRecipient(formData.recipient);
-  if (recipientError) {
-    errors.push(recipientError);
+  if (formData.recipients && formData.recipients.length > 0) {
+    Object.assign(errors, validateRecipientList(formData.recipients));
+  } else {
+    const recipientError = validateRecipient(formData.recipient);
+    if (recipientError) {
+      errors.recipient = recipientError;
+    }
   }
   if (!formData.data) {
-    errors.push('Template data is required');
+    errors.data = 'Template data is required';
   }
-  return errors.length > 0 ? errors : null;
+  return Object.keys(errors).length > 0 ? errors : null;
 }
 
-function validateRecipient(recipient: EmailFormData['recipient']): string | null {
-  if (typeof recipient === 'string') {
-    const trimmed = recipient.trim();
-    if (trimmed.length === 0) {
-      return 'Recipient email is required';
-    }
-    if (!EMAIL_REGEX.test(trimmed)) {
-      return 'Invalid email address';
-    }
-    return null;
-  }
+interface NormalizedValidation {
+  fieldErrors: EmailFormFieldErrors;
+  formErrors: string[];
+  messages: string[];
+  /** Template data as parsed by the schema. */
+  data?: EmailData;
+}
 
-  return validateRecipientObject(recipient);
+interface SyncValidation {
+  result: NormalizedValidation;
+  /** Set when the template schema validates asynchronously. */
+  schemaPromise?: Promise<NormalizedValidation>;
 }
 
-function validateRecipientObject(recipient: EmailRecipient): string | null {
-  const trimmedEmail = recipient.email.trim();
-  if (trimmedEmail.length === 0) {
-    return 'Recipient email is required';
-  }
-  if (!EMAIL_REGEX.test(trimmedEmail)) {
-    return 'Invalid email address';
+interface AsyncValidationRun {
+  formData: EmailFormData;
+  controller: AbortController;
+  promise: Promise<NormalizedValidation>;
+}
+
+/** Outcome of `asyncValidate` for one version of the form data. */
+interface SettledAsyncValidation {
+  formData: EmailFormData;
+  /** Missing when the validator threw. */
+  result?: NormalizedValidation;
+}
+
+const NO_ERRORS: NormalizedValidation = { fieldErrors: {}, formErrors: [], messages: [] };
+
+// Validators may return keyed errors or the older flat list of messages
+function normalizeValidation(result: EmailFormValidationResult | undefined): NormalizedValidation {
+  if (!result) return NO_ERRORS;
+  if (Array.isArray(result)) return { fieldErrors: {}, formErrors: result, messages: result };
+
+  const fieldErrors: EmailFormFieldErrors = {};
+  for (const [field, message] of Object.entries(result)) {
+    if (message) fieldErrors[field as EmailFormField] = message;
   }
+  return { fieldErrors, formErrors: [], messages: Object.values(fieldErrors) as string[] };
+}
+
+// Messages of `first` win when both report the same field
+function mergeValidation(
+  first: NormalizedValidation,
+  second: NormalizedValidation,
+): NormalizedValidation {
+  if (second === NO_ERRORS) return first;
+  if (first === NO_ERRORS) return second;
+  return {
+    fieldErrors: { ...second.fieldErrors, ...first.fieldErrors },
+    formErrors: [...first.formErrors, ...second.formErrors],
+    messages: [...first.messages, ...second.messages],
+    data: second.data ?? first.data,
+  };
+}
+
+function fromSchemaOutcome(outcome: SchemaOutcome<EmailData>): NormalizedValidation {
+  const fieldErrors = outcome.fieldErrors as EmailFormFieldErrors;
+  return {
+    fieldErrors,
+    formErrors: [],
+    messages: Object.values(fieldErrors) as string[],
+    data: outcome.value,
+  };
+}
+
+function selectSchema(
+  options: UseEmailFormOptions,
+  templateKey: string,
+): StandardSchemaV1<unknown, EmailData> | undefined {
+  return options.schemas?.[templateKey] ?? options.schema;
+}
+
+function toRecipient(recipient: string | EmailRecipient): EmailRecipient {
+  return typeof recipient === 'string' ? { email: recipient } : recipient;
+}
+
+function initialFormData(options: UseEmailFormOptions): EmailFormData {
+  return {
+    templateKey: options.defaultTemplate ?? '',
+    data: options.defaultData ?? {},
+    recipient: options.defaultRecipient ?? '',
+    ...(options.defaultRecipients ? { recipients: options.defaultRecipients.map(toRecipient) } : {}),
+    provider: options.defaultProvider,
+  };
+}
 
-  const normalizedType = recipient.type?.trim().toLowerCase();
-  if (normalizedType && !['to', 'cc', 'bcc'].includes(normalizedType)) {
-    return 'Recipient type must be one of: to, cc, bcc';
+// Several recipients go out as one bulk send, each with the shared data
+// overlaid by its own
+function isBulkSubmission(request: EmailFormData): request is EmailFormData & {
+  recipients: EmailRecipient[];
+} {
+  return (request.recipients?.length ?? 0) > 1;
+}
+
+/** A successful send together with the submission behind it. */
+interface SentSubmission {
+  response: SendEmailResponse | SendBulkEmailsResponse;
+  submission: EmailFormData;
+}
+
+function toInputValue(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'bigint') {
+    return String(value);
   }
+  return '';
+}
 
-  return null;
+// Change handlers receive either a DOM change event or the value itself
+function readChangeValue(eventOrValue: unknown): unknown {
+  if (typeof eventOrValue === 'object' && eventOrValue !== null && 'target' in eventOrValue) {
+    const target = (eventOrValue as { target: unknown }).target as
+      | { type?: string; value?: unknown; checked?: boolean }
+      | null;
+    if (target && typeof target === 'object') {
+      return target.type === 'checkbox' ? target.checked : target.value;
+    }
+  }
+  return eventOrValue;
 }
 
+/**
+ * Form-state hook for building email send UIs.
+ *
+ * With a `HuefyTemplates` registry, `K` narrows the template key and the
+ * shape of `formData.data`; it is inferred from `defaultTemplate` or can be
+ * passed explicitly.
+ *
+ * Submissions carry an idempotency key that survives repeated failed
+ * attempts with unchanged form data, and changes when the data changes,
+ * after a successful send, and on `reset`.
+ *
+ * When the provider has an outbox, a send that fails with a retryable error
+ * is queued for replay and exposed as `outboxItem`.
+ *
+ * Validation results are keyed by field path (`templateKey`, `recipient`,
+ * `data.firstName`, …). `getFieldError` only reports a field's error once
+ * the field was touched or a submission was attempted, and
+ * `getFieldProps` wires a controlled input to the form.
+ *
+ * `asyncValidate` runs debounced after edits that pass `validate`; an edit
+ * aborts the validation of the previous data. `sendEmail` waits for the
+ * validation of the data it is about to send; when an edit lands
+ * meanwhile, the edited data is validated and sent instead.
+ *
+ * A Standard Schema in `schema` or `schemas[templateKey]` validates
+ * `formData.data`; its issues become `data.*` field errors and its output
+ * is sent in place of the raw data.
+ *
+ * With a `recipients` list, a single entry is sent with `sendEmail` and
+ * several with `sendBulkEmails`. Each entry's `data` is merged over the
+ * form's `data`.
+ */
+export function useEmailForm<
+  K extends TemplateKey = TemplateKey,
+  TData extends TemplateData<K> = TemplateData<K>,
+>(options?: UseEmailFormOptions<K, TData>): UseEmailFormResult<K>;
 export function useEmailForm(options: UseEmailFormOptions = {}): UseEmailFormResult {
-  const { client } = useHuefyContext();
-  const abortRef = useRef(false);
+  const { client } = useHuefyContext(options.client);
 
   // Stable reference to options to avoid stale closures and dependency churn
   const optionsRef = useRef(options);
   optionsRef.current = options;
 
-  const [formData, setFormDataState] = useState<EmailFormData>({
-    templateKey: options.defaultTemplate ?? '',
-    data: options.defaultData ?? {},
-    recipient: options.defaultRecipient ?? '',
-    provider: options.defaultProvider,
-  });
+  const [formData, setFormDataState] = useState<EmailFormData>(() => initialFormData(options));
+  // Baseline for `dirty`; replaced on reset so later default changes count
+  const [initialValues, setInitialValues] = useState<EmailFormData>(formData);
+  const [touched, setTouched] = useState<Partial<Record<EmailFormField, boolean>>>({});
+  const [submitCount, setSubmitCount] = useState(0);
 
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
-  const [data, setData] = useState<SendEmailResponse | null>(null);
-  const [success, setSuccess] = useState(false);
+  // Errors raised before the request is dispatched (client missing, validation)
+  const [formError, setFormError] = useState<Error | null>(null);
 
-  useEffect(() => {
-    return () => { abortRef.current = true; };
-  }, []);
+  const asyncRunRef = useRef<AsyncValidationRun | null>(null);
+  const [settledValidation, setSettledValidation] = useState<SettledAsyncValidation | null>(null);
+
+  const { outboxItem, capture, clear: clearOutboxItem } = useOutboxCapture(options.outbox, options.client);
+
+  const {
+    execute,
+    loading,
+    error: sendError,
+    data: sent,
+    success,
+    status,
+    idempotencyKey,
+    inFlight,
+    queued,
+    cancel,
+    reset: resetAction,
+  } = useHuefy(
+    async (
+      huefyClient: HuefyClient,
+      { signal, idempotencyKey: key },
+      request: EmailFormData,
+    ): Promise<SentSubmission> => {
+      if (isBulkSubmission(request)) {
+        const recipients = request.recipients.map((recipient) => ({
+          ...recipient,
+          data: { ...request.data, ...recipient.data },
+        }));
+        const response = await huefyClient.sendBulkEmails(
+          { templateKey: request.templateKey, recipients, provider: request.provider },
+          { signal, idempotencyKey: key },
+        );
+        return { response, submission: request };
+      }
+
+      try {
+        const response = await huefyClient.sendEmail(request, { signal, idempotencyKey: key });
+        return { response, submission: request };
+      } catch (err) {
+        if (!signal.aborted) await capture(request, err, key);
+        throw err;
+      }
+    },
+    {
+      onSuccess: ({ response, submission }) => {
+        if (isBulkSubmission(submission)) {
+          optionsRef.current.onBulkSuccess?.(response as SendBulkEmailsResponse, submission);
+        } else {
+          optionsRef.current.onSuccess?.(response as SendEmailResponse, submission);
+        }
+      },
+      onError: (err) => optionsRef.current.onError?.(err),
+      idempotencyKey: options.idempotencyKey,
+      concurrency: options.concurrency,
+      blockWhenRateLimited: options.blockWhenRateLimited,
+      client: options.client,
+      withContext: true,
+    },
+  );
 
-  const validationErrors = useMemo(() => {
+  const syncValidation = useMemo((): SyncValidation => {
     const validate = optionsRef.current.validate ?? defaultValidate;
-    return validate(formData) ?? [];
+    const result = normalizeValidation(validate(formData));
+    const schema = selectSchema(optionsRef.current, formData.templateKey);
+    if (!schema) return { result };
+
+    const outcome = validateWithSchema(schema, formData.data, 'data');
+    if (!(outcome instanceof Promise)) {
+      return { result: mergeValidation(result, fromSchemaOutcome(outcome)) };
+    }
+    const schemaPromise = outcome.then(fromSchemaOutcome);
+    // Awaited by the async validation run, which reports failures
+    schemaPromise.catch(() => undefined);
+    return { result, schemaPromise };
   }, [formData]);
-  const isValid = validationErrors.length === 0;
+  const { result: syncResult, schemaPromise } = syncValidation;
+
+  const hasAsyncValidate = Boolean(options.asyncValidate) || schemaPromise !== undefined;
+  const asyncDebounceMs = options.asyncValidateDebounceMs ?? 300;
+  const syncValid = syncResult.messages.length === 0;
+  const isValidating =
+    hasAsyncValidate && syncValid && settledValidation?.formData !== formData;
+
+  const validation = useMemo(
+    (): NormalizedValidation =>
+      settledValidation?.formData === formData
+        ? mergeValidation(syncResult, settledValidation.result ?? NO_ERRORS)
+        : syncResult,
+    [formData, syncResult, settledValidation],
+  );
+  const { fieldErrors, formErrors, messages: validationErrors } = validation;
+  const isValid = validationErrors.length === 0 && !isValidating;
+
+  // Data of the latest render, for a send whose validation an edit superseded
+  const latestRef = useRef({ formData, syncResult, schemaPromise, settledValidation });
+  latestRef.current = { formData, syncResult, schemaPromise, settledValidation };
+  // Bumped by `reset`, which cancels sends still waiting for validation
+  const resetCountRef = useRef(0);
+
+  const abortAsyncValidation = useCallback(() => {
+    asyncRunRef.current?.controller.abort();
+    asyncRunRef.current = null;
+  }, []);
+
+  // Shares the run already in flight for the same data with `sendEmail`
+  const runAsyncValidation = useCallback(
+    (target: EmailFormData, targetSchemaPromise?: Promise<NormalizedValidation>): AsyncValidationRun => {
+      const current = asyncRunRef.current;
+      if (current && current.formData === target) return current;
+      current?.controller.abort();
+
+      const controller = new AbortController();
+      const asyncValidate = optionsRef.current.asyncValidate;
+      const promise = Promise.all([
+        targetSchemaPromise ?? NO_ERRORS,
+        Promise.resolve()
+          .then(() => asyncValidate?.(target, { signal: controller.signal }) ?? null)
+          .then(normalizeValidation),
+      ])
+        .then(([schemaResult, customResult]) => mergeValidation(schemaResult, customResult))
+        .then(
+          (result) => {
+            if (!controller.signal.aborted) setSettledValidation({ formData: target, result });
+            return result;
+          },
+          (err: unknown) => {
+            if (!controller.signal.aborted) setSettledValidation({ formData: target });
+            throw err;
+          },
+        )
+        .finally(() => {
+          if (asyncRunRef.current?.controller === controller) asyncRunRef.current = null;
+        });
+
+      const run = { formData: target, controller, promise };
+      asyncRunRef.current = run;
+      return run;
+    },
+    [],
+  );
+
+  useEffect(() => {
+    if (asyncRunRef.current && asyncRunRef.current.formData !== formData) {
+      abortAsyncValidation();
+    }
+    if (!hasAsyncValidate || !syncValid || settledValidation?.formData === formData) return;
+
+    const timer = setTimeout(() => {
+      // Failures surface when sending
+      runAsyncValidation(formData, schemaPromise).promise.catch(() => undefined);
+    }, asyncDebounceMs);
+    return () => clearTimeout(timer);
+  }, [
+    formData,
+    schemaPromise,
+    settledValidation,
+    hasAsyncValidate,
+    syncValid,
+    asyncDebounceMs,
+    abortAsyncValidation,
+    runAsyncValidation,
+  ]);
+
+  useEffect(() => abortAsyncValidation, [abortAsyncValidation]);
+
+  const dirty = useMemo(() => {
+    const paths = new Set([...collectPaths(formData), ...collectPaths(initialValues)]);
+    const result: Partial<Record<EmailFormField, boolean>> = {};
+    for (const path of paths) {
+      if (!isEqualValue(getPath(formData, path), getPath(initialValues, path))) {
+        result[path as EmailFormField] = true;
+      }
+    }
+    return result;
+  }, [formData, initialValues]);
+  const isDirty = Object.keys(dirty).length > 0;
 
   const setFormData = useCallback((partial: Partial<EmailFormData>) => {
     setFormDataState((prev) => ({ ...prev, ...partial }));
@@ -96,79 +403,195 @@ export function useEmailForm(options: UseEmailFormOptions = {}): UseEmailFormRes
     setFormDataState((prev) => ({ ...prev, data: newData }));
   }, []);
 
-  const sendEmail = useCallback(async (): Promise<SendEmailResponse | undefined> => {
+  const setFieldValue = useCallback((name: EmailFormField, value: unknown) => {
+    setFormDataState((prev) => setPath(prev, name, value));
+  }, []);
+
+  const addRecipient = useCallback((recipient: string | EmailRecipient) => {
+    setFormDataState((prev) => ({
+      ...prev,
+      recipients: [...(prev.recipients ?? []), toRecipient(recipient)],
+    }));
+  }, []);
+
+  const removeRecipient = useCallback((index: number) => {
+    setFormDataState((prev) => ({
+      ...prev,
+      recipients: (prev.recipients ?? []).filter((_, current) => current !== index),
+    }));
+  }, []);
+
+  const updateRecipient = useCallback((index: number, patch: Partial<EmailRecipient>) => {
+    setFormDataState((prev) => ({
+      ...prev,
+      recipients: (prev.recipients ?? []).map((recipient, current) =>
+        current === index ? { ...recipient, ...patch } : recipient,
+      ),
+    }));
+  }, []);
+
+  const setRecipientType = useCallback(
+    (index: number, type: RecipientType) => updateRecipient(index, { type }),
+    [updateRecipient],
+  );
+
+  const setFieldTouched = useCallback((name: EmailFormField, isTouched = true) => {
+    setTouched((prev) => (prev[name] === isTouched ? prev : { ...prev, [name]: isTouched }));
+  }, []);
+
+  const getFieldError = useCallback(
+    (name: EmailFormField): string | undefined =>
+      touched[name] || submitCount > 0 ? fieldErrors[name] : undefined,
+    [touched, submitCount, fieldErrors],
+  );
+
+  const getFieldProps = useCallback(
+    (name: EmailFormField): EmailFormFieldProps => ({
+      name,
+      value: toInputValue(getPath(formData, name)),
+      onChange: (eventOrValue) => setFieldValue(name, readChangeValue(eventOrValue)),
+      onBlur: () => setFieldTouched(name),
+      'aria-invalid': getFieldError(name) !== undefined,
+    }),
+    [formData, getFieldError, setFieldValue, setFieldTouched],
+  );
+
+  const sendEmail = useCallback(async (): Promise<
+    SendEmailResponse | SendBulkEmailsResponse | undefined
+  > => {
+    setSubmitCount((count) => count + 1);
+
     if (!client) {
-      const clientError = new Error(
+      const clientError = new ClientNotReadyError(
         'Huefy client is not initialized. Ensure the HuefyProvider has finished loading before sending emails.',
       );
-      setError(clientError);
+      setFormError(clientError);
       optionsRef.current.onError?.(clientError);
       return undefined;
     }
 
-    const validate = optionsRef.current.validate ?? defaultValidate;
-    const errors = validate(formData);
-    if (errors && errors.length > 0) {
-      const validationError = new Error(`Validation failed: ${errors.join(', ')}`);
-      setError(validationError);
-      optionsRef.current.onError?.(validationError);
-      return undefined;
-    }
+    const resetCount = resetCountRef.current;
+    let target = latestRef.current;
+    let result = target.syncResult;
 
-    setLoading(true);
-    setError(null);
-    setSuccess(false);
-    optionsRef.current.onSending?.();
+    while (
+      result.messages.length === 0 &&
+      (optionsRef.current.asyncValidate || target.schemaPromise)
+    ) {
+      const { settledValidation: settled } = target;
+      if (settled?.formData === target.formData && settled.result) {
+        result = mergeValidation(result, settled.result);
+        break;
+      }
+
+      const run = runAsyncValidation(target.formData, target.schemaPromise);
+      let outcome: NormalizedValidation | undefined;
+      let validatorError: Error | undefined;
+      try {
+        outcome = await run.promise;
+      } catch (err) {
+        validatorError = err instanceof Error ? err : new Error(String(err));
+      }
 
-    try {
-      const response = await client.sendEmail({
-        templateKey: formData.templateKey,
-        data: formData.data,
-        recipient: formData.recipient,
-        provider: formData.provider,
-      });
-      if (!abortRef.current) {
-        setData(response);
-        setSuccess(true);
-        setLoading(false);
-        optionsRef.current.onSuccess?.(response);
+      if (run.controller.signal.aborted) {
+        // Cancelled by `reset` or unmount
+        if (resetCountRef.current !== resetCount || latestRef.current.formData === target.formData) {
+          return undefined;
+        }
+        // Superseded by an edit: validate and send the edited data instead
+        target = latestRef.current;
+        result = target.syncResult;
+        continue;
       }
-      return response;
-    } catch (err) {
-      const sendError = err instanceof Error ? err : new Error(String(err));
-      if (!abortRef.current) {
-        setError(sendError);
-        setLoading(false);
-        optionsRef.current.onError?.(sendError);
+      if (validatorError) {
+        setFormError(validatorError);
+        optionsRef.current.onError?.(validatorError);
+        return undefined;
       }
+      result = mergeValidation(result, outcome ?? NO_ERRORS);
+      break;
+    }
+
+    if (result.messages.length > 0) {
+      const validationError = new FormValidationError(result.messages, result.fieldErrors);
+      setFormError(validationError);
+      optionsRef.current.onError?.(validationError);
       return undefined;
     }
-  }, [client, formData]);
 
-  const reset = useCallback(() => {
-    setFormDataState({
-      templateKey: optionsRef.current.defaultTemplate ?? '',
-      data: optionsRef.current.defaultData ?? {},
-      recipient: optionsRef.current.defaultRecipient ?? '',
-      provider: optionsRef.current.defaultProvider,
+    setFormError(null);
+    clearOutboxItem();
+    optionsRef.current.onSending?.();
+
+    const { formData: sending } = target;
+    const recipients = sending.recipients ?? [];
+    const sentSubmission = await execute({
+      templateKey: sending.templateKey,
+      data: result.data ?? sending.data,
+      recipient: recipients.length === 1 ? recipients[0] : sending.recipient,
+      ...(recipients.length > 1 ? { recipients } : {}),
+      provider: sending.provider,
     });
-    setLoading(false);
-    setError(null);
-    setData(null);
-    setSuccess(false);
-  }, []);
+    return sentSubmission?.response;
+  }, [client, runAsyncValidation, clearOutboxItem, execute]);
+
+  const reset = useCallback(() => {
+    const initial = initialFormData(optionsRef.current);
+    setFormDataState(initial);
+    setInitialValues(initial);
+    setTouched({});
+    setSubmitCount(0);
+    resetCountRef.current += 1;
+    abortAsyncValidation();
+    setSettledValidation(null);
+    setFormError(null);
+    clearOutboxItem();
+    resetAction();
+  }, [abortAsyncValidation, clearOutboxItem, resetAction]);
+
+  // Bulk and single responses are told apart by the submission behind them
+  const isBulkResponse = sent ? isBulkSubmission(sent.submission) : false;
+  const response = sent?.response ?? null;
+  const data = isBulkResponse ? null : (response as SendEmailResponse | null);
+  const bulkData = isBulkResponse ? (response as SendBulkEmailsResponse | null) : null;
+
+  const error = formError ?? sendError;
+  const errorInfo = useMemo(() => (error ? describeError(error) : null), [error]);
 
   return {
     formData,
     setFormData,
     setTemplateData,
     sendEmail,
+    cancel,
     reset,
     loading,
     error,
+    errorInfo,
     data,
-    success,
+    bulkData,
+    success: !formError && success,
+    status: formError ? 'error' : status,
+    outboxItem,
+    idempotencyKey,
+    inFlight,
+    queued,
     validationErrors,
+    fieldErrors,
+    formErrors,
     isValid,
+    isValidating,
+    touched,
+    dirty,
+    isDirty,
+    submitCount,
+    getFieldError,
+    getFieldProps,
+    setFieldValue,
+    setFieldTouched,
+    addRecipient,
+    removeRecipient,
+    updateRecipient,
+    setRecipientType,
   };
 }
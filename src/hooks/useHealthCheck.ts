@@ -0,0 +1,135 @@
+import { useEffect, useRef } from 'react';
+import { useHuefyContext } from '../context';
+import { useHuefy } from './useHuefy';
+import type { HuefyClient } from '../types/client';
+import type { HealthCheckResponse } from '../types/email';
+
+export interface UseHealthCheckOptions {
+  /** Run the health check at all. Defaults to `true`. */
+  enabled?: boolean;
+  /** Poll interval in milliseconds. Without it the check runs once on mount. */
+  interval?: number;
+  /**
+   * Skip polls while the document is hidden and check again as soon as it
+   * becomes visible. Defaults to `true`.
+   */
+  pauseWhenHidden?: boolean;
+  onSuccess?: (response: HealthCheckResponse) => void;
+  onError?: (error: Error) => void;
+  /** Name of the `HuefyProvider` to check. Defaults to the unnamed provider. */
+  client?: string;
+}
+
+export interface UseHealthCheckResult {
+  /**
+   * Status reported by the API (e.g. `'healthy'`), `'unreachable'` when the
+   * last check failed, or null before the first check.
+   */
+  status: string | null;
+  /** API version reported by the last successful check. */
+  version: string | null;
+  /** Server timestamp of the last successful check. */
+  timestamp: string | null;
+  /** Whether the last check succeeded and reported a healthy status. */
+  healthy: boolean;
+  /** When the last check settled, successfully or not. */
+  lastCheckedAt: Date | null;
+  loading: boolean;
+  error: Error | null;
+  data: HealthCheckResponse | null;
+  /** Run a check immediately. */
+  check: () => Promise<HealthCheckResponse | undefined>;
+}
+
+function isDocumentHidden(): boolean {
+  return typeof document !== 'undefined' && document.visibilityState === 'hidden';
+}
+
+/**
+ * Hook that reports the health of the Huefy API, optionally polling it.
+ *
+ * The first check runs as soon as the client is ready. With `interval` set,
+ * the check repeats on that interval; by default polls are skipped while the
+ * page is hidden and a fresh check runs when it becomes visible again.
+ *
+ * @example
+ * ```tsx
+ * function ApiStatus() {
+ *   const { healthy, status, version, loading } = useHealthCheck({ interval: 60_000 });
+ *
+ *   if (loading && !status) return <span>Checking…</span>;
+ *   return <span>{healthy ? `API ${version} is up` : `API is ${status ?? 'unreachable'}`}</span>;
+ * }
+ * ```
+ */
+export function useHealthCheck(options: UseHealthCheckOptions = {}): UseHealthCheckResult {
+  const { enabled = true, interval, pauseWhenHidden = true } = options;
+  const { isReady } = useHuefyContext(options.client);
+  const lastCheckedAtRef = useRef<Date | null>(null);
+
+  const { execute, loading, error, data } = useHuefy(
+    (client: HuefyClient, { signal }): Promise<HealthCheckResponse> =>
+      client.healthCheck({ signal }),
+    {
+      onSuccess: (response) => {
+        lastCheckedAtRef.current = new Date();
+        options.onSuccess?.(response);
+      },
+      onError: (err) => {
+        lastCheckedAtRef.current = new Date();
+        options.onError?.(err);
+      },
+      client: options.client,
+      withContext: true,
+    },
+  );
+
+  const check = execute;
+
+  // Stable reference so the polling effect does not restart on every render
+  const checkRef = useRef(check);
+  checkRef.current = check;
+
+  useEffect(() => {
+    if (!enabled || !isReady) return;
+
+    checkRef.current();
+
+    const timer =
+      interval && interval > 0
+        ? setInterval(() => {
+            if (pauseWhenHidden && isDocumentHidden()) return;
+            checkRef.current();
+          }, interval)
+        : undefined;
+
+    const handleVisibilityChange = () => {
+      if (!isDocumentHidden()) checkRef.current();
+    };
+    const watchVisibility = Boolean(timer) && pauseWhenHidden && typeof document !== 'undefined';
+    if (watchVisibility) {
+      document.addEventListener('visibilitychange', handleVisibilityChange);
+    }
+
+    return () => {
+      if (timer) clearInterval(timer);
+      if (watchVisibility) {
+        document.removeEventListener('visibilitychange', handleVisibilityChange);
+      }
+    };
+  }, [enabled, isReady, interval, pauseWhenHidden]);
+
+  const status = data?.data.status ?? null;
+
+  return {
+    status: error ? 'unreachable' : status,
+    version: data?.data.version ?? null,
+    timestamp: data?.data.timestamp ?? null,
+    healthy: !error && status?.toLowerCase() === 'healthy',
+    lastCheckedAt: lastCheckedAtRef.current,
+    loading,
+    error,
+    data,
+    check,
+  };
+}
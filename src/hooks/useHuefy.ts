@@ -1,7 +1,24 @@
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import type { HuefyEmailClient } from '@teracrafts/huefy';
 import { useHuefyContext } from '../context';
-import type { UseHuefyOptions, UseHuefyResult } from '../types';
+import { ClientNotReadyError, RateLimitBlockedError, describeError } from '../errors';
+import { fingerprint } from '../utils/fingerprint';
+import { createId } from '../utils/id';
+import { isRateLimited } from '../utils/rateLimit';
+import type {
+  HuefyAction,
+  HuefyActionStatus,
+  HuefyConcurrencyMode,
+  HuefyContextAction,
+  UseHuefyOptions,
+  UseHuefyResult,
+} from '../types';
+
+function isAbortError(err: unknown): boolean {
+  return (
+    (err instanceof DOMException || err instanceof Error) && err.name === 'AbortError'
+  );
+}
 
 /**
  * Generic action hook for executing async operations with the Huefy client.
@@ -9,8 +26,47 @@ import type { UseHuefyOptions, UseHuefyResult } from '../types';
  * Manages loading, error, and success states automatically. Handles cleanup
  * on unmount to prevent state updates on unmounted components.
  *
+ * Each execution gets its own `AbortSignal`. It is aborted when the
+ * execution is cancelled, replaced by a newer one, reset, or the component
+ * unmounts; the result of an aborted execution is discarded. With
+ * `withContext: true` the action receives the signal, together with the
+ * idempotency key, as its second argument, so it can cancel the request
+ * itself; otherwise it is called with the client and the `execute`
+ * arguments only.
+ *
+ * By default a new `execute` call replaces the running one. The
+ * `concurrency` option can instead ignore calls while one is pending, queue
+ * them, or run them in parallel; `inFlight` and `queued` report the counts.
+ * In the `parallel` mode `data` and `error` reflect the execution that
+ * settled last.
+ *
+ * Besides the raw `error`, the result carries `errorInfo`: its kind, code,
+ * retryability, retry-after delay, correlation id and related field.
+ *
+ * When the provider runs in `suspense` mode, the hook suspends until the
+ * client is initialized and throws an initialization error to the nearest
+ * error boundary, so `execute` always finds a ready client.
+ *
+ * With `blockWhenRateLimited`, an execution fails fast with a
+ * `RateLimitBlockedError` while the provider's last rate-limit update
+ * reports no remaining requests.
+ *
+ * The execution context also carries an idempotency key for the logical
+ * submission. Repeating a failed or cancelled execution with the same
+ * arguments reuses the key, so the backend can deduplicate double submits
+ * and retries; different arguments are a new submission and get a new key.
+ * It is also regenerated after a success and on `reset`, unless a fixed key
+ * is passed in the options. In the `queue` and `parallel` modes each call is
+ * a separate submission and gets its own key.
+ *
+ * The argument types of `execute` are inferred from the parameters the
+ * action function declares after the client, or after the context.
+ *
  * @template T - The expected return type of the action function.
- * @param actionFn - An async function that receives the client and returns data.
+ * @template TArgs - The argument tuple accepted by `execute`.
+ * @param actionFn - An async function that receives the client, the
+ * execution context when `withContext` is set, and the arguments passed to
+ * `execute`.
  * @param options - Optional callbacks for success and error handling.
  * @returns An object containing state and control functions.
  *
@@ -19,38 +75,72 @@ import type { UseHuefyOptions, UseHuefyResult } from '../types';
  * import { useHuefy } from '@teracrafts/huefy-react';
  *
  * function SendButton() {
- *   const { execute, loading, error, success, data } = useHuefy<ResponseType>(
- *     async (client, ...args) => {
- *       return await client.someAction(...args);
+ *   const { execute, cancel, loading, error, success, data } = useHuefy(
+ *     async (client, { signal }, email: string) => {
+ *       return await client.someAction(email, { signal });
  *     },
  *     {
+ *       withContext: true,
  *       onSuccess: (data) => console.log('Done:', data),
  *       onError: (err) => console.error('Failed:', err),
  *     }
  *   );
  *
  *   return (
- *     <button onClick={() => execute()} disabled={loading}>
+ *     <button onClick={() => execute('alice@example.com')} disabled={loading}>
  *       {loading ? 'Sending...' : 'Send'}
  *     </button>
  *   );
  * }
  * ```
  */
-export function useHuefy<T = unknown>(
-  actionFn: (client: HuefyEmailClient, ...args: unknown[]) => Promise<T>,
+export function useHuefy<
+  T = unknown,
+  TArgs extends unknown[] = unknown[],
+  TClient = HuefyEmailClient,
+>(
+  actionFn: HuefyContextAction<T, TArgs, TClient>,
+  options: UseHuefyOptions<T> & { withContext: true },
+): UseHuefyResult<T, TArgs>;
+export function useHuefy<
+  T = unknown,
+  TArgs extends unknown[] = unknown[],
+  TClient = HuefyEmailClient,
+>(
+  actionFn: HuefyAction<T, TArgs, TClient>,
+  options?: UseHuefyOptions<T> & { withContext?: false },
+): UseHuefyResult<T, TArgs>;
+export function useHuefy<T = unknown, TArgs extends unknown[] = unknown[], TClient = HuefyEmailClient>(
+  actionFn: HuefyAction<T, TArgs, TClient> | HuefyContextAction<T, TArgs, TClient>,
   options: UseHuefyOptions<T> = {},
-): UseHuefyResult<T> {
-  const { client, isReady } = useHuefyContext();
+): UseHuefyResult<T, TArgs> {
+  const { client, isReady, rateLimit, circuitBreaker, suspense, ready, error: initError } =
+    useHuefyContext(options.client);
+
+  // In suspense mode nothing renders until the client is ready
+  if (suspense && !isReady) {
+    if (initError) throw initError;
+    if (ready) throw ready;
+  }
 
   const [data, setData] = useState<T | null>(null);
   const [error, setError] = useState<Error | null>(null);
-  const [loading, setLoading] = useState(false);
-  const [success, setSuccess] = useState(false);
+  const [status, setStatus] = useState<HuefyActionStatus>('idle');
+  const [generatedKey, setGeneratedKey] = useState(createId);
+  const [inFlight, setInFlight] = useState(0);
+  const [queued, setQueued] = useState(0);
 
   // Track mounted state to prevent updates after unmount
   const mountedRef = useRef(true);
-  const abortControllerRef = useRef<AbortController | null>(null);
+  const generatedKeyRef = useRef(generatedKey);
+  // Arguments the generated key was last sent with, if it was
+  const keyPayloadRef = useRef<string | null | undefined>(undefined);
+
+  // Running executions, and the tail of the `queue` mode chain
+  const activeRef = useRef(new Set<AbortController>());
+  const queueTailRef = useRef<Promise<unknown>>(Promise.resolve());
+  // Resolvers of calls waiting in the queue; calling one drops the call
+  const queuedRef = useRef(new Set<() => void>());
 
   // Stable references to callbacks
   const optionsRef = useRef(options);
@@ -60,87 +150,234 @@ export function useHuefy<T = unknown>(
   const actionFnRef = useRef(actionFn);
   actionFnRef.current = actionFn;
 
+  // Latest rate-limit update, read when an execution starts
+  const rateLimitRef = useRef(rateLimit);
+  rateLimitRef.current = rateLimit;
+
+  // Outcomes are reported to the provider's circuit breaker mirror
+  const circuitBreakerRef = useRef(circuitBreaker);
+  circuitBreakerRef.current = circuitBreaker;
+
+  const rotateKey = useCallback(() => {
+    keyPayloadRef.current = undefined;
+    generatedKeyRef.current = createId();
+    setGeneratedKey(generatedKeyRef.current);
+  }, []);
+
+  const syncCounts = useCallback(() => {
+    if (!mountedRef.current) return;
+    setInFlight(activeRef.current.size);
+    setQueued(queuedRef.current.size);
+  }, []);
+
+  /**
+   * Abort every running execution and drop queued ones.
+   */
+  const abortAll = useCallback(() => {
+    activeRef.current.forEach((controller) => controller.abort());
+    activeRef.current.clear();
+    queuedRef.current.forEach((drop) => drop());
+    queuedRef.current.clear();
+    queueTailRef.current = Promise.resolve();
+  }, []);
+
   // Set up unmount cleanup
   useEffect(() => {
     mountedRef.current = true;
     return () => {
       mountedRef.current = false;
-      abortControllerRef.current?.abort();
+      abortAll();
     };
-  }, []);
+  }, [abortAll]);
 
-  /**
-   * Execute the action with optional arguments.
-   */
-  const execute = useCallback(
-    async (...args: unknown[]): Promise<T | undefined> => {
-      if (!client || !isReady) {
-        const notReadyError = new Error(
-          'Huefy client is not ready. Ensure the component is wrapped in a HuefyProvider.',
-        );
-        setError(notReadyError);
-        optionsRef.current.onError?.(notReadyError);
-        return undefined;
-      }
+  const run = useCallback(
+    async (huefyClient: TClient, mode: HuefyConcurrencyMode, args: TArgs) => {
+      const controller = new AbortController();
+      activeRef.current.add(controller);
 
-      // Abort any in-flight request
-      abortControllerRef.current?.abort();
-      abortControllerRef.current = new AbortController();
-
-      setLoading(true);
+      setStatus('loading');
       setError(null);
-      setSuccess(false);
+      syncCounts();
+
+      const fixedKey = optionsRef.current.idempotencyKey;
+      const sharesKey = mode === 'replace' || mode === 'ignore-while-pending';
+      if (sharesKey && !fixedKey) {
+        // Only a repeat of the same payload is the same submission
+        const payload = fingerprint(args);
+        const usedFor = keyPayloadRef.current;
+        if (usedFor !== undefined && (payload === null || payload !== usedFor)) {
+          rotateKey();
+        }
+        keyPayloadRef.current = payload;
+      }
+      const idempotencyKey = fixedKey ?? (sharesKey ? generatedKeyRef.current : createId());
+
+      // Other executions still running once this one settles
+      const othersRunning = () => activeRef.current.size > 1;
 
       try {
-        const result = await actionFnRef.current(client, ...args);
+        // The overloads tie the shape of the action to `withContext`
+        const result = await (optionsRef.current.withContext
+          ? (actionFnRef.current as HuefyContextAction<T, TArgs, TClient>)(
+              huefyClient,
+              { signal: controller.signal, idempotencyKey },
+              ...args,
+            )
+          : (actionFnRef.current as HuefyAction<T, TArgs, TClient>)(huefyClient, ...args));
+        circuitBreakerRef.current?.recordSuccess();
+
+        // Discard results of cancelled or superseded executions
+        if (controller.signal.aborted) {
+          return undefined;
+        }
+
+        // The next execution is a new logical submission
+        if (generatedKeyRef.current === idempotencyKey) {
+          rotateKey();
+        }
 
         if (mountedRef.current) {
           setData(result);
-          setLoading(false);
-          setSuccess(true);
+          setStatus(othersRunning() ? 'loading' : 'success');
           optionsRef.current.onSuccess?.(result);
         }
 
         return result;
       } catch (err) {
         // Ignore abort errors
-        if (err instanceof DOMException && err.name === 'AbortError') {
+        if (controller.signal.aborted || isAbortError(err)) {
           return undefined;
         }
+        circuitBreakerRef.current?.recordFailure(err);
 
         const actionError =
           err instanceof Error ? err : new Error('An unexpected error occurred');
 
         if (mountedRef.current) {
           setError(actionError);
-          setLoading(false);
-          setSuccess(false);
+          setStatus(othersRunning() ? 'loading' : 'error');
           optionsRef.current.onError?.(actionError);
         }
 
         return undefined;
+      } finally {
+        activeRef.current.delete(controller);
+        syncCounts();
+      }
+    },
+    [rotateKey, syncCounts],
+  );
+
+  /**
+   * Execute the action with optional arguments.
+   */
+  const execute = useCallback(
+    async (...args: TArgs): Promise<T | undefined> => {
+      const failEarly = (earlyError: Error) => {
+        setError(earlyError);
+        setStatus('error');
+        optionsRef.current.onError?.(earlyError);
+        return undefined;
+      };
+
+      if (!client || !isReady) {
+        return failEarly(
+          new ClientNotReadyError(
+            'Huefy client is not ready. Ensure the component is wrapped in a HuefyProvider.',
+          ),
+        );
       }
+      // The action declares which client it expects; a custom or proxy client
+      // passed to the provider only implements the `HuefyClient` methods
+      const actionClient = client as unknown as TClient;
+
+      const currentRateLimit = rateLimitRef.current;
+      if (optionsRef.current.blockWhenRateLimited && isRateLimited(currentRateLimit)) {
+        return failEarly(
+          new RateLimitBlockedError(new Date(currentRateLimit.resetAt), currentRateLimit.limit),
+        );
+      }
+
+      const mode = optionsRef.current.concurrency ?? 'replace';
+      const busy = activeRef.current.size > 0 || queuedRef.current.size > 0;
+
+      switch (mode) {
+        case 'ignore-while-pending':
+          if (busy) return undefined;
+          break;
+        case 'replace':
+          // Abort any in-flight request
+          activeRef.current.forEach((controller) => controller.abort());
+          activeRef.current.clear();
+          break;
+        case 'queue': {
+          if (!busy) {
+            const running = run(actionClient, mode, args);
+            queueTailRef.current = running;
+            return running;
+          }
+
+          const previous = queueTailRef.current;
+          const turn = new Promise<T | undefined>((resolve) => {
+            const drop = () => resolve(undefined);
+            queuedRef.current.add(drop);
+
+            void previous.then(() => {
+              // Dropped by cancel, reset or unmount while waiting
+              if (!queuedRef.current.delete(drop)) return;
+              resolve(run(actionClient, mode, args));
+            });
+          });
+          queueTailRef.current = turn;
+          syncCounts();
+          return turn;
+        }
+        case 'parallel':
+          break;
+      }
+
+      return run(actionClient, mode, args);
     },
-    [client, isReady],
+    [client, isReady, run, syncCounts],
   );
 
+  /**
+   * Abort running executions and drop queued ones.
+   */
+  const cancel = useCallback(() => {
+    if (activeRef.current.size === 0 && queuedRef.current.size === 0) return;
+
+    abortAll();
+    syncCounts();
+    setStatus('cancelled');
+  }, [abortAll, syncCounts]);
+
   /**
    * Reset the hook state to its initial values.
    */
   const reset = useCallback(() => {
-    abortControllerRef.current?.abort();
+    abortAll();
+    syncCounts();
     setData(null);
     setError(null);
-    setLoading(false);
-    setSuccess(false);
-  }, []);
+    setStatus('idle');
+    rotateKey();
+  }, [abortAll, rotateKey, syncCounts]);
+
+  const errorInfo = useMemo(() => (error ? describeError(error) : null), [error]);
 
   return {
     data,
     error,
-    loading,
-    success,
+    errorInfo,
+    loading: status === 'loading',
+    success: status === 'success',
+    status,
+    idempotencyKey: options.idempotencyKey ?? generatedKey,
+    inFlight,
+    queued,
     execute,
+    cancel,
     reset,
   };
 }
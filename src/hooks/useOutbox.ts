@@ -0,0 +1,71 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { useHuefyContext } from '../context';
+import type { HuefyClientSelector } from '../types';
+import type { OutboxItem } from '../types/outbox';
+
+export interface UseOutboxResult {
+  /** Every queued send, in the order it was queued. */
+  items: OutboxItem[];
+  /** Items waiting for, or in the middle of, a replay attempt. */
+  pending: OutboxItem[];
+  /** Items that gave up and need a manual `retry` or `discard`. */
+  failed: OutboxItem[];
+  /** Reset an item's attempts and send it again now. */
+  retry: (id: string) => Promise<void>;
+  /** Remove an item without sending it. */
+  discard: (id: string) => Promise<void>;
+  /** Retry every failed item. */
+  retryAll: () => Promise<void>;
+  /** Replay every pending item that is due now. */
+  replay: () => Promise<void>;
+}
+
+/**
+ * Hook for inspecting and managing the provider's offline outbox.
+ *
+ * Requires `<HuefyProvider outbox>`; throws otherwise.
+ *
+ * @example
+ * ```tsx
+ * function OutboxBanner() {
+ *   const { pending, failed, retryAll } = useOutbox();
+ *
+ *   if (failed.length > 0) {
+ *     return <button onClick={retryAll}>{failed.length} emails failed — retry</button>;
+ *   }
+ *   return pending.length > 0 ? <span>{pending.length} emails waiting to send</span> : null;
+ * }
+ * ```
+ */
+export function useOutbox(options: HuefyClientSelector = {}): UseOutboxResult {
+  const { outbox } = useHuefyContext(options.client);
+  if (!outbox) {
+    throw new Error('useOutbox requires the outbox to be enabled on HuefyProvider');
+  }
+
+  const items = useSyncExternalStore(outbox.subscribe, outbox.getItems, outbox.getItems);
+
+  const { pending, failed } = useMemo(
+    () => ({
+      pending: items.filter((item) => item.status !== 'failed'),
+      failed: items.filter((item) => item.status === 'failed'),
+    }),
+    [items],
+  );
+
+  const retryAll = useCallback(async () => {
+    for (const item of outbox.getItems()) {
+      if (item.status === 'failed') await outbox.retry(item.id);
+    }
+  }, [outbox]);
+
+  return {
+    items,
+    pending,
+    failed,
+    retry: outbox.retry,
+    discard: outbox.discard,
+    retryAll,
+    replay: outbox.replay,
+  };
+}
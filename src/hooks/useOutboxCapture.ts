@@ -0,0 +1,39 @@
+import { useCallback, useState, useSyncExternalStore } from 'react';
+import { useHuefyContext } from '../context';
+import type { SendEmailRequest } from '../types/email';
+import type { OutboxItem } from '../types/outbox';
+
+const NO_ITEMS: OutboxItem[] = [];
+const subscribeNoop = () => () => {};
+const getNoItems = () => NO_ITEMS;
+
+/**
+ * Internal hook shared by the send hooks: queues a failed request in the
+ * provider's outbox and tracks the resulting item until it leaves the outbox.
+ */
+export function useOutboxCapture(enabled = true, clientName?: string) {
+  const { outbox } = useHuefyContext(clientName);
+  const activeOutbox = enabled ? outbox ?? null : null;
+  const [itemId, setItemId] = useState<string | null>(null);
+
+  const items = useSyncExternalStore(
+    activeOutbox ? activeOutbox.subscribe : subscribeNoop,
+    activeOutbox ? activeOutbox.getItems : getNoItems,
+    activeOutbox ? activeOutbox.getItems : getNoItems,
+  );
+
+  const capture = useCallback(
+    async (request: SendEmailRequest, error: unknown, idempotencyKey?: string) => {
+      if (!activeOutbox) return;
+      const item = await activeOutbox.capture(request, error, idempotencyKey);
+      if (item) setItemId(item.id);
+    },
+    [activeOutbox],
+  );
+
+  const clear = useCallback(() => setItemId(null), []);
+
+  const outboxItem = itemId ? items.find((item) => item.id === itemId) ?? null : null;
+
+  return { outboxItem, capture, clear };
+}
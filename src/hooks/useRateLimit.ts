@@ -0,0 +1,58 @@
+import type { RateLimitInfo } from '@teracrafts/huefy';
+import { useHuefyContext } from '../context';
+import { isRateLimited } from '../utils/rateLimit';
+import { useCountdown } from './useCountdown';
+import type { HuefyClientSelector } from '../types';
+
+export interface UseRateLimitResult {
+  /** Requests allowed per window, or null if not reported yet. */
+  limit: number | null;
+  /** Requests left in the current window, or null if not reported yet. */
+  remaining: number | null;
+  /** When the current window resets, if known. */
+  resetAt: Date | null;
+  /** Whole seconds until `resetAt`; counts down live and stops at 0. */
+  secondsUntilReset: number;
+  /** Whether no requests are left and the window has not reset yet. */
+  isLimited: boolean;
+  /** When the last update was received. */
+  updatedAt: Date | null;
+  /** The last update as reported by the core client. */
+  info: RateLimitInfo | null;
+}
+
+/**
+ * Hook that reports the latest rate-limit window seen by the provider's
+ * client, with a live countdown to the next reset.
+ *
+ * Values are null until the first API response carries rate-limit headers.
+ *
+ * @example
+ * ```tsx
+ * function SendButton() {
+ *   const { isLimited, secondsUntilReset, remaining } = useRateLimit();
+ *   const { send } = useSendEmail({ blockWhenRateLimited: true });
+ *
+ *   return (
+ *     <button disabled={isLimited} onClick={() => send('welcome', {}, 'ada@example.com')}>
+ *       {isLimited ? `Try again in ${secondsUntilReset}s` : `Send (${remaining ?? '–'} left)`}
+ *     </button>
+ *   );
+ * }
+ * ```
+ */
+export function useRateLimit(options: HuefyClientSelector = {}): UseRateLimitResult {
+  const { rateLimit } = useHuefyContext(options.client);
+  const resetAt = rateLimit?.resetAt ?? null;
+  const { now, secondsLeft } = useCountdown(resetAt);
+
+  return {
+    limit: rateLimit?.limit ?? null,
+    remaining: rateLimit?.remaining ?? null,
+    resetAt: resetAt === null ? null : new Date(resetAt),
+    secondsUntilReset: secondsLeft,
+    isLimited: isRateLimited(rateLimit, now),
+    updatedAt: rateLimit ? new Date(rateLimit.updatedAt) : null,
+    info: rateLimit?.info ?? null,
+  };
+}
@@ -0,0 +1,102 @@
+import { useCallback, useMemo, useState } from 'react';
+import { parseRecipients } from '../import/parseRecipients';
+import type { BulkRecipient } from '../types/email';
+import type {
+  RecipientImportDuplicate,
+  RecipientImportOptions,
+  RecipientImportResult,
+  RecipientImportRowError,
+} from '../types/recipientImport';
+
+export interface UseRecipientImportOptions extends RecipientImportOptions {
+  /** Text to start with. */
+  initialText?: string;
+}
+
+export interface UseRecipientImportResult {
+  /** The CSV or pasted text being imported. */
+  text: string;
+  setText: (text: string) => void;
+  /** Reads a CSV or text file, such as one picked in a file input, into `text`. */
+  importFile: (file: Blob) => Promise<void>;
+  /** Parse result of `text`. */
+  result: RecipientImportResult;
+  /** Valid, deduplicated recipients, ready for `useSendBulkEmails`. */
+  recipients: BulkRecipient[];
+  errors: RecipientImportRowError[];
+  duplicates: RecipientImportDuplicate[];
+  /** Set when the options do not fit the input, e.g. a missing column. */
+  error: Error | null;
+  reset: () => void;
+}
+
+// `Blob.text()` is missing in older browsers and some test environments
+function readBlobText(file: Blob): Promise<string> {
+  if (typeof file.text === 'function') return file.text();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ''));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+}
+
+/**
+ * Hook that turns CSV or pasted address lists into bulk recipients.
+ *
+ * The text is parsed with `parseRecipients` whenever it or the options
+ * change. It does not need a `HuefyProvider`.
+ *
+ * @example
+ * ```tsx
+ * function RecipientPaste() {
+ *   const { text, setText, recipients, errors } = useRecipientImport({ defaultType: 'to' });
+ *   const { send } = useSendBulkEmails();
+ *
+ *   return (
+ *     <>
+ *       <textarea value={text} onChange={(e) => setText(e.target.value)} />
+ *       {errors.map((err) => <p key={err.line}>Line {err.line}: {err.message}</p>)}
+ *       <button onClick={() => send('newsletter', recipients)}>Send to {recipients.length}</button>
+ *     </>
+ *   );
+ * }
+ * ```
+ */
+export function useRecipientImport(options: UseRecipientImportOptions = {}): UseRecipientImportResult {
+  const { initialText = '', ...parseOptions } = options;
+  const [text, setText] = useState(initialText);
+
+  // Options are plain data; compare by value so inline objects do not re-parse
+  const optionsKey = JSON.stringify(parseOptions);
+
+  const { result, error } = useMemo(() => {
+    try {
+      return { result: parseRecipients(text, parseOptions), error: null };
+    } catch (err) {
+      return {
+        result: parseRecipients('', { format: 'text' }),
+        error: err instanceof Error ? err : new Error(String(err)),
+      };
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [text, optionsKey]);
+
+  const importFile = useCallback(async (file: Blob) => {
+    setText(await readBlobText(file));
+  }, []);
+
+  const reset = useCallback(() => setText(initialText), [initialText]);
+
+  return {
+    text,
+    setText,
+    importFile,
+    result,
+    recipients: result.recipients,
+    errors: result.errors,
+    duplicates: result.duplicates,
+    error,
+    reset,
+  };
+}
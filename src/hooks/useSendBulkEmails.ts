@@ -0,0 +1,398 @@
+import { useCallback, useMemo, useRef, useState } from 'react';
+import type { EmailProvider } from '@teracrafts/huefy';
+import { useHuefy } from './useHuefy';
+import { describeError } from '../errors';
+import type { HuefyErrorDescriptor } from '../errors';
+import { chunkRecipients, mergeBulkResponses, runWithConcurrency } from '../utils/bulk';
+import type { HuefyActionStatus } from '../types';
+import type { HuefyClient } from '../types/client';
+import type {
+  BulkChunkState,
+  BulkRecipient,
+  BulkRecipientOutcome,
+  BulkRecipientState,
+  BulkSendProgress,
+  SendBulkEmailsResponse,
+  SendBulkEmailsResponseData,
+  TemplateKey,
+} from '../types/email';
+
+export interface UseSendBulkEmailsOptions {
+  /**
+   * Maximum recipients per request. Larger lists are split into chunks that
+   * are sent separately and aggregated. Defaults to sending everything in
+   * one request.
+   */
+  chunkSize?: number;
+  /** Maximum number of chunks in flight at once. Defaults to 1. */
+  chunkConcurrency?: number;
+  onSuccess?: (response: SendBulkEmailsResponse) => void;
+  onError?: (error: Error) => void;
+  /** Called whenever a chunk finishes, successfully or not. */
+  onProgress?: (progress: BulkSendProgress) => void;
+  /** Fixed idempotency key to send instead of a generated one. */
+  idempotencyKey?: string;
+  /**
+   * Fail with a `RateLimitBlockedError` instead of sending while the API
+   * reports no remaining requests in the current rate-limit window.
+   */
+  blockWhenRateLimited?: boolean;
+  /** Name of the `HuefyProvider` to send through. Defaults to the unnamed provider. */
+  client?: string;
+}
+
+export interface UseSendBulkEmailsResult {
+  send: <K extends TemplateKey>(
+    templateKey: K,
+    recipients: BulkRecipient<K>[],
+    provider?: EmailProvider,
+  ) => Promise<SendBulkEmailsResponse | undefined>;
+  loading: boolean;
+  error: Error | null;
+  /** Normalized description of `error`. */
+  errorInfo: HuefyErrorDescriptor | null;
+  data: SendBulkEmailsResponse | null;
+  success: boolean;
+  status: HuefyActionStatus;
+  /**
+   * Idempotency key of the next send if it repeats the last one. Chunked
+   * sends use it with the chunk index appended. It changes when other
+   * recipients or another template are sent, after a successful send, and
+   * on `reset`.
+   */
+  idempotencyKey: string;
+  /** Abort the in-flight send. Chunks that were not sent stay pending. */
+  cancel: () => void;
+  reset: () => void;
+  /** Resend only the chunks that failed or were not sent in the last send. */
+  retryFailedChunks: () => Promise<SendBulkEmailsResponse | undefined>;
+  /** State of every chunk of the current send. */
+  chunks: BulkChunkState[];
+  /** Live chunk progress of the current send. */
+  progress: BulkSendProgress;
+  /** Batch ids of every successfully sent chunk. */
+  batchIds: string[];
+  /** Per-recipient outcome derived from the response `recipients` and `errors`. */
+  recipientStates: BulkRecipientState[];
+  /** Recipients accepted for delivery, including those still queued at the provider. */
+  sent: BulkRecipientState[];
+  /** Recipients rejected by the API or the provider. */
+  failed: BulkRecipientState[];
+  /** Recipients skipped because they are on a suppression list. */
+  suppressed: BulkRecipientState[];
+  /** Look up the state of a single recipient by email (case-insensitive). */
+  getRecipientState: (email: string) => BulkRecipientState | undefined;
+}
+
+const PENDING_STATUSES = new Set(['pending']);
+const FAILED_STATUSES = new Set(['failed', 'error', 'rejected', 'bounced', 'invalid']);
+const SUPPRESSED_STATUSES = new Set(['suppressed', 'unsubscribed', 'blocked']);
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function classifyStatus(status: string): BulkRecipientOutcome {
+  const normalized = status.trim().toLowerCase();
+  if (SUPPRESSED_STATUSES.has(normalized)) return 'suppressed';
+  if (FAILED_STATUSES.has(normalized)) return 'failed';
+  if (PENDING_STATUSES.has(normalized)) return 'pending';
+  // `queued`, `processing` and `scheduled` recipients were accepted; delivery is up to the provider
+  return 'sent';
+}
+
+/**
+ * Derives a per-recipient outcome from a bulk send response.
+ *
+ * Entries in `errors` take precedence over the recipient status; an error
+ * whose code mentions suppression marks the recipient as suppressed rather
+ * than failed. Recipients only present in `errors` are included as well.
+ */
+export function deriveBulkRecipientStates(
+  data: SendBulkEmailsResponseData | null | undefined,
+): BulkRecipientState[] {
+  if (!data) return [];
+
+  const states = new Map<string, BulkRecipientState>();
+
+  for (const recipient of data.recipients ?? []) {
+    states.set(normalizeEmail(recipient.email), {
+      email: recipient.email,
+      outcome: recipient.error ? 'failed' : classifyStatus(recipient.status),
+      status: recipient.status,
+      messageId: recipient.messageId,
+      error: recipient.error,
+    });
+  }
+
+  for (const entry of data.errors ?? []) {
+    if (!entry.recipient) continue;
+    const key = normalizeEmail(entry.recipient);
+    const outcome: BulkRecipientOutcome = /suppress/i.test(entry.code) ? 'suppressed' : 'failed';
+    const existing = states.get(key);
+    states.set(key, {
+      ...existing,
+      email: existing?.email ?? entry.recipient,
+      outcome,
+      error: entry.message,
+      errorCode: entry.code,
+    });
+  }
+
+  return Array.from(states.values());
+}
+
+interface BulkRequest {
+  templateKey: TemplateKey;
+  groups: BulkRecipient[][];
+  provider?: EmailProvider;
+}
+
+function getProgress(chunks: BulkChunkState[]): BulkSendProgress {
+  return {
+    totalChunks: chunks.length,
+    completedChunks: chunks.filter((chunk) => chunk.status === 'sent').length,
+    failedChunks: chunks.filter((chunk) => chunk.status === 'failed').length,
+  };
+}
+
+/**
+ * Hook for sending a template to many recipients.
+ *
+ * Mirrors `useSendEmail` and additionally exposes the per-recipient outcome
+ * of the last response, so list UIs can mark each row individually. The
+ * per-recipient `data` is checked against the `HuefyTemplates` registry when
+ * the app declares one.
+ *
+ * With `chunkSize` set, the recipient list is split into chunks that are
+ * sent with at most `chunkConcurrency` requests in flight. `chunks` and
+ * `progress` update as each chunk settles, and the successful responses are
+ * aggregated into `data` once the send finishes. Failed chunks are reported
+ * through `error` and `chunks` and can be resent on their own with
+ * `retryFailedChunks`. Recipients of unsent or failed chunks show up in
+ * `recipientStates` as `'pending'` or `'failed'`. Every chunk keeps its
+ * idempotency key, so retrying a chunk cannot deliver it twice.
+ *
+ * @example
+ * ```tsx
+ * const { send, loading, failed, getRecipientState } = useSendBulkEmails({
+ *   onSuccess: (res) => toast(`Batch ${res.data.batchId} queued`),
+ * });
+ *
+ * await send('monthly-digest', [
+ *   { email: 'alice@example.com', data: { firstName: 'Alice' } },
+ *   { email: 'bob@example.com', type: 'bcc' },
+ * ]);
+ *
+ * getRecipientState('alice@example.com')?.outcome; // 'sent' | 'failed' | ...
+ *
+ * // Large lists: 500 recipients per request, 3 requests at a time
+ * const bulk = useSendBulkEmails({ chunkSize: 500, chunkConcurrency: 3 });
+ * await bulk.send('monthly-digest', subscribers);
+ * if (bulk.progress.failedChunks > 0) await bulk.retryFailedChunks();
+ * ```
+ */
+export function useSendBulkEmails(options: UseSendBulkEmailsOptions = {}): UseSendBulkEmailsResult {
+  const [chunks, setChunks] = useState<BulkChunkState[]>([]);
+  const chunksRef = useRef<BulkChunkState[]>([]);
+  const requestRef = useRef<BulkRequest | null>(null);
+  // Bumped by every execution; a replaced execution must not touch the chunks of the new one
+  const runRef = useRef(0);
+
+  // Stable reference to options to avoid stale closures
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const updateChunk = useCallback((index: number, patch: Partial<BulkChunkState>) => {
+    chunksRef.current = chunksRef.current.map((chunk) =>
+      chunk.index === index ? { ...chunk, ...patch } : chunk,
+    );
+    setChunks(chunksRef.current);
+  }, []);
+
+  const {
+    execute,
+    loading,
+    error,
+    data,
+    success,
+    status,
+    idempotencyKey,
+    cancel,
+    reset: resetAction,
+  } = useHuefy(
+    async (
+      client: HuefyClient,
+      { signal, idempotencyKey: key },
+      templateKey: TemplateKey,
+      groups: BulkRecipient[][],
+      provider: EmailProvider | undefined,
+    ): Promise<SendBulkEmailsResponse> => {
+      const run = ++runRef.current;
+      const isCurrentRun = () => runRef.current === run;
+
+      // A new send; retries keep the chunks, and with them their keys
+      if (chunksRef.current.length === 0) {
+        chunksRef.current = groups.map((group, index) => ({
+          index,
+          recipients: group,
+          idempotencyKey: groups.length === 1 ? key : `${key}:${index}`,
+          status: 'pending',
+        }));
+        setChunks(chunksRef.current);
+      }
+      // Chunks still `sending` belong to the execution this one replaces
+      const indices = chunksRef.current
+        .filter((chunk) => chunk.status !== 'sent')
+        .map((chunk) => chunk.index);
+
+      await runWithConcurrency(
+        indices,
+        optionsRef.current.chunkConcurrency ?? 1,
+        async (index) => {
+          if (signal.aborted) return;
+          updateChunk(index, { status: 'sending', error: undefined });
+          try {
+            const chunk = chunksRef.current[index];
+            const response = await client.sendBulkEmails(
+              { templateKey, recipients: chunk.recipients, provider },
+              { signal, idempotencyKey: chunk.idempotencyKey },
+            );
+            if (!isCurrentRun()) return;
+            updateChunk(index, { status: 'sent', response });
+          } catch (err) {
+            if (!isCurrentRun()) return;
+            if (signal.aborted) {
+              updateChunk(index, { status: 'pending' });
+              return;
+            }
+            const chunkError = err instanceof Error ? err : new Error(String(err));
+            updateChunk(index, { status: 'failed', error: chunkError });
+          }
+          optionsRef.current.onProgress?.(getProgress(chunksRef.current));
+        },
+      );
+
+      const sentResponses = chunksRef.current.flatMap((chunk) =>
+        chunk.status === 'sent' && chunk.response ? [chunk.response] : [],
+      );
+
+      if (sentResponses.length === 0) {
+        throw chunksRef.current.find((chunk) => chunk.error)?.error ??
+          new Error('No bulk email chunks were sent');
+      }
+
+      return mergeBulkResponses(sentResponses);
+    },
+    {
+      onSuccess: options.onSuccess,
+      onError: options.onError,
+      idempotencyKey: options.idempotencyKey,
+      blockWhenRateLimited: options.blockWhenRateLimited,
+      client: options.client,
+      withContext: true,
+    },
+  );
+
+  const send = useCallback(
+    <K extends TemplateKey>(templateKey: K, recipients: BulkRecipient<K>[], provider?: EmailProvider) => {
+      const groups = chunkRecipients(recipients, optionsRef.current.chunkSize);
+      // The execution builds the chunks, with the key it is sent with
+      chunksRef.current = [];
+      setChunks([]);
+      requestRef.current = { templateKey, groups, provider };
+
+      return execute(templateKey, groups, provider);
+    },
+    [execute],
+  );
+
+  const retryFailedChunks = useCallback(async () => {
+    const request = requestRef.current;
+    if (!request || chunksRef.current.every((chunk) => chunk.status === 'sent')) {
+      return data ?? undefined;
+    }
+
+    // The same arguments as the send, so it stays the same submission
+    return execute(request.templateKey, request.groups, request.provider);
+  }, [data, execute]);
+
+  const reset = useCallback(() => {
+    runRef.current += 1;
+    resetAction();
+    chunksRef.current = [];
+    requestRef.current = null;
+    setChunks([]);
+  }, [resetAction]);
+
+  const progress = useMemo(() => getProgress(chunks), [chunks]);
+  const chunkError = loading ? null : chunks.find((chunk) => chunk.error)?.error ?? null;
+  const combinedError = error ?? chunkError;
+  const errorInfo = useMemo(
+    () => (combinedError ? describeError(combinedError) : null),
+    [combinedError],
+  );
+
+  const recipientStates = useMemo(() => {
+    const states = deriveBulkRecipientStates(data?.data);
+    for (const chunk of chunks) {
+      if (chunk.status === 'sent') continue;
+      for (const recipient of chunk.recipients) {
+        states.push({
+          email: recipient.email,
+          outcome: chunk.status === 'failed' ? 'failed' : 'pending',
+          error: chunk.error?.message,
+        });
+      }
+    }
+    return states;
+  }, [chunks, data]);
+
+  const { sent, failed, suppressed } = useMemo(
+    () => ({
+      sent: recipientStates.filter((state) => state.outcome === 'sent'),
+      failed: recipientStates.filter((state) => state.outcome === 'failed'),
+      suppressed: recipientStates.filter((state) => state.outcome === 'suppressed'),
+    }),
+    [recipientStates],
+  );
+
+  const getRecipientState = useCallback(
+    (email: string) => {
+      const key = normalizeEmail(email);
+      return recipientStates.find((state) => normalizeEmail(state.email) === key);
+    },
+    [recipientStates],
+  );
+
+  const batchIds = useMemo(
+    () =>
+      chunks.flatMap((chunk) =>
+        chunk.status === 'sent' && chunk.response ? [chunk.response.data.batchId] : [],
+      ),
+    [chunks],
+  );
+
+  return {
+    send,
+    loading,
+    error: combinedError,
+    errorInfo,
+    data,
+    success: success && progress.failedChunks === 0,
+    // A send whose failed chunks set `error` did not succeed
+    status: status === 'success' && combinedError ? 'error' : status,
+    idempotencyKey,
+    cancel,
+    reset,
+    retryFailedChunks,
+    chunks,
+    progress,
+    batchIds,
+    recipientStates,
+    sent,
+    failed,
+    suppressed,
+    getRecipientState,
+  };
+}
@@ -1,24 +1,65 @@
 import { useCallback } from 'react';
-import type { EmailData, EmailProvider, SingleRecipient } from '@teracrafts/huefy';
+import type { EmailProvider, SingleRecipient } from '@teracrafts/huefy';
 import { useHuefy } from './useHuefy';
-import type { SendEmailResponse } from '../types/email';
+import { useOutboxCapture } from './useOutboxCapture';
+import type { HuefyErrorDescriptor } from '../errors';
+import type { HuefyActionStatus, HuefyConcurrencyMode } from '../types';
+import type { HuefyClient } from '../types/client';
+import type { SendEmailResponse, TemplateData, TemplateKey } from '../types/email';
+import type { OutboxItem } from '../types/outbox';
 
 export interface UseSendEmailOptions {
   onSuccess?: (response: SendEmailResponse) => void;
   onError?: (error: Error) => void;
+  /**
+   * Queue retryable send failures in the provider's outbox. Defaults to
+   * `true` when the provider has an outbox.
+   */
+  outbox?: boolean;
+  /** Fixed idempotency key to send instead of a generated one. */
+  idempotencyKey?: string;
+  /**
+   * How a `send` issued while another is running is handled. Defaults to
+   * `'replace'`, which aborts the running send.
+   */
+  concurrency?: HuefyConcurrencyMode;
+  /**
+   * Fail with a `RateLimitBlockedError` instead of sending while the API
+   * reports no remaining requests in the current rate-limit window.
+   */
+  blockWhenRateLimited?: boolean;
+  /** Name of the `HuefyProvider` to send through. Defaults to the unnamed provider. */
+  client?: string;
 }
 
 export interface UseSendEmailResult {
-  send: (
-    templateKey: string,
-    data: EmailData,
+  send: <K extends TemplateKey>(
+    templateKey: K,
+    data: TemplateData<K>,
     recipient: SingleRecipient,
     provider?: EmailProvider,
   ) => Promise<SendEmailResponse | undefined>;
   loading: boolean;
   error: Error | null;
+  /** Normalized description of `error`. */
+  errorInfo: HuefyErrorDescriptor | null;
   data: SendEmailResponse | null;
   success: boolean;
+  status: HuefyActionStatus;
+  /** Outbox entry of the last failed send, until it is delivered or discarded. */
+  outboxItem: OutboxItem | null;
+  /**
+   * Idempotency key of the next send. Repeating a failed or cancelled send
+   * with the same arguments reuses it; it changes for other arguments,
+   * after a successful send, and on `reset`.
+   */
+  idempotencyKey: string;
+  /** Number of sends currently running. */
+  inFlight: number;
+  /** Number of sends waiting in the `queue` mode. */
+  queued: number;
+  /** Abort running sends and drop queued ones. */
+  cancel: () => void;
   reset: () => void;
 }
 
@@ -26,7 +67,19 @@ export interface UseSendEmailResult {
  * Hook for sending a single email with a clean, ergonomic API.
  *
  * Wraps `useHuefy` with a typed `send` function — no need to handle the
- * client instance directly.
+ * client instance directly. The request is sent with an abort signal, so
+ * `cancel()`, `reset()` or unmounting cancel it, as does a newer `send`
+ * unless `concurrency` says otherwise.
+ *
+ * Template keys and data are checked against the `HuefyTemplates` registry
+ * when the app declares one.
+ *
+ * Every send carries an idempotency key, so a double submit or a repeated
+ * failed send is delivered at most once.
+ *
+ * When the provider has an outbox, a send that fails with a retryable error
+ * is queued for replay and exposed as `outboxItem`; the error is still
+ * reported as usual.
  *
  * @example
  * ```tsx
@@ -44,25 +97,80 @@ export interface UseSendEmailResult {
  * ```
  */
 export function useSendEmail(options: UseSendEmailOptions = {}): UseSendEmailResult {
-  const { execute, loading, error, data, success, reset } = useHuefy<SendEmailResponse>(
-    (client, templateKey, emailData, recipient, provider) =>
-      client.sendEmail({
-        templateKey: templateKey as string,
-        data: emailData as EmailData,
-        recipient: recipient as SingleRecipient,
-        provider: provider as EmailProvider | undefined,
-      }),
+  const { outboxItem, capture, clear } = useOutboxCapture(options.outbox, options.client);
+
+  const {
+    execute,
+    loading,
+    error,
+    errorInfo,
+    data,
+    success,
+    status,
+    cancel,
+    idempotencyKey,
+    inFlight,
+    queued,
+    reset: resetAction,
+  } = useHuefy(
+    async (
+      client: HuefyClient,
+      { signal, idempotencyKey: key },
+      templateKey: TemplateKey,
+      emailData: TemplateData,
+      recipient: SingleRecipient,
+      provider?: EmailProvider,
+    ): Promise<SendEmailResponse> => {
+      const request = { templateKey, data: emailData, recipient, provider };
+      try {
+        return await client.sendEmail(request, { signal, idempotencyKey: key });
+      } catch (err) {
+        if (!signal.aborted) await capture(request, err, key);
+        throw err;
+      }
+    },
     {
       onSuccess: options.onSuccess,
       onError: options.onError,
+      idempotencyKey: options.idempotencyKey,
+      concurrency: options.concurrency,
+      blockWhenRateLimited: options.blockWhenRateLimited,
+      client: options.client,
+      withContext: true,
     },
   );
 
   const send = useCallback(
-    (templateKey: string, emailData: EmailData, recipient: SingleRecipient, provider?: EmailProvider) =>
-      execute(templateKey, emailData, recipient, provider) as Promise<SendEmailResponse | undefined>,
-    [execute],
+    <K extends TemplateKey>(
+      templateKey: K,
+      emailData: TemplateData<K>,
+      recipient: SingleRecipient,
+      provider?: EmailProvider,
+    ) => {
+      clear();
+      return execute(templateKey, emailData, recipient, provider);
+    },
+    [clear, execute],
   );
 
-  return { send, loading, error, data, success, reset };
+  const reset = useCallback(() => {
+    clear();
+    resetAction();
+  }, [clear, resetAction]);
+
+  return {
+    send,
+    loading,
+    error,
+    errorInfo,
+    data,
+    success,
+    status,
+    outboxItem,
+    idempotencyKey,
+    inFlight,
+    queued,
+    cancel,
+    reset,
+  };
 }
@@ -0,0 +1,90 @@
+export interface CsvRow {
+  /** One-based line the row starts on. */
+  line: number;
+  cells: string[];
+  /** The row as it appeared in the input. */
+  raw: string;
+}
+
+const DELIMITERS = [',', ';', '\t'];
+
+/**
+ * Picks whichever of `,`, `;` and tab occurs most often in `line`, falling
+ * back to `,`.
+ */
+export function detectDelimiter(line: string): string {
+  let best = ',';
+  let bestCount = 0;
+  for (const delimiter of DELIMITERS) {
+    const count = line.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Splits CSV text into rows of cells.
+ *
+ * Quoted fields may contain delimiters, line breaks and doubled quotes.
+ * Both `\n` and `\r\n` line endings are accepted, and blank rows are
+ * skipped. Cells are returned untrimmed.
+ */
+export function parseCsv(input: string, delimiter: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let cells: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+  let rowStart = 0;
+
+  const endRow = (end: number) => {
+    cells.push(field);
+    const raw = input.slice(rowStart, end);
+    if (raw.trim().length > 0) {
+      rows.push({ line: rowLine, cells, raw });
+    }
+    cells = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field.trim().length === 0) {
+      inQuotes = true;
+      field = '';
+    } else if (input.startsWith(delimiter, i)) {
+      cells.push(field);
+      field = '';
+      i += delimiter.length - 1;
+    } else if (char === '\n' || char === '\r') {
+      endRow(i);
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      line++;
+      rowLine = line;
+      rowStart = i + 1;
+    } else {
+      field += char;
+    }
+  }
+  endRow(input.length);
+
+  return rows;
+}
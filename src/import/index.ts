@@ -0,0 +1 @@
+export { parseRecipients } from './parseRecipients';
@@ -0,0 +1,218 @@
+import { validateRecipient, validateRecipientObject } from '../utils/recipient';
+import { detectDelimiter, parseCsv } from './csv';
+import type { BulkRecipient, EmailRecipient, RecipientType } from '../types/email';
+import type {
+  RecipientImportColumn,
+  RecipientImportDuplicate,
+  RecipientImportOptions,
+  RecipientImportResult,
+  RecipientImportRowError,
+} from '../types/recipientImport';
+
+const EMAIL_HEADERS = ['email', 'e-mail', 'email address', 'e-mail address', 'mail'];
+const TYPE_HEADERS = ['type', 'recipient type'];
+
+/** A row read from the input, before validation. */
+interface CandidateRow {
+  line: number;
+  value: string;
+  recipient: EmailRecipient;
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase();
+}
+
+function firstLine(input: string): string {
+  return input.split(/\r?\n/).find((line) => line.trim().length > 0) ?? '';
+}
+
+// `Jane Doe <jane@example.com>`, optionally with the name in quotes
+const NAMED_ADDRESS = /^(.*?)\s*<([^<>]+)>$/;
+
+function isAddressToken(token: string): boolean {
+  return validateRecipient(token) === null || NAMED_ADDRESS.test(token);
+}
+
+// Splits a line of pasted text on `,`, `;` and tabs outside quotes and
+// angle brackets, so `"Doe, Jane" <jane@example.com>` stays one address
+function splitAddresses(text: string): string[] {
+  const tokens: string[] = [];
+  let token = '';
+  let inQuotes = false;
+  let inBrackets = false;
+
+  for (const char of text) {
+    if (char === '"' && !inBrackets) inQuotes = !inQuotes;
+    else if (char === '<' && !inQuotes) inBrackets = true;
+    else if (char === '>' && !inQuotes) inBrackets = false;
+    else if (!inQuotes && !inBrackets && (char === ',' || char === ';' || char === '\t')) {
+      tokens.push(token);
+      token = '';
+      continue;
+    }
+    token += char;
+  }
+  tokens.push(token);
+  return tokens;
+}
+
+function resolveFormat(input: string, options: RecipientImportOptions): 'csv' | 'text' {
+  if (options.format && options.format !== 'auto') return options.format;
+
+  const line = firstLine(input);
+  const [first] = parseCsv(line, options.delimiter ?? detectDelimiter(line));
+  if (!first) return 'text';
+  if (first.cells.some((cell) => EMAIL_HEADERS.includes(normalizeHeader(cell)))) return 'csv';
+
+  // Headerless rows such as `ann@example.com<TAB>Ann`: an address, then cells that are not addresses
+  const [cell, ...rest] = first.cells.map((value) => value.trim());
+  return validateRecipient(cell) === null && rest.some((value) => value && !isAddressToken(value))
+    ? 'csv'
+    : 'text';
+}
+
+function readCsvRows(input: string, options: RecipientImportOptions): CandidateRow[] {
+  const { columns = {}, defaultType } = options;
+  const rows = parseCsv(input, options.delimiter ?? detectDelimiter(firstLine(input)));
+  if (rows.length === 0) return [];
+
+  const hasHeader =
+    options.header ?? !rows[0].cells.some((cell) => validateRecipient(cell) === null);
+  const headers = hasHeader ? rows[0].cells.map(normalizeHeader) : null;
+
+  const resolve = (column: RecipientImportColumn): number => {
+    const index = typeof column === 'number' ? column : (headers?.indexOf(normalizeHeader(column)) ?? -1);
+    if (index < 0) {
+      throw new RangeError(`Recipient import column "${column}" was not found`);
+    }
+    return index;
+  };
+
+  const findEmailHeader = (names: string[]): number => {
+    const index = names.findIndex((header) => EMAIL_HEADERS.includes(header));
+    if (index < 0) {
+      throw new RangeError(
+        `Recipient import header has no email column (${EMAIL_HEADERS.join(', ')}); set columns.email`,
+      );
+    }
+    return index;
+  };
+
+  const emailIndex =
+    columns.email !== undefined ? resolve(columns.email) : headers ? findEmailHeader(headers) : 0;
+  const typeIndex =
+    columns.type !== undefined
+      ? resolve(columns.type)
+      : (headers?.findIndex((header) => TYPE_HEADERS.includes(header)) ?? -1);
+
+  const dataColumns: [string, number][] =
+    columns.data && columns.data !== 'rest'
+      ? Object.entries(columns.data).map(([key, column]) => [key, resolve(column)])
+      : hasHeader
+        ? rows[0].cells
+            .map((header, index): [string, number] => [header.trim(), index])
+            .filter(([header, index]) => header && index !== emailIndex && index !== typeIndex)
+        : [];
+
+  return rows.slice(hasHeader ? 1 : 0).map((row) => {
+    const cell = (index: number) => row.cells[index]?.trim() ?? '';
+
+    const data: Record<string, unknown> = {};
+    for (const [key, index] of dataColumns) {
+      // Blank cells leave the shared template data in place
+      if (cell(index)) data[key] = cell(index);
+    }
+
+    const type = (typeIndex >= 0 && cell(typeIndex).toLowerCase()) || defaultType;
+    return {
+      line: row.line,
+      value: row.raw,
+      recipient: {
+        email: cell(emailIndex),
+        ...(type ? { type: type as RecipientType } : {}),
+        ...(Object.keys(data).length > 0 ? { data } : {}),
+      },
+    };
+  });
+}
+
+function readTextRows(input: string, options: RecipientImportOptions): CandidateRow[] {
+  return input.split(/\r?\n/).flatMap((text, index) =>
+    splitAddresses(text)
+      .map((token) => token.trim())
+      .filter((token) => token.length > 0)
+      .map((token): CandidateRow => {
+        const named = NAMED_ADDRESS.exec(token);
+        const name = named?.[1].replace(/^["']|["']$/g, '').trim();
+        return {
+          line: index + 1,
+          value: token,
+          recipient: {
+            email: named ? named[2].trim() : token,
+            ...(options.defaultType ? { type: options.defaultType } : {}),
+            ...(name ? { data: { name } } : {}),
+          },
+        };
+      }),
+  );
+}
+
+/**
+ * Parses recipients from CSV or pasted text into `BulkRecipient`s.
+ *
+ * Every row is checked with the rules of `validateRecipientObject`; invalid
+ * rows are reported in `errors` with their line. Repeated addresses are
+ * reported in `duplicates` and dropped unless `dedupe` is `false`.
+ *
+ * @throws {RangeError} When `columns` names a column the input does not
+ * have, or when a CSV header row has no email column and `columns.email` is
+ * not set.
+ *
+ * @example
+ * ```ts
+ * const { recipients, errors } = parseRecipients(
+ *   'email,type,firstName\nann@example.com,to,Ann\nbob@example.com,cc,Bob',
+ * );
+ * // recipients[0] → { email: 'ann@example.com', type: 'to', data: { firstName: 'Ann' } }
+ * ```
+ */
+export function parseRecipients(
+  input: string,
+  options: RecipientImportOptions = {},
+): RecipientImportResult {
+  const { dedupe = true, maxRecipients } = options;
+  const format = resolveFormat(input, options);
+  const rows = format === 'csv' ? readCsvRows(input, options) : readTextRows(input, options);
+
+  const recipients: BulkRecipient[] = [];
+  const errors: RecipientImportRowError[] = [];
+  const duplicates: RecipientImportDuplicate[] = [];
+  const firstLines = new Map<string, number>();
+
+  for (const { line, value, recipient } of rows) {
+    const message = validateRecipientObject(recipient);
+    if (message) {
+      errors.push({ line, value, message });
+      continue;
+    }
+
+    const address = recipient.email.toLowerCase();
+    const firstLineOfAddress = firstLines.get(address);
+    if (firstLineOfAddress !== undefined) {
+      duplicates.push({ line, email: recipient.email, firstLine: firstLineOfAddress });
+      if (dedupe) continue;
+    }
+
+    if (maxRecipients !== undefined && recipients.length >= maxRecipients) {
+      errors.push({ line, value, message: `More than ${maxRecipients} recipients` });
+      continue;
+    }
+
+    firstLines.set(address, firstLineOfAddress ?? line);
+    const { email, type, data } = recipient;
+    recipients.push({ email, ...(type ? { type } : {}), ...(data ? { data } : {}) });
+  }
+
+  return { recipients, errors, duplicates, totalRows: rows.length, format };
+}
@@ -1,5 +1,5 @@
 // Components
-export { HuefyProvider } from './components';
+export { HuefyProvider, HuefyErrorBoundary } from './components';
 
 // Hooks
 export { useHuefy } from './hooks';
@@ -7,6 +7,15 @@ export { useHuefy } from './hooks';
 // Context
 export { useHuefyContext, getOrCreateContext } from './context';
 
+// Errors
+export {
+  RateLimitBlockedError,
+  ClientNotReadyError,
+  FormValidationError,
+  describeError,
+} from './errors';
+export type { HuefyErrorKind, HuefyErrorDescriptor } from './errors';
+
 // Core SDK errors
 export {
   HuefyError,
@@ -28,31 +37,132 @@ export {
 export type {
   HuefyProviderProps,
   HuefyContextValue,
+  InitializationRetryOptions,
+  HuefyErrorBoundaryProps,
+  HuefyErrorBoundaryFallbackProps,
+  HuefyClientSelector,
+  ConnectionStatus,
+  HuefyActionStatus,
+  HuefyConcurrencyMode,
+  HuefyActionContext,
+  HuefyAction,
+  HuefyContextAction,
+  RateLimitState,
   UseHuefyOptions,
   UseHuefyResult,
 } from './types';
 
+// Client types
+export type { HuefyClient, HuefyRequestOptions } from './types/client';
+
+// Backend proxy
+export { createProxyClient } from './proxy';
+export type {
+  ProxyClientOptions,
+  HuefyProxyAction,
+  HuefyProxyRequestBody,
+  HuefyProxyErrorBody,
+} from './proxy';
+
 // Email domain types
 export type {
   EmailProvider,
   EmailData,
+  HuefyTemplates,
+  TemplateKey,
+  TemplateData,
   RecipientType,
   EmailRecipient,
   SingleRecipient,
+  SendEmailRequest,
   SendEmailOptions,
   RecipientStatus,
   SendEmailResponseData,
   SendEmailResponse,
   EmailFormData,
+  EmailFormAsyncValidationContext,
+  EmailFormField,
+  EmailFormFieldErrors,
+  EmailFormFieldProps,
+  EmailFormValidationResult,
+  EmailFormSubmission,
   UseEmailFormOptions,
   UseEmailFormResult,
   BulkRecipient,
+  SendBulkEmailsRequest,
   SendBulkEmailsResponseData,
   SendBulkEmailsResponse,
   BulkEmailResult,
+  BulkRecipientOutcome,
+  BulkRecipientState,
+  BulkChunkStatus,
+  BulkChunkState,
+  BulkSendProgress,
+  HealthCheckResponseData,
+  HealthCheckResponse,
 } from './types/email';
+export type {
+  StandardSchemaV1,
+  StandardSchemaV1Props,
+  StandardSchemaV1Result,
+  StandardSchemaV1Issue,
+  StandardSchemaV1PathSegment,
+} from './types/schema';
 
 // Email hooks
 export { useEmailForm } from './hooks/useEmailForm';
 export { useSendEmail } from './hooks/useSendEmail';
 export type { UseSendEmailOptions, UseSendEmailResult } from './hooks/useSendEmail';
+export { useSendBulkEmails } from './hooks/useSendBulkEmails';
+export type { UseSendBulkEmailsOptions, UseSendBulkEmailsResult } from './hooks/useSendBulkEmails';
+export { useBatchStatus, isBatchComplete } from './hooks/useBatchStatus';
+export type { UseBatchStatusOptions, UseBatchStatusResult } from './hooks/useBatchStatus';
+
+// Rate limits
+export { useRateLimit } from './hooks/useRateLimit';
+export type { UseRateLimitResult } from './hooks/useRateLimit';
+
+// Circuit breaker
+export { useCircuitBreaker } from './hooks/useCircuitBreaker';
+export type { UseCircuitBreakerResult } from './hooks/useCircuitBreaker';
+export type {
+  CircuitBreakerMirror,
+  CircuitBreakerState,
+  CircuitBreakerStatus,
+} from './types/circuitBreaker';
+
+// Health hooks
+export { useHealthCheck } from './hooks/useHealthCheck';
+export type { UseHealthCheckOptions, UseHealthCheckResult } from './hooks/useHealthCheck';
+
+// Recipient import
+export { useRecipientImport } from './hooks/useRecipientImport';
+export type { UseRecipientImportOptions, UseRecipientImportResult } from './hooks/useRecipientImport';
+export { parseRecipients } from './import';
+export type {
+  RecipientImportColumn,
+  RecipientImportColumns,
+  RecipientImportDuplicate,
+  RecipientImportFormat,
+  RecipientImportOptions,
+  RecipientImportResult,
+  RecipientImportRowError,
+} from './types/recipientImport';
+
+// Offline outbox
+export { useOutbox } from './hooks/useOutbox';
+export type { UseOutboxResult } from './hooks/useOutbox';
+export {
+  createLocalStorageOutboxStorage,
+  createIndexedDBOutboxStorage,
+  createMemoryOutboxStorage,
+  isRetryableSendError,
+} from './outbox';
+export type { IndexedDBOutboxStorageOptions } from './outbox';
+export type {
+  Outbox,
+  OutboxItem,
+  OutboxItemStatus,
+  OutboxOptions,
+  OutboxStorage,
+} from './types/outbox';
@@ -0,0 +1,177 @@
+import { createId } from '../utils/id';
+import { createMemoryOutboxStorage } from './storage';
+import type { SendEmailRequest } from '../types/email';
+import type { Outbox, OutboxItem, OutboxOptions } from '../types/outbox';
+
+export interface CreateOutboxOptions extends OutboxOptions {
+  /** Sends a queued item. Rejections are treated as failed attempts. */
+  dispatch: (item: OutboxItem) => Promise<unknown>;
+  isRetryable: (error: unknown) => boolean;
+  /** Clock used for scheduling. Defaults to `Date.now`. */
+  now?: () => number;
+}
+
+function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+function errorMessage(error: unknown): string | undefined {
+  if (error === undefined) return undefined;
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Creates an outbox that stores failed sends and replays them with
+ * exponential backoff.
+ *
+ * Items are replayed one at a time in the order they were queued. A replay
+ * that fails with a retryable error is rescheduled; once `maxAttempts` is
+ * reached, or the error is not retryable, the item is marked `failed` and
+ * stays in the outbox until it is retried or discarded.
+ */
+export function createOutbox(options: CreateOutboxOptions): Outbox {
+  const {
+    storage = createMemoryOutboxStorage(),
+    maxAttempts = 5,
+    baseDelayMs = 1000,
+    maxDelayMs = 60_000,
+    dispatch,
+    isRetryable,
+    now = Date.now,
+  } = options;
+
+  let items: OutboxItem[] = [];
+  const listeners = new Set<() => void>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let replaying: Promise<void> | null = null;
+
+  const backoff = (attempts: number) =>
+    Math.min(maxDelayMs, baseDelayMs * 2 ** Math.max(0, attempts - 1));
+
+  const commit = async (next: OutboxItem[]) => {
+    items = next;
+    listeners.forEach((listener) => listener());
+    try {
+      await storage.save(items);
+    } catch {
+      // Storage failures must not break sending; the in-memory copy remains
+    }
+  };
+
+  const update = (id: string, patch: Partial<OutboxItem>) =>
+    commit(items.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+
+  // Items interrupted mid-replay by a reload are pending again
+  const loaded = storage
+    .load()
+    .then((stored) => {
+      const restored = stored.map((item): OutboxItem =>
+        item.status === 'sending' ? { ...item, status: 'pending' } : item,
+      );
+      return commit([...restored, ...items]);
+    })
+    .catch(() => undefined);
+
+  const schedule = () => {
+    if (timer) clearTimeout(timer);
+    timer = undefined;
+
+    const due = items
+      .filter((item) => item.status === 'pending')
+      .map((item) => item.nextAttemptAt);
+    if (due.length === 0) return;
+
+    timer = setTimeout(() => {
+      timer = undefined;
+      void replay();
+    }, Math.max(0, Math.min(...due) - now()));
+  };
+
+  const attempt = async (item: OutboxItem) => {
+    await update(item.id, { status: 'sending' });
+    try {
+      await dispatch(item);
+      await commit(items.filter((current) => current.id !== item.id));
+    } catch (err) {
+      // Discarded while in flight
+      if (!items.some((current) => current.id === item.id)) return;
+
+      const attempts = item.attempts + 1;
+      const exhausted = attempts >= maxAttempts || !isRetryable(err);
+      await update(item.id, {
+        status: exhausted ? 'failed' : 'pending',
+        attempts,
+        nextAttemptAt: now() + backoff(attempts),
+        lastError: errorMessage(err),
+      });
+    }
+  };
+
+  const replay = async (): Promise<void> => {
+    await loaded;
+    if (replaying) return replaying;
+    if (isOffline()) return;
+
+    replaying = (async () => {
+      const due = items.filter((item) => item.status === 'pending' && item.nextAttemptAt <= now());
+      for (const item of due) {
+        if (items.some((current) => current.id === item.id)) {
+          await attempt(item);
+        }
+      }
+    })().finally(() => {
+      replaying = null;
+      schedule();
+    });
+
+    return replaying;
+  };
+
+  const enqueue = async (request: SendEmailRequest, error?: unknown, idempotencyKey?: string) => {
+    await loaded;
+    const createdAt = now();
+    const item: OutboxItem = {
+      id: createId(),
+      request,
+      ...(idempotencyKey ? { idempotencyKey } : {}),
+      status: 'pending',
+      attempts: 1,
+      createdAt,
+      nextAttemptAt: createdAt + backoff(1),
+      lastError: errorMessage(error),
+    };
+    await commit([...items, item]);
+    schedule();
+    return item;
+  };
+
+  return {
+    getItems: () => items,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    enqueue,
+    async capture(request, error, idempotencyKey) {
+      return isRetryable(error) ? enqueue(request, error, idempotencyKey) : null;
+    },
+    replay,
+    async retry(id) {
+      await loaded;
+      if (!items.some((item) => item.id === id && item.status !== 'sending')) return;
+      await update(id, { status: 'pending', attempts: 0, nextAttemptAt: now() });
+      await replay();
+    },
+    async discard(id) {
+      await loaded;
+      await commit(items.filter((item) => item.id !== id));
+      schedule();
+    },
+    stop() {
+      if (timer) clearTimeout(timer);
+      timer = undefined;
+    },
+  };
+}
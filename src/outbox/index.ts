@@ -0,0 +1,9 @@
+export { createOutbox } from './createOutbox';
+export type { CreateOutboxOptions } from './createOutbox';
+export {
+  createMemoryOutboxStorage,
+  createLocalStorageOutboxStorage,
+  createIndexedDBOutboxStorage,
+} from './storage';
+export type { IndexedDBOutboxStorageOptions } from './storage';
+export { isRetryableSendError } from './isRetryableSendError';
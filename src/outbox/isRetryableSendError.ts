@@ -0,0 +1,13 @@
+import { describeError } from '../errors';
+
+/**
+ * Default outbox policy: queue sends that failed for transient reasons.
+ *
+ * Retryable are rate limiting, provider failures, an open circuit breaker,
+ * timeouts, network failures and a client that is not ready yet.
+ * Validation, authentication, quota and template errors are not, since
+ * replaying them cannot succeed.
+ */
+export function isRetryableSendError(error: unknown): boolean {
+  return describeError(error).retryable;
+}
@@ -0,0 +1,116 @@
+import type { OutboxItem, OutboxStorage } from '../types/outbox';
+
+/**
+ * Keeps outbox items in memory. Items are lost on reload.
+ */
+export function createMemoryOutboxStorage(initialItems: OutboxItem[] = []): OutboxStorage {
+  let items = initialItems;
+
+  return {
+    async load() {
+      return items;
+    },
+    async save(next) {
+      items = next;
+    },
+  };
+}
+
+/**
+ * Keeps outbox items in `localStorage` under `key`.
+ *
+ * Queued requests include recipient addresses and template data, so only
+ * use persistent storage where that is acceptable.
+ */
+export function createLocalStorageOutboxStorage(key = 'huefy:outbox'): OutboxStorage {
+  const getStorage = () => (typeof localStorage === 'undefined' ? null : localStorage);
+
+  return {
+    async load() {
+      const raw = getStorage()?.getItem(key);
+      if (!raw) return [];
+      try {
+        const parsed: unknown = JSON.parse(raw);
+        return Array.isArray(parsed) ? (parsed as OutboxItem[]) : [];
+      } catch {
+        return [];
+      }
+    },
+    async save(items) {
+      const storage = getStorage();
+      if (!storage) return;
+      if (items.length === 0) {
+        storage.removeItem(key);
+      } else {
+        storage.setItem(key, JSON.stringify(items));
+      }
+    },
+  };
+}
+
+export interface IndexedDBOutboxStorageOptions {
+  /** Database name. Defaults to `'huefy'`. */
+  databaseName?: string;
+  /** Object store name. Defaults to `'outbox'`. */
+  storeName?: string;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Keeps outbox items in IndexedDB, one record per item keyed by `id`.
+ *
+ * Queued requests include recipient addresses and template data, so only
+ * use persistent storage where that is acceptable.
+ */
+export function createIndexedDBOutboxStorage(
+  options: IndexedDBOutboxStorageOptions = {},
+): OutboxStorage {
+  const { databaseName = 'huefy', storeName = 'outbox' } = options;
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!database) {
+      if (typeof indexedDB === 'undefined') {
+        return Promise.reject(new Error('IndexedDB is not available in this environment'));
+      }
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(storeName)) {
+          request.result.createObjectStore(storeName, { keyPath: 'id' });
+        }
+      };
+      database = promisifyRequest(request);
+    }
+    return database;
+  };
+
+  return {
+    async load() {
+      const db = await open();
+      const items = await promisifyRequest<OutboxItem[]>(
+        db.transaction(storeName, 'readonly').objectStore(storeName).getAll(),
+      );
+      return items.sort((a, b) => a.createdAt - b.createdAt);
+    },
+    async save(items) {
+      const db = await open();
+      const transaction = db.transaction(storeName, 'readwrite');
+      const store = transaction.objectStore(storeName);
+      store.clear();
+      for (const item of items) {
+        store.put(item);
+      }
+      await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      });
+    },
+  };
+}
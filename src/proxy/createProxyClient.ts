@@ -0,0 +1,68 @@
+import type { HuefyClient, HuefyRequestOptions } from '../types/client';
+import { IDEMPOTENCY_KEY_HEADER, deserializeProxyError } from './protocol';
+import type { HuefyProxyAction, HuefyProxyRequestBody } from './protocol';
+
+export interface ProxyClientOptions {
+  /** URL of the app's proxy endpoint, e.g. `'/api/huefy'`. */
+  endpoint: string;
+  /**
+   * Extra request headers, e.g. a CSRF token. A function is called before
+   * every request.
+   */
+  headers?: HeadersInit | (() => HeadersInit | Promise<HeadersInit>);
+  /** Credentials mode of the requests. Defaults to `'same-origin'`. */
+  credentials?: RequestCredentials;
+  /** `fetch` implementation. Defaults to the global `fetch`. */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Creates a client that posts every call to an app-owned endpoint instead
+ * of calling the Huefy API, so the browser never holds an API key.
+ *
+ * The endpoint is expected to speak the protocol of the server entry's
+ * `createHuefyProxyHandler`: a JSON `{ action, request }` body, the
+ * idempotency key in an `Idempotency-Key` header, and the client's response,
+ * or an `{ error }` body, in return. Failed calls reject with an error that
+ * keeps the server-side error's `name` and `code`.
+ */
+export function createProxyClient(options: ProxyClientOptions): HuefyClient {
+  const { endpoint, headers, credentials = 'same-origin' } = options;
+
+  const post = async <T>(
+    action: HuefyProxyAction,
+    request: unknown,
+    requestOptions: HuefyRequestOptions = {},
+  ): Promise<T> => {
+    const fetchImpl = options.fetch ?? fetch;
+    const extraHeaders = typeof headers === 'function' ? await headers() : headers;
+
+    const requestHeaders = new Headers(extraHeaders);
+    requestHeaders.set('Content-Type', 'application/json');
+    if (requestOptions.idempotencyKey) {
+      requestHeaders.set(IDEMPOTENCY_KEY_HEADER, requestOptions.idempotencyKey);
+    }
+
+    const body: HuefyProxyRequestBody = request === undefined ? { action } : { action, request };
+    const response = await fetchImpl(endpoint, {
+      method: 'POST',
+      headers: requestHeaders,
+      body: JSON.stringify(body),
+      credentials,
+      signal: requestOptions.signal,
+    });
+
+    const payload: unknown = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw deserializeProxyError(payload, response.status);
+    }
+    return payload as T;
+  };
+
+  return {
+    sendEmail: (request, requestOptions) => post('sendEmail', request, requestOptions),
+    sendBulkEmails: (request, requestOptions) => post('sendBulkEmails', request, requestOptions),
+    healthCheck: (requestOptions) => post('healthCheck', undefined, requestOptions),
+    getBatchStatus: (batchId, requestOptions) => post('getBatchStatus', { batchId }, requestOptions),
+  };
+}
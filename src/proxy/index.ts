@@ -0,0 +1,8 @@
+export { createProxyClient } from './createProxyClient';
+export type { ProxyClientOptions } from './createProxyClient';
+export {
+  IDEMPOTENCY_KEY_HEADER,
+  serializeProxyError,
+  deserializeProxyError,
+} from './protocol';
+export type { HuefyProxyAction, HuefyProxyRequestBody, HuefyProxyErrorBody } from './protocol';
@@ -0,0 +1,93 @@
+import type { EmailProvider } from '../types/email';
+
+/** Client methods a proxy endpoint can forward. */
+export type HuefyProxyAction = 'sendEmail' | 'sendBulkEmails' | 'healthCheck' | 'getBatchStatus';
+
+export const PROXY_ACTIONS: readonly HuefyProxyAction[] = [
+  'sendEmail',
+  'sendBulkEmails',
+  'healthCheck',
+  'getBatchStatus',
+];
+
+export const EMAIL_PROVIDERS: readonly EmailProvider[] = ['ses', 'sendgrid', 'mailgun', 'mailchimp'];
+
+/** Header carrying the idempotency key of a proxied send. */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * Body the proxy client posts to the endpoint.
+ */
+export interface HuefyProxyRequestBody {
+  action: HuefyProxyAction;
+  /**
+   * The client method's request argument: `{ batchId }` for
+   * `getBatchStatus`, absent for `healthCheck`.
+   */
+  request?: unknown;
+}
+
+/**
+ * Body the endpoint responds with when a call fails.
+ */
+export interface HuefyProxyErrorBody {
+  error: {
+    name: string;
+    message: string;
+    code?: string | number;
+    statusCode?: number;
+    retryAfter?: number;
+    correlationId?: string;
+    field?: string;
+  };
+}
+
+const FORWARDED_FIELDS = ['code', 'statusCode', 'retryAfter', 'correlationId', 'field'] as const;
+
+/** Fields the core client may report in `details` instead of on the error. */
+const DETAIL_FIELDS: readonly string[] = ['retryAfter', 'correlationId', 'field'];
+
+/**
+ * Converts an error into the JSON body sent to the browser. Only the fields
+ * the hooks use to classify errors are kept, lifted out of `details` where
+ * the core client reports them there; stacks, causes and the rest of
+ * `details` are dropped.
+ */
+export function serializeProxyError(error: unknown): HuefyProxyErrorBody {
+  const source = error instanceof Error ? error : new Error(String(error));
+  const body: HuefyProxyErrorBody['error'] = { name: source.name, message: source.message };
+  const { details } = source as { details?: unknown };
+
+  for (const field of FORWARDED_FIELDS) {
+    const value =
+      (source as unknown as Record<string, unknown>)[field] ??
+      (DETAIL_FIELDS.includes(field) && typeof details === 'object' && details !== null
+        ? (details as Record<string, unknown>)[field]
+        : undefined);
+    if (value !== undefined) {
+      (body as Record<string, unknown>)[field] = value;
+    }
+  }
+
+  return { error: body };
+}
+
+/**
+ * Rebuilds an error from an endpoint's error body. The original `name` and
+ * `code` are kept, so `describeError` classifies it like the server-side
+ * error.
+ */
+export function deserializeProxyError(body: unknown, status: number): Error {
+  const payload = (body as Partial<HuefyProxyErrorBody> | null)?.error;
+  if (!payload || typeof payload.message !== 'string') {
+    return Object.assign(new Error(`Huefy proxy request failed with status ${status}`), {
+      name: 'HuefyProxyError',
+      statusCode: status,
+    });
+  }
+
+  const { name, message, ...fields } = payload;
+  return Object.assign(new Error(message), { statusCode: status }, fields, {
+    name: typeof name === 'string' ? name : 'HuefyProxyError',
+  });
+}
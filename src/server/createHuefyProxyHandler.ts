@@ -0,0 +1,295 @@
+import { describeError } from '../errors';
+import {
+  EMAIL_PROVIDERS,
+  IDEMPOTENCY_KEY_HEADER,
+  PROXY_ACTIONS,
+  serializeProxyError,
+} from '../proxy/protocol';
+import type { HuefyProxyAction, HuefyProxyRequestBody } from '../proxy/protocol';
+import type { HuefyRequestOptions } from '../types/client';
+import type {
+  BulkRecipient,
+  EmailRecipient,
+  RecipientType,
+  SendBulkEmailsRequest,
+  SendEmailRequest,
+  SingleRecipient,
+} from '../types/email';
+import { validateRecipient, validateRecipientObject } from '../utils/recipient';
+import { lazyClient } from './lazyClient';
+import type { HuefyServerClientSource } from './lazyClient';
+
+export interface HuefyProxyHandlerOptions extends HuefyServerClientSource {
+  /**
+   * Template keys the browser may send. A function decides per request, e.g.
+   * based on the signed-in user.
+   */
+  templates:
+    | readonly string[]
+    | ((templateKey: string, request: Request) => boolean | Promise<boolean>);
+  /**
+   * Actions the endpoint forwards. Defaults to `sendEmail`, `sendBulkEmails`
+   * and `healthCheck`, plus `getBatchStatus` when `authorizeBatch` is set.
+   */
+  actions?: readonly HuefyProxyAction[];
+  /**
+   * Checks the incoming request before anything is forwarded, e.g. that
+   * there is a session. Returning false responds with 401. An endpoint
+   * open to everyone has to say so with `() => true`.
+   */
+  authorize: (request: Request) => boolean | Promise<boolean>;
+  /**
+   * Decides whether the request may read a batch, e.g. that the signed-in
+   * user sent it. Returning false responds with 403. Required to forward
+   * `getBatchStatus`, since batch ids alone do not tell whose batch it is.
+   */
+  authorizeBatch?: (batchId: string, request: Request) => boolean | Promise<boolean>;
+  /** Maximum recipients of a bulk send. Defaults to 1000. */
+  maxBulkRecipients?: number;
+}
+
+class ProxyRequestError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+    readonly code: string,
+    readonly field?: string,
+  ) {
+    super(message);
+    this.name = 'HuefyProxyError';
+  }
+}
+
+const UNGUARDED_ACTIONS = PROXY_ACTIONS.filter((action) => action !== 'getBatchStatus');
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function invalid(message: string, field?: string): ProxyRequestError {
+  return new ProxyRequestError(message, 400, 'INVALID_REQUEST', field);
+}
+
+function json(body: unknown, status: number, headers: HeadersInit = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+function recipientProblem(field: string, problem: string | null): void {
+  if (problem) {
+    throw new ProxyRequestError(`${field}: ${problem}`, 400, 'INVALID_RECIPIENT', field);
+  }
+}
+
+/** Copies the known fields of a recipient object, so nothing else is forwarded. */
+function parseRecipientObject(value: Record<string, unknown>, field: string): EmailRecipient {
+  const { email, type, data } = value;
+  if (typeof email !== 'string') throw invalid(`${field}.email must be a string`, field);
+  if (type !== undefined && typeof type !== 'string') {
+    throw invalid(`${field}.type must be a string`, field);
+  }
+  if (data !== undefined && !isObject(data)) throw invalid(`${field}.data must be an object`, field);
+  recipientProblem(field, validateRecipientObject({ email, type: type as RecipientType | undefined }));
+
+  return {
+    email,
+    ...(type !== undefined ? { type: type as RecipientType } : {}),
+    ...(data !== undefined ? { data } : {}),
+  };
+}
+
+function parseRecipient(value: unknown, field: string): SingleRecipient {
+  if (isObject(value)) return parseRecipientObject(value, field);
+  if (typeof value !== 'string') {
+    throw invalid(`${field} must be an email address or a recipient object`, field);
+  }
+  recipientProblem(field, validateRecipient(value));
+  return value;
+}
+
+function parseCommon(request: Record<string, unknown>) {
+  const { templateKey, provider } = request;
+  if (typeof templateKey !== 'string' || templateKey.trim().length === 0) {
+    throw invalid('templateKey must be a non-empty string', 'templateKey');
+  }
+  if (provider !== undefined && !EMAIL_PROVIDERS.includes(provider as never)) {
+    throw invalid(`provider must be one of: ${EMAIL_PROVIDERS.join(', ')}`, 'provider');
+  }
+  return { templateKey, provider: provider as SendEmailRequest['provider'] };
+}
+
+function parseSendEmail(request: unknown): SendEmailRequest {
+  if (!isObject(request)) throw invalid('request must be an object');
+  const { templateKey, provider } = parseCommon(request);
+
+  const data = request.data ?? {};
+  if (!isObject(data)) throw invalid('data must be an object', 'data');
+
+  return {
+    templateKey,
+    data,
+    recipient: parseRecipient(request.recipient, 'recipient'),
+    ...(provider ? { provider } : {}),
+  };
+}
+
+function parseSendBulkEmails(request: unknown, maxRecipients: number): SendBulkEmailsRequest {
+  if (!isObject(request)) throw invalid('request must be an object');
+  const { templateKey, provider } = parseCommon(request);
+
+  const { recipients } = request;
+  if (!Array.isArray(recipients) || recipients.length === 0) {
+    throw invalid('recipients must be a non-empty array', 'recipients');
+  }
+  if (recipients.length > maxRecipients) {
+    throw invalid(`recipients must not contain more than ${maxRecipients} entries`, 'recipients');
+  }
+
+  const parsed = recipients.map((recipient, index): BulkRecipient => {
+    const field = `recipients[${index}]`;
+    if (!isObject(recipient)) throw invalid(`${field} must be a recipient object`, field);
+    return parseRecipientObject(recipient, field);
+  });
+
+  return { templateKey, recipients: parsed, ...(provider ? { provider } : {}) };
+}
+
+function errorStatus(error: unknown): number {
+  const statusCode = (error as { statusCode?: unknown } | null)?.statusCode;
+  if (typeof statusCode === 'number' && statusCode >= 400 && statusCode < 600) {
+    return statusCode;
+  }
+  const { kind } = describeError(error);
+  return kind === 'network' || kind === 'circuit-open' || kind === 'provider' ? 502 : 500;
+}
+
+/**
+ * Creates a Fetch API request handler that forwards the calls of
+ * `createProxyClient` to the Huefy API, so the API key stays on the server.
+ *
+ * The handler only accepts `POST` requests, checks `authorize`, validates
+ * the payload, and rejects template keys outside the `templates` allowlist
+ * and batches `authorizeBatch` does not allow before anything is sent.
+ * Errors are answered with their HTTP status and an `{ error }` body the
+ * proxy client turns back into an error. It runs wherever `Request` and
+ * `Response` exist: Next.js route handlers, Remix, Workers, Deno, Bun, and
+ * Node 18+; `toNodeHandler` adapts it to Express.
+ *
+ * @throws Error if `authorize` is missing, or if `actions` includes
+ * `getBatchStatus` but `authorizeBatch` is missing.
+ *
+ * @example
+ * ```ts
+ * // app/api/huefy/route.ts
+ * import { createHuefyProxyHandler } from '@teracrafts/huefy-react/server';
+ *
+ * export const POST = createHuefyProxyHandler({
+ *   config: { apiKey: process.env.HUEFY_API_KEY! },
+ *   templates: ['welcome-email', 'password-reset'],
+ *   authorize: async (request) => Boolean(await getSession(request)),
+ * });
+ * ```
+ */
+export function createHuefyProxyHandler(
+  options: HuefyProxyHandlerOptions,
+): (request: Request) => Promise<Response> {
+  const {
+    templates,
+    authorize,
+    authorizeBatch,
+    actions = authorizeBatch ? PROXY_ACTIONS : UNGUARDED_ACTIONS,
+    maxBulkRecipients = 1000,
+  } = options;
+  if (typeof authorize !== 'function') {
+    throw new Error('createHuefyProxyHandler needs `authorize`; pass `() => true` for a public endpoint');
+  }
+  if (actions.includes('getBatchStatus') && !authorizeBatch) {
+    throw new Error('createHuefyProxyHandler needs `authorizeBatch` to forward getBatchStatus');
+  }
+  const getClient = lazyClient(options, 'createHuefyProxyHandler');
+
+  const isTemplateAllowed = async (templateKey: string, request: Request) =>
+    typeof templates === 'function' ? templates(templateKey, request) : templates.includes(templateKey);
+
+  return async (request) => {
+    try {
+      if (request.method !== 'POST') {
+        return json(
+          serializeProxyError(new ProxyRequestError('Method not allowed', 405, 'METHOD_NOT_ALLOWED')),
+          405,
+          { Allow: 'POST' },
+        );
+      }
+      if (!(await authorize(request))) {
+        throw new ProxyRequestError('Unauthorized', 401, 'UNAUTHORIZED');
+      }
+
+      const body: unknown = await request.json().catch(() => {
+        throw invalid('Request body must be JSON');
+      });
+      if (!isObject(body) || !PROXY_ACTIONS.includes(body.action as HuefyProxyAction)) {
+        throw invalid(`action must be one of: ${PROXY_ACTIONS.join(', ')}`, 'action');
+      }
+      const { action, request: payload } = body as unknown as HuefyProxyRequestBody;
+      if (!actions.includes(action)) {
+        throw new ProxyRequestError(`Action ${action} is not allowed`, 403, 'ACTION_NOT_ALLOWED');
+      }
+
+      const idempotencyKey = request.headers.get(IDEMPOTENCY_KEY_HEADER) ?? undefined;
+      const forwardOptions: HuefyRequestOptions = {
+        signal: request.signal,
+        ...(idempotencyKey ? { idempotencyKey } : {}),
+      };
+
+      if (action === 'healthCheck') {
+        return json(await getClient().healthCheck({ signal: request.signal }), 200);
+      }
+      if (action === 'getBatchStatus') {
+        const batchId = isObject(payload) ? payload.batchId : undefined;
+        if (typeof batchId !== 'string' || batchId.trim().length === 0) {
+          throw invalid('batchId must be a non-empty string', 'batchId');
+        }
+        if (!(await authorizeBatch!(batchId, request))) {
+          throw new ProxyRequestError(
+            `Batch ${batchId} may not be read through this endpoint`,
+            403,
+            'BATCH_NOT_ALLOWED',
+            'batchId',
+          );
+        }
+        const client = getClient();
+        if (!client.getBatchStatus) {
+          throw new ProxyRequestError(
+            'The Huefy client does not implement getBatchStatus; the core HuefyEmailClient has none',
+            501,
+            'NOT_SUPPORTED',
+          );
+        }
+        return json(await client.getBatchStatus(batchId, { signal: request.signal }), 200);
+      }
+
+      const parsed =
+        action === 'sendEmail'
+          ? parseSendEmail(payload)
+          : parseSendBulkEmails(payload, maxBulkRecipients);
+      if (!(await isTemplateAllowed(parsed.templateKey, request))) {
+        throw new ProxyRequestError(
+          `Template ${parsed.templateKey} may not be sent through this endpoint`,
+          403,
+          'TEMPLATE_NOT_ALLOWED',
+          'templateKey',
+        );
+      }
+
+      const response =
+        action === 'sendEmail'
+          ? await getClient().sendEmail(parsed as SendEmailRequest, forwardOptions)
+          : await getClient().sendBulkEmails(parsed as SendBulkEmailsRequest, forwardOptions);
+      return json(response, 200);
+    } catch (err) {
+      return json(serializeProxyError(err), errorStatus(err));
+    }
+  };
+}
@@ -0,0 +1,100 @@
+import type { HuefyRequestOptions } from '../types/client';
+import type {
+  BulkRecipient,
+  EmailProvider,
+  HealthCheckResponse,
+  SendBulkEmailsResponse,
+  SendEmailResponse,
+  SingleRecipient,
+  TemplateData,
+  TemplateKey,
+} from '../types/email';
+import { chunkRecipients, mergeBulkResponses } from '../utils/bulk';
+import { lazyClient } from './lazyClient';
+import type { HuefyServerClientSource } from './lazyClient';
+
+export interface HuefyServerSendOptions extends HuefyRequestOptions {
+  provider?: EmailProvider;
+}
+
+export interface HuefyServerBulkOptions extends HuefyServerSendOptions {
+  /**
+   * Split the recipients into sequential requests of at most this many.
+   * Chunk `n` is sent with the idempotency key `<key>:<n>`, like
+   * `useSendBulkEmails`.
+   */
+  chunkSize?: number;
+}
+
+/**
+ * Send helpers for server code, typed by the `HuefyTemplates` registry.
+ */
+export interface HuefyServer {
+  sendEmail<K extends TemplateKey>(
+    templateKey: K,
+    data: TemplateData<K>,
+    recipient: SingleRecipient,
+    options?: HuefyServerSendOptions,
+  ): Promise<SendEmailResponse>;
+  sendBulkEmails<K extends TemplateKey>(
+    templateKey: K,
+    recipients: BulkRecipient<K>[],
+    options?: HuefyServerBulkOptions,
+  ): Promise<SendBulkEmailsResponse>;
+  healthCheck(options?: Pick<HuefyRequestOptions, 'signal'>): Promise<HealthCheckResponse>;
+}
+
+/**
+ * Creates send helpers for server actions, route handlers and jobs. They
+ * need no React tree: the client is created from `config` on first use
+ * and shared by every call.
+ *
+ * @example
+ * ```ts
+ * // app/actions.ts
+ * 'use server';
+ * import { createHuefyServer } from '@teracrafts/huefy-react/server';
+ *
+ * const huefy = createHuefyServer({ config: { apiKey: process.env.HUEFY_API_KEY! } });
+ *
+ * export async function sendWelcome(email: string) {
+ *   const { data } = await huefy.sendEmail('welcome-email', { firstName: 'Ada' }, email);
+ *   return data.emailId;
+ * }
+ * ```
+ */
+export function createHuefyServer(source: HuefyServerClientSource): HuefyServer {
+  const getClient = lazyClient(source, 'createHuefyServer');
+
+  return {
+    sendEmail(templateKey, data, recipient, options = {}) {
+      const { provider, ...requestOptions } = options;
+      return getClient().sendEmail(
+        { templateKey, data, recipient, ...(provider ? { provider } : {}) },
+        requestOptions,
+      );
+    },
+
+    async sendBulkEmails(templateKey, recipients, options = {}) {
+      const { provider, chunkSize, idempotencyKey, signal } = options;
+      const chunks = chunkRecipients(recipients as BulkRecipient[], chunkSize);
+
+      const responses: SendBulkEmailsResponse[] = [];
+      for (const [index, chunk] of chunks.entries()) {
+        const key =
+          idempotencyKey && chunks.length > 1 ? `${idempotencyKey}:${index}` : idempotencyKey;
+        responses.push(
+          await getClient().sendBulkEmails(
+            { templateKey, recipients: chunk, ...(provider ? { provider } : {}) },
+            { signal, ...(key ? { idempotencyKey: key } : {}) },
+          ),
+        );
+      }
+      return mergeBulkResponses(responses);
+    },
+
+    healthCheck(options) {
+      return getClient().healthCheck(options);
+    },
+  };
+}
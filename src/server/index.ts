@@ -0,0 +1,13 @@
+export { createHuefyServer } from './createHuefyServer';
+export type {
+  HuefyServer,
+  HuefyServerSendOptions,
+  HuefyServerBulkOptions,
+} from './createHuefyServer';
+export type { HuefyServerClientSource } from './lazyClient';
+export { createHuefyProxyHandler } from './createHuefyProxyHandler';
+export type { HuefyProxyHandlerOptions } from './createHuefyProxyHandler';
+export { toNodeHandler } from './toNodeHandler';
+export type { NodeHandlerOptions, NodeRequestLike, NodeResponseLike } from './toNodeHandler';
+export { IDEMPOTENCY_KEY_HEADER } from '../proxy/protocol';
+export type { HuefyProxyAction, HuefyProxyErrorBody, HuefyProxyRequestBody } from '../proxy/protocol';
@@ -0,0 +1,36 @@
+import { HuefyEmailClient } from '@teracrafts/huefy';
+import type { HuefyConfig } from '@teracrafts/huefy';
+import type { HuefyClient } from '../types/client';
+
+/**
+ * Where server-side helpers get their client from.
+ */
+export interface HuefyServerClientSource {
+  /** Configuration of the `HuefyEmailClient` to create. */
+  config?: HuefyConfig;
+  /** A client to use instead of creating one from `config`. */
+  client?: HuefyClient;
+}
+
+function createClient(config: HuefyConfig): HuefyClient {
+  return new HuefyEmailClient(config);
+}
+
+/**
+ * Returns a getter for the source's client. A client is only created from
+ * `config` on first use, so importing a route or action module does not
+ * touch the API key.
+ *
+ * @throws Error naming `caller` if the source has neither `config` nor `client`.
+ */
+export function lazyClient(source: HuefyServerClientSource, caller: string): () => HuefyClient {
+  if (!source.client && !source.config) {
+    throw new Error(`${caller} needs either \`config\` or \`client\``);
+  }
+
+  let client = source.client ?? null;
+  return () => {
+    client ??= createClient(source.config!);
+    return client;
+  };
+}
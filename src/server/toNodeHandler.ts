@@ -0,0 +1,132 @@
+import { serializeProxyError } from '../proxy/protocol';
+
+/**
+ * The parts of Node's `IncomingMessage` the adapter reads. Express and
+ * Connect requests satisfy it.
+ */
+export interface NodeRequestLike extends AsyncIterable<Uint8Array | string> {
+  method?: string;
+  url?: string;
+  headers: Record<string, string | string[] | undefined>;
+  /** A body already parsed by middleware such as `express.json()`. */
+  body?: unknown;
+}
+
+/**
+ * The parts of Node's `ServerResponse` the adapter writes.
+ */
+export interface NodeResponseLike {
+  statusCode: number;
+  setHeader(name: string, value: string): unknown;
+  end(body?: string): unknown;
+}
+
+export interface NodeHandlerOptions {
+  /** Largest request body read from the stream, in bytes. Defaults to 1 MiB. */
+  maxBodySize?: number;
+}
+
+class BodyReadError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+    readonly code: string,
+  ) {
+    super(message);
+    this.name = 'HuefyProxyError';
+  }
+}
+
+async function readBody(request: NodeRequestLike, maxBodySize: number): Promise<string> {
+  if (request.body !== undefined) {
+    return typeof request.body === 'string' ? request.body : JSON.stringify(request.body);
+  }
+
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  let size = 0;
+  let text = '';
+  for await (const chunk of request) {
+    size += typeof chunk === 'string' ? encoder.encode(chunk).byteLength : chunk.byteLength;
+    if (size > maxBodySize) {
+      throw new BodyReadError(
+        `Request body must not be larger than ${maxBodySize} bytes`,
+        413,
+        'PAYLOAD_TOO_LARGE',
+      );
+    }
+    text += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+  }
+  return text + decoder.decode();
+}
+
+/** Maps a failed body read to an error the client can be answered with. */
+function bodyReadError(error: unknown): BodyReadError {
+  if (error instanceof BodyReadError) return error;
+  // Body parsers such as `express.json()` mark oversized bodies with a 413 status
+  const { status, statusCode } = (error ?? {}) as { status?: unknown; statusCode?: unknown };
+  return status === 413 || statusCode === 413
+    ? new BodyReadError('Request body is too large', 413, 'PAYLOAD_TOO_LARGE')
+    : new BodyReadError('Request body could not be read', 400, 'INVALID_REQUEST');
+}
+
+/**
+ * Adapts a Fetch API handler, such as the one from
+ * `createHuefyProxyHandler`, to Node's `(req, res)` signature for Express,
+ * Connect or `http.createServer`.
+ *
+ * A body already parsed by `express.json()` is used as is; otherwise the
+ * request stream is read, up to `maxBodySize` bytes. A body that cannot be
+ * read, e.g. because the client aborted, is answered with a 400, and one
+ * over the limit with a 413.
+ *
+ * @example
+ * ```ts
+ * app.post('/api/huefy', toNodeHandler(createHuefyProxyHandler({ config, templates, authorize })));
+ * ```
+ */
+export function toNodeHandler(
+  handler: (request: Request) => Promise<Response>,
+  options: NodeHandlerOptions = {},
+): (req: NodeRequestLike, res: NodeResponseLike) => Promise<void> {
+  const { maxBodySize = 1024 * 1024 } = options;
+
+  const send = async (res: NodeResponseLike, response: Response) => {
+    res.statusCode = response.status;
+    response.headers.forEach((value, name) => {
+      res.setHeader(name, value);
+    });
+    res.end(await response.text());
+  };
+
+  return async (req, res) => {
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(req.headers)) {
+      // The body may be re-serialized, so its original framing no longer applies
+      if (value === undefined || name === 'content-length' || name === 'transfer-encoding') continue;
+      headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+    }
+
+    const method = req.method ?? 'GET';
+    let body: string | undefined;
+    if (method !== 'GET' && method !== 'HEAD') {
+      try {
+        body = await readBody(req, maxBodySize);
+      } catch (err) {
+        const error = bodyReadError(err);
+        await send(
+          res,
+          new Response(JSON.stringify(serializeProxyError(error)), {
+            status: error.statusCode,
+            headers: { 'Content-Type': 'application/json' },
+          }),
+        );
+        return;
+      }
+    }
+
+    const host = headers.get('host') ?? 'localhost';
+    const request = new Request(new URL(req.url ?? '/', `http://${host}`), { method, headers, body });
+    await send(res, await handler(request));
+  };
+}
@@ -0,0 +1,85 @@
+import { useContext, useMemo, useState } from 'react';
+import type { HuefyEmailClient } from '@teracrafts/huefy';
+import { getOrCreateClientsContext, getOrCreateContext } from '../context';
+import type { HuefyContextValue } from '../types';
+import type { HuefyClient } from '../types/client';
+import { createFakeClient, rememberFakeClient } from './createFakeClient';
+import type { FakeHuefyClient } from './createFakeClient';
+
+export interface MockHuefyProviderProps {
+  /** The client the hooks use. Defaults to a new `createFakeClient()`. */
+  client?: HuefyClient;
+  /** Register the mock under a name, like `HuefyProvider`'s `name`. */
+  name?: string;
+  /**
+   * Overrides of the context value, e.g. `{ isReady: false, isLoading: true }`
+   * to render the loading state or `{ rateLimit }` to simulate a limit.
+   */
+  value?: Partial<HuefyContextValue>;
+  children: React.ReactNode;
+}
+
+const noop = () => {};
+
+/**
+ * Drop-in replacement for `HuefyProvider` in tests.
+ *
+ * It is ready on the first render, without creating a core client or
+ * waiting for an effect, and hands the hooks a recording fake client
+ * unless one is passed in. `expectEmailSent` without a client checks the
+ * fake it created.
+ *
+ * @example
+ * ```tsx
+ * render(
+ *   <MockHuefyProvider>
+ *     <WelcomeForm />
+ *   </MockHuefyProvider>,
+ * );
+ * fireEvent.click(screen.getByText('Send'));
+ * await waitFor(() => expectEmailSent({ templateKey: 'welcome-email' }));
+ * ```
+ */
+export function MockHuefyProvider({ client, name, value, children }: MockHuefyProviderProps) {
+  const Context = getOrCreateContext();
+  const ClientsContext = getOrCreateClientsContext();
+  const parentClients = useContext(ClientsContext);
+
+  const [defaultClient] = useState<FakeHuefyClient | null>(() =>
+    client ? null : createFakeClient(),
+  );
+  // Exposed under the core client's type, like a client passed to `HuefyProvider`
+  const activeClient = (client ?? defaultClient!) as unknown as HuefyEmailClient;
+  if (defaultClient && !client) rememberFakeClient(defaultClient);
+
+  const ready = useMemo(() => Promise.resolve(activeClient), [activeClient]);
+
+  const contextValue = useMemo(
+    (): HuefyContextValue => ({
+      client: activeClient,
+      isReady: true,
+      isLoading: false,
+      error: null,
+      connectionStatus: 'initialized',
+      health: null,
+      outbox: null,
+      rateLimit: null,
+      circuitBreaker: null,
+      ready,
+      reinitialize: noop,
+      ...value,
+    }),
+    [activeClient, ready, value],
+  );
+
+  const clients = useMemo(
+    () => (name === undefined ? parentClients : { ...parentClients, [name]: contextValue }),
+    [name, parentClients, contextValue],
+  );
+
+  if (name !== undefined) {
+    return <ClientsContext.Provider value={clients}>{children}</ClientsContext.Provider>;
+  }
+
+  return <Context.Provider value={contextValue}>{children}</Context.Provider>;
+}
@@ -0,0 +1,306 @@
+import type { HuefyClient, HuefyRequestOptions } from '../types/client';
+import type {
+  HealthCheckResponse,
+  SendBulkEmailsRequest,
+  SendBulkEmailsResponse,
+  SendEmailRequest,
+  SendEmailResponse,
+} from '../types/email';
+import { createHuefyTestError } from './createHuefyTestError';
+import type { HuefyTestErrorKind } from './createHuefyTestError';
+
+type FakeMethod = 'sendEmail' | 'sendBulkEmails' | 'healthCheck' | 'getBatchStatus';
+
+interface FakeResponses {
+  sendEmail: SendEmailResponse;
+  sendBulkEmails: SendBulkEmailsResponse;
+  healthCheck: HealthCheckResponse;
+  getBatchStatus: SendBulkEmailsResponse;
+}
+
+/** A scripted failure: an error, or the kind of core error to simulate. */
+export type FakeFailure = Error | HuefyTestErrorKind;
+
+export interface FakeCall<TRequest> {
+  request: TRequest;
+  options: HuefyRequestOptions;
+}
+
+export interface FakeClientOptions {
+  /** Milliseconds every call waits before settling. Defaults to 0. */
+  latencyMs?: number;
+}
+
+/**
+ * A `HuefyClient` that records every call and answers with scripted
+ * responses or errors instead of talking to the API.
+ */
+export interface FakeHuefyClient extends HuefyClient {
+  /** Every `sendEmail` call that succeeded, in call order. */
+  readonly sentEmails: FakeCall<SendEmailRequest>[];
+  /** Every `sendBulkEmails` call that succeeded, in call order. */
+  readonly bulkSends: FakeCall<SendBulkEmailsRequest>[];
+  /** Number of `healthCheck` calls. */
+  readonly healthChecks: number;
+  /** Batch id of every `getBatchStatus` call, in call order. */
+  readonly batchStatusChecks: string[];
+  /** Whether `close` was called. */
+  readonly closed: boolean;
+  /** Answer the next call of `method` with `response`. Queued answers are used in order. */
+  respondWith<M extends FakeMethod>(method: M, response: FakeResponses[M]): void;
+  /** Fail the next `times` calls of `method` (default 1); `Infinity` fails every call. */
+  failWith(method: FakeMethod, failure: FakeFailure, options?: { times?: number }): void;
+  getBatchStatus(
+    batchId: string,
+    options?: Pick<HuefyRequestOptions, 'signal'>,
+  ): Promise<SendBulkEmailsResponse>;
+  /** Forget recorded calls and scripted answers. */
+  reset(): void;
+  close(): void;
+}
+
+type Script = { response: unknown } | { failure: FakeFailure; times: number };
+
+let lastCreated: FakeHuefyClient | null = null;
+
+/**
+ * Returns the fake client created most recently, for helpers called without
+ * an explicit client.
+ */
+export function getLastFakeClient(): FakeHuefyClient | null {
+  return lastCreated;
+}
+
+/** Makes `client` the one helpers use when called without a client. */
+export function rememberFakeClient(client: FakeHuefyClient): void {
+  lastCreated = client;
+}
+
+function abortError(): Error {
+  return Object.assign(new Error('The operation was aborted'), { name: 'AbortError' });
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    if (ms <= 0) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        reject(abortError());
+      },
+      { once: true },
+    );
+  });
+}
+
+function recipientEmail(recipient: SendEmailRequest['recipient']): string {
+  return typeof recipient === 'string' ? recipient : recipient.email;
+}
+
+/**
+ * Creates a recording fake client for tests.
+ *
+ * Calls succeed with generated responses unless an answer was scripted with
+ * `respondWith` or `failWith`. `getBatchStatus` replays the response of the
+ * recorded bulk send with that batch id. An aborted `signal` rejects the
+ * call with an `AbortError`, like the real client. The fake has no
+ * dependency on a test runner.
+ *
+ * @example
+ * ```ts
+ * const client = createFakeClient();
+ * client.failWith('sendEmail', 'rate-limited');
+ * ```
+ */
+export function createFakeClient(options: FakeClientOptions = {}): FakeHuefyClient {
+  const { latencyMs = 0 } = options;
+
+  let sentEmails: FakeCall<SendEmailRequest>[] = [];
+  let bulkSends: FakeCall<SendBulkEmailsRequest>[] = [];
+  let healthChecks = 0;
+  let batchStatusChecks: string[] = [];
+  let closed = false;
+  let counter = 0;
+  // Generated bulk responses by batch id, so status polls can replay them
+  const batches = new Map<string, SendBulkEmailsResponse>();
+  let scripts: Record<FakeMethod, Script[]> = {
+    sendEmail: [],
+    sendBulkEmails: [],
+    healthCheck: [],
+    getBatchStatus: [],
+  };
+
+  const answer = async <T>(
+    method: FakeMethod,
+    signal: AbortSignal | undefined,
+    fallback: () => T,
+  ): Promise<T> => {
+    await wait(latencyMs, signal);
+
+    const [next] = scripts[method];
+    if (!next) return fallback();
+
+    if ('response' in next) {
+      scripts[method].shift();
+      return next.response as T;
+    }
+    next.times -= 1;
+    if (next.times <= 0) scripts[method].shift();
+    throw typeof next.failure === 'string' ? createHuefyTestError(next.failure) : next.failure;
+  };
+
+  const client: FakeHuefyClient = {
+    get sentEmails() {
+      return sentEmails;
+    },
+    get bulkSends() {
+      return bulkSends;
+    },
+    get healthChecks() {
+      return healthChecks;
+    },
+    get batchStatusChecks() {
+      return batchStatusChecks;
+    },
+    get closed() {
+      return closed;
+    },
+
+    async sendEmail(request, requestOptions = {}) {
+      const response = await answer('sendEmail', requestOptions.signal, (): SendEmailResponse => {
+        const id = ++counter;
+        const now = new Date().toISOString();
+        return {
+          success: true,
+          correlationId: `fake-correlation-${id}`,
+          data: {
+            emailId: `fake-email-${id}`,
+            status: 'sent',
+            recipients: [
+              {
+                email: recipientEmail(request.recipient),
+                status: 'sent',
+                messageId: `fake-message-${id}`,
+                sentAt: now,
+              },
+            ],
+            sentAt: now,
+          },
+        };
+      });
+      sentEmails = [...sentEmails, { request, options: requestOptions }];
+      return response;
+    },
+
+    async sendBulkEmails(request, requestOptions = {}) {
+      const response = await answer(
+        'sendBulkEmails',
+        requestOptions.signal,
+        (): SendBulkEmailsResponse => {
+          const id = ++counter;
+          const now = new Date().toISOString();
+          const total = request.recipients.length;
+          return {
+            success: true,
+            correlationId: `fake-correlation-${id}`,
+            data: {
+              batchId: `fake-batch-${id}`,
+              status: 'completed',
+              templateKey: request.templateKey,
+              totalRecipients: total,
+              processedCount: total,
+              successCount: total,
+              failureCount: 0,
+              suppressedCount: 0,
+              startedAt: now,
+              completedAt: now,
+              recipients: request.recipients.map((recipient, index) => ({
+                email: recipient.email,
+                status: 'sent',
+                messageId: `fake-message-${id}-${index}`,
+                sentAt: now,
+              })),
+            },
+          };
+        },
+      );
+      bulkSends = [...bulkSends, { request, options: requestOptions }];
+      batches.set(response.data.batchId, response);
+      return response;
+    },
+
+    async healthCheck(requestOptions = {}) {
+      healthChecks += 1;
+      return answer('healthCheck', requestOptions.signal, (): HealthCheckResponse => ({
+        success: true,
+        correlationId: `fake-correlation-${++counter}`,
+        data: { status: 'healthy', timestamp: new Date().toISOString(), version: 'fake' },
+      }));
+    },
+
+    async getBatchStatus(batchId, requestOptions = {}) {
+      batchStatusChecks = [...batchStatusChecks, batchId];
+      return answer('getBatchStatus', requestOptions.signal, (): SendBulkEmailsResponse => {
+        const sent = batches.get(batchId);
+        if (sent) return sent;
+        const now = new Date().toISOString();
+        return {
+          success: true,
+          correlationId: `fake-correlation-${++counter}`,
+          data: {
+            batchId,
+            status: 'completed',
+            templateKey: 'fake',
+            totalRecipients: 0,
+            processedCount: 0,
+            successCount: 0,
+            failureCount: 0,
+            suppressedCount: 0,
+            startedAt: now,
+            completedAt: now,
+            recipients: [],
+          },
+        };
+      });
+    },
+
+    respondWith(method, response) {
+      scripts[method].push({ response });
+    },
+
+    failWith(method, failure, { times = 1 } = {}) {
+      scripts[method].push({ failure, times });
+    },
+
+    reset() {
+      sentEmails = [];
+      bulkSends = [];
+      healthChecks = 0;
+      batchStatusChecks = [];
+      batches.clear();
+      closed = false;
+      scripts = {
+        sendEmail: [],
+        sendBulkEmails: [],
+        healthCheck: [],
+        getBatchStatus: [],
+      };
+    },
+
+    close() {
+      closed = true;
+    },
+  };
+
+  lastCreated = client;
+  return client;
+}
@@ -0,0 +1,123 @@
+import {
+  AuthenticationError,
+  InsufficientQuotaError,
+  InvalidRecipientError,
+  InvalidTemplateDataError,
+  ProviderError,
+  RateLimitError,
+  TemplateNotFoundError,
+} from '@teracrafts/huefy';
+import type { HuefyErrorKind } from '../errors';
+
+export type HuefyTestErrorKind = Extract<
+  HuefyErrorKind,
+  | 'rate-limited'
+  | 'quota-exceeded'
+  | 'authentication'
+  | 'template-not-found'
+  | 'invalid-template-data'
+  | 'invalid-recipient'
+  | 'provider'
+  | 'circuit-open'
+  | 'network'
+>;
+
+interface ErrorTemplate {
+  name: string;
+  code: string;
+  message: string;
+  statusCode?: number;
+  retryAfter?: number;
+}
+
+type ErrorClass = new (message: string) => Error;
+
+// The core package has no exported class for circuit-open and network errors
+const CORE_CLASSES: Partial<Record<HuefyTestErrorKind, ErrorClass>> = {
+  'rate-limited': RateLimitError,
+  'quota-exceeded': InsufficientQuotaError,
+  authentication: AuthenticationError,
+  'template-not-found': TemplateNotFoundError,
+  'invalid-template-data': InvalidTemplateDataError,
+  'invalid-recipient': InvalidRecipientError,
+  provider: ProviderError,
+};
+
+const TEMPLATES: Record<HuefyTestErrorKind, ErrorTemplate> = {
+  'rate-limited': {
+    name: 'RateLimitError',
+    code: 'RATE_LIMIT_EXCEEDED',
+    message: 'Rate limit exceeded',
+    statusCode: 429,
+    retryAfter: 60,
+  },
+  'quota-exceeded': {
+    name: 'InsufficientQuotaError',
+    code: 'INSUFFICIENT_QUOTA',
+    message: 'Monthly email quota exceeded',
+    statusCode: 402,
+  },
+  authentication: {
+    name: 'AuthenticationError',
+    code: 'AUTHENTICATION_FAILED',
+    message: 'Invalid API key',
+    statusCode: 401,
+  },
+  'template-not-found': {
+    name: 'TemplateNotFoundError',
+    code: 'TEMPLATE_NOT_FOUND',
+    message: 'Template not found',
+    statusCode: 404,
+  },
+  'invalid-template-data': {
+    name: 'InvalidTemplateDataError',
+    code: 'INVALID_TEMPLATE_DATA',
+    message: 'Template data is invalid',
+    statusCode: 422,
+  },
+  'invalid-recipient': {
+    name: 'InvalidRecipientError',
+    code: 'INVALID_RECIPIENT',
+    message: 'Recipient address is invalid',
+    statusCode: 422,
+  },
+  provider: {
+    name: 'ProviderError',
+    code: 'PROVIDER_ERROR',
+    message: 'Email provider failed to send',
+    statusCode: 502,
+  },
+  'circuit-open': {
+    name: 'CircuitOpenError',
+    code: 'CIRCUIT_OPEN',
+    message: 'Circuit breaker is open',
+  },
+  network: {
+    name: 'NetworkError',
+    code: 'NETWORK_ERROR',
+    message: 'Network request failed',
+  },
+};
+
+/**
+ * Creates an error shaped like the one the core client throws for `kind`.
+ *
+ * It is an instance of the core error class, so `instanceof RateLimitError`
+ * and the like match, and carries the class `name`, `code`, `statusCode`
+ * and, for rate limits, `retryAfter`. Circuit-open and network errors have
+ * no exported core class and are plain `Error`s with those fields.
+ *
+ * @example
+ * ```ts
+ * client.failWith('sendEmail', createHuefyTestError('rate-limited', { retryAfter: 30 }));
+ * ```
+ */
+export function createHuefyTestError(
+  kind: HuefyTestErrorKind,
+  overrides: { message?: string } & Record<string, unknown> = {},
+): Error {
+  const { message, ...template } = TEMPLATES[kind];
+  const { message: overrideMessage, ...extra } = overrides;
+  const ErrorClass = CORE_CLASSES[kind] ?? Error;
+  return Object.assign(new ErrorClass(overrideMessage ?? message), template, extra);
+}
@@ -0,0 +1,113 @@
+import type { SendEmailRequest, SingleRecipient } from '../types/email';
+import { getLastFakeClient } from './createFakeClient';
+import type { FakeCall, FakeHuefyClient } from './createFakeClient';
+
+/**
+ * Fields an expected email is matched on. Omitted fields match anything;
+ * `data` matches when it contains the given values.
+ */
+export interface SentEmailMatcher {
+  templateKey?: string;
+  /** An address, or a recipient object whose given fields must match. */
+  recipient?: SingleRecipient;
+  data?: Record<string, unknown>;
+  provider?: SendEmailRequest['provider'];
+}
+
+function containsValues(actual: unknown, expected: unknown): boolean {
+  if (expected === null || typeof expected !== 'object') {
+    return Object.is(actual, expected);
+  }
+  if (actual === null || typeof actual !== 'object') return false;
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length === expected.length &&
+      expected.every((item, index) => containsValues(actual[index], item))
+    );
+  }
+  return Object.entries(expected).every(([key, value]) =>
+    containsValues((actual as Record<string, unknown>)[key], value),
+  );
+}
+
+function matchesRecipient(actual: SingleRecipient, expected: SingleRecipient): boolean {
+  const actualRecipient = typeof actual === 'string' ? { email: actual } : actual;
+  const expectedRecipient = typeof expected === 'string' ? { email: expected } : expected;
+  return containsValues(actualRecipient, expectedRecipient);
+}
+
+function matches(request: SendEmailRequest, matcher: SentEmailMatcher): boolean {
+  return (
+    (matcher.templateKey === undefined || request.templateKey === matcher.templateKey) &&
+    (matcher.recipient === undefined || matchesRecipient(request.recipient, matcher.recipient)) &&
+    (matcher.data === undefined || containsValues(request.data, matcher.data)) &&
+    (matcher.provider === undefined || request.provider === matcher.provider)
+  );
+}
+
+function resolveClient(client: FakeHuefyClient | undefined, helper: string): FakeHuefyClient {
+  const resolved = client ?? getLastFakeClient();
+  if (!resolved) {
+    throw new Error(`${helper} needs a fake client; create one with createFakeClient() first`);
+  }
+  return resolved;
+}
+
+function describeSent(sent: FakeCall<SendEmailRequest>[]): string {
+  if (sent.length === 0) return 'No emails were sent.';
+  const lines = sent.map(
+    ({ request }) => `  - ${request.templateKey} to ${JSON.stringify(request.recipient)}`,
+  );
+  return `Sent emails:\n${lines.join('\n')}`;
+}
+
+/**
+ * Returns the emails sent through a fake client that match `matcher`.
+ * Without a client, the most recently created fake client is used.
+ */
+export function findSentEmails(
+  matcher: SentEmailMatcher = {},
+  client?: FakeHuefyClient,
+): SendEmailRequest[] {
+  return resolveClient(client, 'findSentEmails')
+    .sentEmails.map(({ request }) => request)
+    .filter((request) => matches(request, matcher));
+}
+
+/**
+ * Throws unless an email matching `matcher` was sent through the fake
+ * client, listing the emails that were sent. Works in any test runner.
+ *
+ * Without a client, the most recently created fake client is used — the
+ * one `MockHuefyProvider` creates when it is not given one.
+ *
+ * @example
+ * ```ts
+ * expectEmailSent({ templateKey: 'welcome', recipient: 'ada@example.com' });
+ * ```
+ */
+export function expectEmailSent(matcher: SentEmailMatcher, client?: FakeHuefyClient): void {
+  const resolved = resolveClient(client, 'expectEmailSent');
+  if (findSentEmails(matcher, resolved).length > 0) return;
+
+  throw new Error(
+    `Expected an email matching ${JSON.stringify(matcher)} to have been sent.\n` +
+      describeSent(resolved.sentEmails),
+  );
+}
+
+/**
+ * Throws if any email (or any email matching `matcher`) was sent through the
+ * fake client.
+ */
+export function expectNoEmailSent(matcher: SentEmailMatcher = {}, client?: FakeHuefyClient): void {
+  const resolved = resolveClient(client, 'expectNoEmailSent');
+  const found = findSentEmails(matcher, resolved);
+  if (found.length === 0) return;
+
+  throw new Error(
+    `Expected no email matching ${JSON.stringify(matcher)} to have been sent.\n` +
+      describeSent(resolved.sentEmails),
+  );
+}
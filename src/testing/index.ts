@@ -0,0 +1,8 @@
+export { MockHuefyProvider } from './MockHuefyProvider';
+export type { MockHuefyProviderProps } from './MockHuefyProvider';
+export { createFakeClient } from './createFakeClient';
+export type { FakeCall, FakeClientOptions, FakeFailure, FakeHuefyClient } from './createFakeClient';
+export { createHuefyTestError } from './createHuefyTestError';
+export type { HuefyTestErrorKind } from './createHuefyTestError';
+export { expectEmailSent, expectNoEmailSent, findSentEmails } from './expectEmailSent';
+export type { SentEmailMatcher } from './expectEmailSent';
@@ -1,24 +1,141 @@
-import type { HuefyEmailClient, HuefyConfig } from '@teracrafts/huefy';
+import type { HuefyConfig, HuefyEmailClient, RateLimitInfo } from '@teracrafts/huefy';
+import type { HuefyErrorDescriptor } from './errors';
+import type { CircuitBreakerMirror } from './types/circuitBreaker';
+import type { ProxyClientOptions } from './proxy/createProxyClient';
+import type { HuefyClient } from './types/client';
+import type { HealthCheckResponseData } from './types/email';
+import type { Outbox, OutboxOptions } from './types/outbox';
 
 /**
- * Props for the HuefyProvider component.
+ * Props shared by both ways of supplying the client to HuefyProvider.
  */
-export interface HuefyProviderProps {
-  /** Configuration for the Huefy client. */
-  config: HuefyConfig;
+interface HuefyProviderBaseProps {
   /** Callback invoked when the client is ready. */
   onReady?: () => void;
   /** Callback invoked when client initialization fails. */
   onError?: (error: Error) => void;
+  /**
+   * Run a health check against the API as part of initialization. The
+   * result is reported through `connectionStatus` and `health` on the
+   * context; an unreachable API does not fail initialization.
+   */
+  healthCheck?: boolean;
+  /**
+   * Enable the offline outbox: sends that fail with a retryable error are
+   * stored and replayed with backoff when the browser comes back online or
+   * the provider mounts. Pass `true` for in-memory storage and defaults, or
+   * options to choose the storage adapter and retry policy. Read on mount.
+   */
+  outbox?: boolean | OutboxOptions;
+  /**
+   * Suspend hooks until the client is initialized instead of reporting
+   * `isLoading`, and throw initialization errors to the nearest error
+   * boundary. Place the `<Suspense>` boundary inside the provider: the
+   * client is created once the provider has mounted.
+   */
+  suspense?: boolean;
+  /**
+   * Retry a failed initialization with exponential backoff. Pass `true` for
+   * the defaults or options to tune the policy. While retrying the provider
+   * stays `isLoading`; `error` and `onError` report the last failure once
+   * the attempts are exhausted.
+   */
+  retryInitialization?: boolean | InitializationRetryOptions;
+  /**
+   * Register this client under a name, for apps that send from several
+   * Huefy projects. Hooks select it with their `client` option; a named
+   * provider does not replace the unnamed one above it.
+   */
+  name?: string;
   /** Child components that will have access to the Huefy context. */
   children: React.ReactNode;
 }
 
+/**
+ * Props for the HuefyProvider component.
+ *
+ * Pass either `config`, to have the provider create, own and close a
+ * `HuefyEmailClient`, `client`, to use a client created elsewhere, or
+ * `proxy`, to send through the app's own backend.
+ */
+export type HuefyProviderProps = HuefyProviderBaseProps &
+  (
+    | {
+        /** Configuration for the Huefy client. */
+        config: HuefyConfig;
+        client?: never;
+        proxy?: never;
+      }
+    | {
+        /**
+         * A pre-built or custom client. The provider uses it as is: it is
+         * not initialized or closed by the provider, and its rate-limit
+         * updates are not captured into the context.
+         */
+        client: HuefyClient;
+        config?: never;
+        proxy?: never;
+      }
+    | {
+        /**
+         * Send through an app-owned endpoint instead of the Huefy API, so no
+         * API key reaches the browser. Pass the endpoint URL or proxy client
+         * options; the options are read again only when the endpoint changes.
+         */
+        proxy: string | ProxyClientOptions;
+        config?: never;
+        client?: never;
+      }
+  );
+
+/**
+ * Backoff policy for retrying a failed client initialization.
+ */
+export interface InitializationRetryOptions {
+  /** Attempts, including the first, before giving up. Defaults to 3. */
+  maxAttempts?: number;
+  /** Delay before the first retry, doubled for each further one. Defaults to 1000 ms. */
+  baseDelayMs?: number;
+  /** Upper bound for the delay between attempts. Defaults to 30000 ms. */
+  maxDelayMs?: number;
+}
+
+/**
+ * Connection state reported by the provider.
+ *
+ * - `initializing`: the client is being created.
+ * - `initialized`: the client is ready; the API has not been probed.
+ * - `reachable`: the initialization health check succeeded.
+ * - `unreachable`: the initialization health check failed.
+ * - `error`: the client could not be created.
+ */
+export type ConnectionStatus = 'initializing' | 'initialized' | 'reachable' | 'unreachable' | 'error';
+
+/**
+ * Latest rate-limit window reported by the API.
+ */
+export interface RateLimitState {
+  /** Requests allowed per window, if reported. */
+  limit: number | null;
+  /** Requests left in the current window, if reported. */
+  remaining: number | null;
+  /** Epoch milliseconds when the window resets, if reported. */
+  resetAt: number | null;
+  /** Epoch milliseconds when this update was received. */
+  updatedAt: number;
+  /** The update as reported by the core client. */
+  info: RateLimitInfo;
+}
+
 /**
  * Value provided by the Huefy React context.
  */
 export interface HuefyContextValue {
-  /** The initialized Huefy client instance, or null if not yet ready. */
+  /**
+   * The initialized Huefy client instance, or null if not yet ready. A
+   * client passed to the provider as `client` or `proxy` is exposed as is
+   * and only implements the `HuefyClient` methods.
+   */
   client: HuefyEmailClient | null;
   /** Whether the client has been successfully initialized. */
   isReady: boolean;
@@ -26,8 +143,120 @@ export interface HuefyContextValue {
   isLoading: boolean;
   /** Error that occurred during initialization, if any. */
   error: Error | null;
+  /** Connection state, including the result of the optional health probe. */
+  connectionStatus?: ConnectionStatus;
+  /** Result of the initialization health probe, when one was run and succeeded. */
+  health?: HealthCheckResponseData | null;
+  /** The offline outbox, when enabled on the provider. */
+  outbox?: Outbox | null;
+  /** Latest rate-limit update, or null before the first response. */
+  rateLimit?: RateLimitState | null;
+  /** Mirror of the client's circuit breaker, fed by the hooks. */
+  circuitBreaker?: CircuitBreakerMirror | null;
+  /** Whether hooks suspend until the client is ready. */
+  suspense?: boolean;
+  /**
+   * Settles when the current initialization does: resolves with the client
+   * or rejects with the initialization error. Can be passed to React 19 `use`.
+   */
+  ready?: Promise<HuefyEmailClient>;
+  /**
+   * Closes the current client, if any, and initializes a new one with the
+   * same config. Cancels a pending automatic retry and starts a fresh
+   * series of attempts.
+   */
+  reinitialize?: () => void;
 }
 
+/**
+ * Props passed to a `HuefyErrorBoundary` fallback render function.
+ */
+export interface HuefyErrorBoundaryFallbackProps {
+  /** The caught render error, or the provider's initialization error. */
+  error: Error;
+  /** Clears the error and re-initializes the client when initialization failed. */
+  retry: () => void;
+}
+
+/**
+ * Props for the HuefyErrorBoundary component.
+ */
+export interface HuefyErrorBoundaryProps {
+  /** Rendered instead of the children while there is an error. */
+  fallback: React.ReactNode | ((props: HuefyErrorBoundaryFallbackProps) => React.ReactNode);
+  /** Callback invoked when a render error is caught. */
+  onError?: (error: Error, errorInfo: React.ErrorInfo) => void;
+  /** Name of the `HuefyProvider` whose initialization is watched and retried. */
+  client?: string;
+  children: React.ReactNode;
+}
+
+/**
+ * Lifecycle of a `useHuefy` action.
+ *
+ * `cancelled` is entered when an in-flight action is aborted with `cancel()`.
+ */
+export type HuefyActionStatus = 'idle' | 'loading' | 'success' | 'error' | 'cancelled';
+
+/**
+ * Per-execution context passed to `useHuefy` action functions that opt in
+ * with `withContext`.
+ */
+export interface HuefyActionContext {
+  /**
+   * Aborted when the execution is cancelled, replaced by a newer execution,
+   * reset, or the component unmounts. Forward it to the client so the HTTP
+   * request is really cancelled.
+   */
+  signal: AbortSignal;
+  /**
+   * Identifies the logical submission. It stays the same when a failed or
+   * cancelled execution is repeated with the same arguments, and changes
+   * when the arguments differ, after a success, and on `reset`. Forward it
+   * to the client so the backend can drop duplicate sends.
+   */
+  idempotencyKey: string;
+}
+
+/**
+ * Action function executed by `useHuefy`.
+ *
+ * @template T - The value the action resolves with.
+ * @template TArgs - The arguments accepted by `execute`.
+ * @template TClient - The client the action is given. Declare `HuefyClient`
+ * for actions that must also work with custom and proxy clients.
+ */
+export type HuefyAction<T, TArgs extends unknown[] = unknown[], TClient = HuefyEmailClient> = (
+  client: TClient,
+  ...args: TArgs
+) => Promise<T>;
+
+/**
+ * Action function executed by `useHuefy` with `withContext: true`. It
+ * receives the execution context between the client and the `execute`
+ * arguments.
+ *
+ * @template T - The value the action resolves with.
+ * @template TArgs - The arguments accepted by `execute`.
+ * @template TClient - The client the action is given.
+ */
+export type HuefyContextAction<
+  T,
+  TArgs extends unknown[] = unknown[],
+  TClient = HuefyEmailClient,
+> = (client: TClient, context: HuefyActionContext, ...args: TArgs) => Promise<T>;
+
+/**
+ * What `execute` does when it is called while an earlier execution is
+ * still running.
+ *
+ * - `replace`: abort the running execution and start the new one.
+ * - `ignore-while-pending`: drop the new call; it resolves with `undefined`.
+ * - `queue`: start the new call once every earlier call has settled.
+ * - `parallel`: start the new call right away, alongside the running ones.
+ */
+export type HuefyConcurrencyMode = 'replace' | 'ignore-while-pending' | 'queue' | 'parallel';
+
 /**
  * Options for the useHuefy hook.
  */
@@ -36,22 +265,69 @@ export interface UseHuefyOptions<T = unknown> {
   onSuccess?: (data: T) => void;
   /** Callback invoked when an action fails. */
   onError?: (error: Error) => void;
+  /**
+   * Use this idempotency key instead of a generated one. The key is then not
+   * rotated after a success or `reset`.
+   */
+  idempotencyKey?: string;
+  /** How overlapping `execute` calls are handled. Defaults to `'replace'`. */
+  concurrency?: HuefyConcurrencyMode;
+  /**
+   * Fail with a `RateLimitBlockedError` instead of running the action while
+   * the last rate-limit update reports no remaining requests.
+   */
+  blockWhenRateLimited?: boolean;
+  /** Name of the `HuefyProvider` to send through. Defaults to the unnamed provider. */
+  client?: string;
+  /**
+   * Pass the execution context, with its abort signal and idempotency key,
+   * to the action as its second argument. Without it the action receives
+   * the client followed by the `execute` arguments.
+   */
+  withContext?: boolean;
+}
+
+/**
+ * Options of the hooks that only read provider state.
+ */
+export interface HuefyClientSelector {
+  /** Name of the `HuefyProvider` to read. Defaults to the unnamed provider. */
+  client?: string;
 }
 
 /**
  * Result returned by the useHuefy hook.
  */
-export interface UseHuefyResult<T> {
+export interface UseHuefyResult<T, TArgs extends unknown[] = unknown[]> {
   /** The data returned by the action, or null if not yet executed. */
   data: T | null;
   /** Error that occurred during action execution, if any. */
   error: Error | null;
+  /** Normalized description of `error`, for branching on the kind of failure. */
+  errorInfo: HuefyErrorDescriptor | null;
   /** Whether the action is currently executing. */
   loading: boolean;
   /** Whether the action completed successfully. */
   success: boolean;
-  /** Execute the action with optional arguments. */
-  execute: (...args: unknown[]) => Promise<T | undefined>;
+  /** Current lifecycle status of the action. */
+  status: HuefyActionStatus;
+  /**
+   * Idempotency key passed to the next execution if it repeats the last
+   * arguments; other arguments get a new key. In the `queue` and
+   * `parallel` modes every execution gets a fresh key instead.
+   */
+  idempotencyKey: string;
+  /** Number of executions currently running. */
+  inFlight: number;
+  /** Number of executions waiting for their turn in the `queue` mode. */
+  queued: number;
+  /** Execute the action with the arguments declared by the action function. */
+  execute: (...args: TArgs) => Promise<T | undefined>;
+  /**
+   * Abort every running execution, drop queued ones, and move to the
+   * `cancelled` status.
+   */
+  cancel: () => void;
   /** Reset the hook state to its initial values. */
   reset: () => void;
 }
@@ -0,0 +1,35 @@
+/**
+ * - `closed`: requests flow normally.
+ * - `open`: recent requests failed; the core client rejects sends until the
+ *   next probe.
+ * - `half-open`: the next request is a probe that closes or reopens the
+ *   breaker.
+ */
+export type CircuitBreakerStatus = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerState {
+  status: CircuitBreakerStatus;
+  /** Consecutive failures counted towards the threshold. */
+  failureCount: number;
+  /** Epoch milliseconds when the breaker last opened. */
+  openedAt: number | null;
+  /** Epoch milliseconds when the breaker moves to half-open. */
+  nextProbeAt: number | null;
+}
+
+/**
+ * React-side mirror of the core client's circuit breaker, fed with the
+ * outcome of every request made through the hooks.
+ */
+export interface CircuitBreakerMirror {
+  /** Current state. The object is replaced, never mutated, on every change. */
+  getState(): CircuitBreakerState;
+  /** Subscribe to state changes. Returns an unsubscribe function. */
+  subscribe(listener: () => void): () => void;
+  recordSuccess(): void;
+  recordFailure(error: unknown): void;
+  /** Close the breaker and clear the failure count. */
+  reset(): void;
+  /** Cancel the pending half-open transition. */
+  stop(): void;
+}
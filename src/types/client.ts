@@ -0,0 +1,44 @@
+import type {
+  HealthCheckResponse,
+  SendBulkEmailsRequest,
+  SendBulkEmailsResponse,
+  SendEmailRequest,
+  SendEmailResponse,
+} from './email';
+
+/**
+ * Per-request options the hooks pass to the client.
+ */
+export interface HuefyRequestOptions {
+  /** Aborted when the hook cancels the request. */
+  signal?: AbortSignal;
+  /** Identifies the submission so the API can drop duplicates. */
+  idempotencyKey?: string;
+}
+
+/**
+ * The client methods the provider and the hooks rely on.
+ *
+ * `HuefyEmailClient` implements it. A client passed to `HuefyProvider`
+ * through its `client` prop — shared with non-React code, decorated, or a
+ * fake — only needs these methods.
+ */
+export interface HuefyClient {
+  sendEmail(request: SendEmailRequest, options?: HuefyRequestOptions): Promise<SendEmailResponse>;
+  sendBulkEmails(
+    request: SendBulkEmailsRequest,
+    options?: HuefyRequestOptions,
+  ): Promise<SendBulkEmailsResponse>;
+  healthCheck(options?: Pick<HuefyRequestOptions, 'signal'>): Promise<HealthCheckResponse>;
+  /**
+   * Current state of a bulk batch, in the shape `sendBulkEmails` returns.
+   * `useBatchStatus` polls it; the core `HuefyEmailClient` lacks it and
+   * cannot be polled.
+   */
+  getBatchStatus?(
+    batchId: string,
+    options?: Pick<HuefyRequestOptions, 'signal'>,
+  ): Promise<SendBulkEmailsResponse>;
+  /** Releases the client's resources; only called on clients the provider created. */
+  close?(): void;
+}
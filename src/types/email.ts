@@ -1,3 +1,8 @@
+import type { HuefyErrorDescriptor } from '../errors';
+import type { HuefyActionStatus, HuefyConcurrencyMode } from '../types';
+import type { OutboxItem } from './outbox';
+import type { StandardSchemaV1 } from './schema';
+
 export type EmailProvider = 'ses' | 'sendgrid' | 'mailgun' | 'mailchimp';
 export type RecipientType = 'to' | 'cc' | 'bcc';
 
@@ -5,6 +10,41 @@ export interface EmailData {
   [key: string]: unknown;
 }
 
+/**
+ * Registry of template keys and the data each template expects.
+ *
+ * Empty by default, which keeps template keys typed as `string` and template
+ * data as `EmailData`. Augment it to have template keys and data checked at
+ * compile time by `useSendEmail`, `useSendBulkEmails` and `useEmailForm`:
+ *
+ * @example
+ * ```ts
+ * declare module '@teracrafts/huefy-react' {
+ *   interface HuefyTemplates {
+ *     'welcome-email': { firstName: string };
+ *     'password-reset': { resetUrl: string; expiresInMinutes: number };
+ *   }
+ * }
+ * ```
+ */
+export interface HuefyTemplates {}
+
+/** Template keys allowed by registry `R`, or `string` when `R` is empty. */
+export type TemplateKeyOf<R> = [keyof R] extends [never] ? string : Extract<keyof R, string>;
+
+/** Data shape of template `K` in registry `R`, or `EmailData` when `R` is empty. */
+export type TemplateDataOf<R, K> = [keyof R] extends [never]
+  ? EmailData
+  : K extends keyof R
+    ? R[K]
+    : never;
+
+/** A template key known to the `HuefyTemplates` registry. */
+export type TemplateKey = TemplateKeyOf<HuefyTemplates>;
+
+/** The data expected by template `K` in the `HuefyTemplates` registry. */
+export type TemplateData<K extends TemplateKey = TemplateKey> = TemplateDataOf<HuefyTemplates, K>;
+
 export interface EmailRecipient {
   email: string;
   type?: RecipientType;
@@ -13,6 +53,13 @@ export interface EmailRecipient {
 
 export type SingleRecipient = string | EmailRecipient;
 
+export interface SendEmailRequest<K extends TemplateKey = TemplateKey> {
+  templateKey: K;
+  data: TemplateData<K>;
+  recipient: SingleRecipient;
+  provider?: EmailProvider;
+}
+
 export interface SendEmailOptions {
   provider?: EmailProvider;
 }
@@ -39,42 +86,211 @@ export interface SendEmailResponse {
   correlationId: string;
 }
 
-export interface EmailFormData {
-  templateKey: string;
-  data: EmailData;
+export interface EmailFormData<K extends TemplateKey = TemplateKey> {
+  templateKey: K;
+  data: TemplateData<K>;
   recipient: SingleRecipient;
+  /**
+   * Recipient list of a multi-recipient form. While it has entries it is
+   * used instead of `recipient`.
+   */
+  recipients?: EmailRecipient[];
   provider?: EmailProvider;
 }
 
-export interface UseEmailFormOptions {
-  defaultTemplate?: string;
-  defaultData?: EmailData;
+/**
+ * Path of an `EmailFormData` field. Nested template data and structured
+ * recipients are addressed with dots, e.g. `data.address.city` or
+ * `recipient.email`.
+ */
+export type EmailFormField =
+  | 'templateKey'
+  | 'recipient'
+  | 'provider'
+  | 'data'
+  | 'recipients'
+  | `data.${string}`
+  | `recipient.${string}`
+  | `recipients.${string}`;
+
+/** Validation messages keyed by field path. */
+export type EmailFormFieldErrors = Partial<Record<EmailFormField, string>>;
+
+/**
+ * Result of a `useEmailForm` validator: messages keyed by field path, a list
+ * of messages for the form as a whole, or `null` when the form is valid.
+ */
+export type EmailFormValidationResult = EmailFormFieldErrors | string[] | null;
+
+/** Second argument of a `useEmailForm` `asyncValidate` function. */
+export interface EmailFormAsyncValidationContext {
+  /** Aborted when the form changes again, on `reset` and on unmount. */
+  signal: AbortSignal;
+}
+
+/** Props returned by `getFieldProps` for a controlled input or select. */
+export interface EmailFormFieldProps {
+  name: EmailFormField;
+  /** Current value as a string; missing values are `''`. */
+  value: string;
+  /** Accepts a change event or the new value itself. */
+  onChange: (eventOrValue: unknown) => void;
+  /** Marks the field as touched. */
+  onBlur: () => void;
+  /** Whether the field has an error that is currently shown. */
+  'aria-invalid': boolean;
+}
+
+/**
+ * Form data as sent: `data` is the output of the template schema when one
+ * applies.
+ */
+export type EmailFormSubmission<
+  K extends TemplateKey = TemplateKey,
+  TData extends TemplateData<K> = TemplateData<K>,
+> = Omit<EmailFormData<K>, 'data'> & { data: TData };
+
+export interface UseEmailFormOptions<
+  K extends TemplateKey = TemplateKey,
+  TData extends TemplateData<K> = TemplateData<K>,
+> {
+  defaultTemplate?: K;
+  defaultData?: TemplateData<K>;
   defaultRecipient?: SingleRecipient;
+  /** Initial recipient list; addresses are turned into `{ email }` entries. */
+  defaultRecipients?: (string | EmailRecipient)[];
   defaultProvider?: EmailProvider;
-  validate?: (formData: EmailFormData) => string[] | null;
-  onSuccess?: (response: SendEmailResponse) => void;
+  /**
+   * Replaces the built-in validation. Return messages keyed by field path to
+   * place them next to inputs, or a list of messages for the whole form.
+   */
+  validate?: (formData: EmailFormData<K>) => EmailFormValidationResult;
+  /**
+   * Validation that needs a round trip, such as checking a suppression list.
+   * Runs once `validate` passes, `asyncValidateDebounceMs` after the last
+   * change; its errors are reported alongside the synchronous ones.
+   */
+  asyncValidate?: (
+    formData: EmailFormData<K>,
+    context: EmailFormAsyncValidationContext,
+  ) => Promise<EmailFormValidationResult>;
+  /** Delay in milliseconds between the last change and `asyncValidate`. Defaults to `300`. */
+  asyncValidateDebounceMs?: number;
+  /**
+   * Standard Schema (Zod, Valibot, ArkType, …) for `formData.data`. Issues
+   * are reported under `data.*` field paths and the parsed output is what
+   * gets sent.
+   */
+  schema?: StandardSchemaV1<unknown, TData>;
+  /** Schemas per template key; the one for the selected template wins over `schema`. */
+  schemas?: { [T in TemplateKey]?: StandardSchemaV1<unknown, TemplateData<T>> };
+  /** Called with the response and the submission that was sent. */
+  onSuccess?: (response: SendEmailResponse, submission: EmailFormSubmission<K, TData>) => void;
+  /** Called instead of `onSuccess` when several recipients were sent with `sendBulkEmails`. */
+  onBulkSuccess?: (
+    response: SendBulkEmailsResponse,
+    submission: EmailFormSubmission<K, TData>,
+  ) => void;
   onError?: (error: Error) => void;
   onSending?: () => void;
+  /**
+   * Queue retryable send failures in the provider's outbox. Defaults to
+   * `true` when the provider has an outbox.
+   */
+  outbox?: boolean;
+  /** Fixed idempotency key to send instead of a generated one. */
+  idempotencyKey?: string;
+  /**
+   * How a `sendEmail` issued while another is running is handled. Defaults
+   * to `'replace'`. Each call sends the form data as it was when called.
+   */
+  concurrency?: HuefyConcurrencyMode;
+  /**
+   * Fail with a `RateLimitBlockedError` instead of sending while the API
+   * reports no remaining requests in the current rate-limit window.
+   */
+  blockWhenRateLimited?: boolean;
+  /** Name of the `HuefyProvider` to send through. Defaults to the unnamed provider. */
+  client?: string;
 }
 
-export interface UseEmailFormResult {
-  formData: EmailFormData;
-  setFormData: (data: Partial<EmailFormData>) => void;
-  setTemplateData: (data: EmailData) => void;
-  sendEmail: () => Promise<SendEmailResponse | undefined>;
+export interface UseEmailFormResult<K extends TemplateKey = TemplateKey> {
+  formData: EmailFormData<K>;
+  setFormData: (data: Partial<EmailFormData<K>>) => void;
+  setTemplateData: (data: TemplateData<K>) => void;
+  /**
+   * Validates and sends the form: to `recipient` or a single `recipients`
+   * entry with `sendEmail`, to several entries with `sendBulkEmails`.
+   */
+  sendEmail: () => Promise<SendEmailResponse | SendBulkEmailsResponse | undefined>;
+  cancel: () => void;
   reset: () => void;
   loading: boolean;
   error: Error | null;
+  /**
+   * Normalized description of `error`. Validation failures have the kind
+   * `'validation'` and a missing client the kind `'not-ready'`.
+   */
+  errorInfo: HuefyErrorDescriptor | null;
+  /** Response of the last send to a single recipient. */
   data: SendEmailResponse | null;
+  /** Response of the last send to several recipients. */
+  bulkData: SendBulkEmailsResponse | null;
   success: boolean;
+  status: HuefyActionStatus;
+  /** Outbox entry of the last failed send, until it is delivered or discarded. */
+  outboxItem: OutboxItem | null;
+  /** Idempotency key of the next submission. */
+  idempotencyKey: string;
+  /** Number of submissions currently running. */
+  inFlight: number;
+  /** Number of submissions waiting in the `queue` mode. */
+  queued: number;
+  /** Every current validation message, field-level ones included. */
   validationErrors: string[];
+  /** Current validation messages keyed by field path, shown or not. */
+  fieldErrors: EmailFormFieldErrors;
+  /** Validation messages not tied to a field. */
+  formErrors: string[];
+  /** False while errors are reported or `asyncValidate` is pending. */
   isValid: boolean;
+  /** Whether `asyncValidate` has yet to settle for the current form data. */
+  isValidating: boolean;
+  /** Fields the user has left at least once, keyed by field path. */
+  touched: Partial<Record<EmailFormField, boolean>>;
+  /** Fields whose value differs from the default, keyed by field path. */
+  dirty: Partial<Record<EmailFormField, boolean>>;
+  /** Whether any field differs from its default. */
+  isDirty: boolean;
+  /** Number of `sendEmail` calls since mount or the last `reset`. */
+  submitCount: number;
+  /**
+   * Error of a field once it should be shown: after the field was touched
+   * or a submission was attempted.
+   */
+  getFieldError: (name: EmailFormField) => string | undefined;
+  /** Value, change, blur and `aria-invalid` props for a controlled input. */
+  getFieldProps: (name: EmailFormField) => EmailFormFieldProps;
+  setFieldValue: (name: EmailFormField, value: unknown) => void;
+  setFieldTouched: (name: EmailFormField, touched?: boolean) => void;
+  /** Appends a recipient, given as an address or a recipient object. */
+  addRecipient: (recipient: string | EmailRecipient) => void;
+  removeRecipient: (index: number) => void;
+  /** Merges `patch` into the recipient at `index`, e.g. personalization `data`. */
+  updateRecipient: (index: number, patch: Partial<EmailRecipient>) => void;
+  setRecipientType: (index: number, type: RecipientType) => void;
 }
 
-export interface BulkRecipient {
+export interface BulkRecipient<K extends TemplateKey = TemplateKey> {
   email: string;
   type?: RecipientType;
-  data?: Record<string, unknown>;
+  data?: TemplateData<K>;
+}
+
+export interface SendBulkEmailsRequest<K extends TemplateKey = TemplateKey> {
+  templateKey: K;
+  recipients: BulkRecipient<K>[];
+  provider?: EmailProvider;
 }
 
 export interface SendBulkEmailsResponseData {
@@ -105,3 +321,44 @@ export interface BulkEmailResult {
   success: boolean;
   error?: { message: string; code: string };
 }
+
+export type BulkRecipientOutcome = 'pending' | 'sent' | 'failed' | 'suppressed';
+
+export interface BulkRecipientState {
+  email: string;
+  outcome: BulkRecipientOutcome;
+  status?: string;
+  messageId?: string;
+  error?: string;
+  errorCode?: string;
+}
+
+export type BulkChunkStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+export interface BulkChunkState {
+  index: number;
+  recipients: BulkRecipient[];
+  /** Idempotency key sent with this chunk, reused when it is retried. */
+  idempotencyKey: string;
+  status: BulkChunkStatus;
+  response?: SendBulkEmailsResponse;
+  error?: Error;
+}
+
+export interface BulkSendProgress {
+  totalChunks: number;
+  completedChunks: number;
+  failedChunks: number;
+}
+
+export interface HealthCheckResponseData {
+  status: string;
+  timestamp: string;
+  version: string;
+}
+
+export interface HealthCheckResponse {
+  success: boolean;
+  data: HealthCheckResponseData;
+  correlationId: string;
+}
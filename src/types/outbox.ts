@@ -0,0 +1,77 @@
+import type { SendEmailRequest } from './email';
+
+/**
+ * - `pending`: waiting for its next replay attempt.
+ * - `sending`: currently being replayed.
+ * - `failed`: gave up after a non-retryable error or `maxAttempts`; only
+ *   replayed again through `retry`.
+ */
+export type OutboxItemStatus = 'pending' | 'sending' | 'failed';
+
+export interface OutboxItem {
+  id: string;
+  request: SendEmailRequest;
+  /** Idempotency key of the original send, reused by every replay. */
+  idempotencyKey?: string;
+  status: OutboxItemStatus;
+  /** Number of failed attempts, including the original send. */
+  attempts: number;
+  /** Epoch milliseconds when the item was queued. */
+  createdAt: number;
+  /** Epoch milliseconds of the next automatic replay attempt. */
+  nextAttemptAt: number;
+  /** Message of the most recent failure. */
+  lastError?: string;
+}
+
+/**
+ * Persistence for outbox items. The outbox loads once on creation and saves
+ * the full item list after every change.
+ */
+export interface OutboxStorage {
+  load(): Promise<OutboxItem[]>;
+  save(items: OutboxItem[]): Promise<void>;
+}
+
+export interface OutboxOptions {
+  /** Where queued sends are kept. Defaults to in-memory storage. */
+  storage?: OutboxStorage;
+  /** Attempts (including the original send) before an item is marked failed. Defaults to 5. */
+  maxAttempts?: number;
+  /** Base delay of the exponential replay backoff. Defaults to 1000 ms. */
+  baseDelayMs?: number;
+  /** Upper bound of the replay backoff. Defaults to 60000 ms. */
+  maxDelayMs?: number;
+  /**
+   * Decides whether a failed send is queued and whether a failed replay is
+   * tried again. Defaults to network errors, `RateLimitError` and
+   * `ProviderError`.
+   */
+  isRetryable?: (error: unknown) => boolean;
+}
+
+/**
+ * Queue of failed sends that are replayed in the background.
+ */
+export interface Outbox {
+  /** Current items. The array is replaced, never mutated, on every change. */
+  getItems(): OutboxItem[];
+  /** Subscribe to item changes. Returns an unsubscribe function. */
+  subscribe(listener: () => void): () => void;
+  /** Queue a request unconditionally. */
+  enqueue(request: SendEmailRequest, error?: unknown, idempotencyKey?: string): Promise<OutboxItem>;
+  /** Queue a request if `error` is retryable. Resolves with the queued item, if any. */
+  capture(
+    request: SendEmailRequest,
+    error: unknown,
+    idempotencyKey?: string,
+  ): Promise<OutboxItem | null>;
+  /** Replay every pending item that is due. Skipped while the browser is offline. */
+  replay(): Promise<void>;
+  /** Reset an item's attempts and replay it immediately. */
+  retry(id: string): Promise<void>;
+  /** Remove an item without sending it. */
+  discard(id: string): Promise<void>;
+  /** Cancel the scheduled replay timer. A later `replay()` reschedules it. */
+  stop(): void;
+}
@@ -0,0 +1,76 @@
+import type { BulkRecipient, RecipientType } from './email';
+
+/**
+ * - `csv`: delimited rows, optionally with a header row.
+ * - `text`: free-form text; addresses are separated by new lines, commas,
+ *   semicolons or tabs outside quotes and angle brackets, and may be written
+ *   as `Name <address>` or `"Last, First" <address>`.
+ * - `auto`: `csv` when the first line is a header naming an email column, or
+ *   a headerless row that starts with an address followed by other cells;
+ *   `text` otherwise.
+ */
+export type RecipientImportFormat = 'auto' | 'csv' | 'text';
+
+/** A CSV column, by header name (case-insensitive) or zero-based index. */
+export type RecipientImportColumn = string | number;
+
+export interface RecipientImportColumns {
+  /**
+   * Column holding the address. Defaults to the first header named like
+   * `email`, `e-mail` or `email address`; a header row without one is an
+   * error. Without a header row, defaults to the first column.
+   */
+  email?: RecipientImportColumn;
+  /** Column holding `to`, `cc` or `bcc`. Defaults to a header named `type`. */
+  type?: RecipientImportColumn;
+  /**
+   * Per-recipient `data`: a map of data keys to columns, or `'rest'` for
+   * every other header column keyed by its header. Defaults to `'rest'`.
+   */
+  data?: Record<string, RecipientImportColumn> | 'rest';
+}
+
+export interface RecipientImportOptions {
+  /** Defaults to `'auto'`. */
+  format?: RecipientImportFormat;
+  /** CSV delimiter. Defaults to whichever of `,`, `;` and tab the first line uses most. */
+  delimiter?: string;
+  /**
+   * Whether the first CSV row is a header. Defaults to `true` when that row
+   * contains no valid address.
+   */
+  header?: boolean;
+  columns?: RecipientImportColumns;
+  /** Type of recipients whose row does not set one. */
+  defaultType?: RecipientType;
+  /** Drop repeated addresses, ignoring case. Defaults to `true`. */
+  dedupe?: boolean;
+  /** Rows past this many recipients are reported as errors. */
+  maxRecipients?: number;
+}
+
+export interface RecipientImportRowError {
+  /** One-based line of the row in the input. */
+  line: number;
+  /** The row as it appeared in the input. */
+  value: string;
+  message: string;
+}
+
+export interface RecipientImportDuplicate {
+  line: number;
+  email: string;
+  /** Line of the first occurrence, which is kept. */
+  firstLine: number;
+}
+
+export interface RecipientImportResult {
+  /** Valid, deduplicated recipients in input order. */
+  recipients: BulkRecipient[];
+  errors: RecipientImportRowError[];
+  duplicates: RecipientImportDuplicate[];
+  /** Rows read, not counting the header and blank lines. */
+  totalRows: number;
+  /** Format the input was read as. */
+  format: Exclude<RecipientImportFormat, 'auto'>;
+}
@@ -0,0 +1,105 @@
+import type { BulkRecipient, SendBulkEmailsResponse } from '../types/email';
+
+/**
+ * Splits a recipient list into consecutive chunks of at most `chunkSize`.
+ *
+ * A missing or non-finite `chunkSize` keeps the whole list in one chunk. An
+ * empty list still yields a single (empty) chunk so the core client gets to
+ * report its own validation error.
+ */
+export function chunkRecipients(
+  recipients: BulkRecipient[],
+  chunkSize?: number,
+): BulkRecipient[][] {
+  if (chunkSize !== undefined && (!Number.isInteger(chunkSize) || chunkSize < 1)) {
+    throw new RangeError(`chunkSize must be a positive integer, received ${chunkSize}`);
+  }
+
+  if (chunkSize === undefined || recipients.length <= chunkSize) {
+    return [recipients];
+  }
+
+  const chunks: BulkRecipient[][] = [];
+  for (let i = 0; i < recipients.length; i += chunkSize) {
+    chunks.push(recipients.slice(i, i + chunkSize));
+  }
+  return chunks;
+}
+
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight.
+ *
+ * Items are started in order. The worker is expected to handle its own
+ * errors; a rejection stops the remaining items from being started.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+  const runnerCount = Math.min(Math.max(1, Math.floor(limit)), items.length);
+
+  const runners = Array.from({ length: runnerCount }, async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      await worker(item);
+    }
+  });
+
+  await Promise.all(runners);
+}
+
+/**
+ * Aggregates the responses of several chunked bulk sends into one response.
+ *
+ * Counts are summed and `recipients` / `errors` concatenated. The first
+ * chunk provides `batchId`, `templateKey` and `correlationId`; every batch
+ * and correlation id is kept in `metadata.batchIds` and
+ * `metadata.correlationIds`. When chunks disagree on `status` the aggregate
+ * reports `'mixed'`.
+ */
+export function mergeBulkResponses(responses: SendBulkEmailsResponse[]): SendBulkEmailsResponse {
+  if (responses.length === 0) {
+    throw new RangeError('mergeBulkResponses requires at least one response');
+  }
+  if (responses.length === 1) {
+    return responses[0];
+  }
+
+  const [first] = responses;
+  const parts = responses.map((response) => response.data);
+  const sum = (pick: (part: (typeof parts)[number]) => number) =>
+    parts.reduce((total, part) => total + pick(part), 0);
+
+  const statuses = new Set(parts.map((part) => part.status));
+  const startedAt = parts.map((part) => part.startedAt).sort()[0];
+  const completedAt = parts.every((part) => part.completedAt)
+    ? parts.map((part) => part.completedAt as string).sort()[parts.length - 1]
+    : null;
+  const errors = parts.flatMap((part) => part.errors ?? []);
+
+  return {
+    success: responses.every((response) => response.success),
+    correlationId: first.correlationId,
+    data: {
+      batchId: first.data.batchId,
+      status: statuses.size === 1 ? first.data.status : 'mixed',
+      templateKey: first.data.templateKey,
+      totalRecipients: sum((part) => part.totalRecipients),
+      processedCount: sum((part) => part.processedCount),
+      successCount: sum((part) => part.successCount),
+      failureCount: sum((part) => part.failureCount),
+      suppressedCount: sum((part) => part.suppressedCount),
+      startedAt,
+      completedAt,
+      recipients: parts.flatMap((part) => part.recipients ?? []),
+      ...(errors.length > 0 ? { errors } : {}),
+      metadata: {
+        ...first.data.metadata,
+        batchIds: parts.map((part) => part.batchId),
+        correlationIds: responses.map((response) => response.correlationId),
+      },
+    },
+  };
+}
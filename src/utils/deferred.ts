@@ -0,0 +1,40 @@
+export interface Deferred<T> {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+  reject: (reason: unknown) => void;
+  /** Whether `resolve` or `reject` has been called. */
+  readonly settled: boolean;
+}
+
+/**
+ * Creates a promise together with the functions that settle it.
+ *
+ * A rejection is marked as handled, so a promise nobody awaits does not
+ * surface as an unhandled rejection; awaiting it still throws.
+ */
+export function createDeferred<T>(): Deferred<T> {
+  let settled = false;
+  let resolvePromise!: (value: T) => void;
+  let rejectPromise!: (reason: unknown) => void;
+
+  const promise = new Promise<T>((resolve, reject) => {
+    resolvePromise = resolve;
+    rejectPromise = reject;
+  });
+  promise.catch(() => undefined);
+
+  return {
+    promise,
+    resolve(value) {
+      settled = true;
+      resolvePromise(value);
+    },
+    reject(reason) {
+      settled = true;
+      rejectPromise(reason);
+    },
+    get settled() {
+      return settled;
+    },
+  };
+}
@@ -0,0 +1,59 @@
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads the value at a dot-separated path such as `data.address.city` or
+ * `recipients.0.email`. Missing segments yield `undefined`.
+ */
+export function getPath(source: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, segment) => {
+    if (Array.isArray(value)) return value[Number(segment)];
+    return isPlainObject(value) ? value[segment] : undefined;
+  }, source);
+}
+
+/**
+ * Returns a copy of `target` with `value` stored at `path`. Objects and
+ * arrays along the path are copied; missing or primitive segments are
+ * replaced by objects.
+ */
+export function setPath<T>(target: T, path: string, value: unknown): T {
+  const [head, ...rest] = path.split('.');
+
+  if (Array.isArray(target)) {
+    const index = Number(head);
+    const copy = [...target];
+    copy[index] = rest.length === 0 ? value : setPath(copy[index], rest.join('.'), value);
+    return copy as T;
+  }
+
+  const current: Record<string, unknown> = isPlainObject(target) ? target : {};
+  const next = rest.length === 0 ? value : setPath(current[head], rest.join('.'), value);
+  return { ...current, [head]: next } as T;
+}
+
+/**
+ * Lists the paths of `source` down to its leaves, parents before children.
+ * Arrays are leaves.
+ */
+export function collectPaths(source: unknown, prefix = ''): string[] {
+  if (!isPlainObject(source)) return [];
+  return Object.keys(source).flatMap((key) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    return [path, ...collectPaths(source[key], path)];
+  });
+}
+
+/** Structural equality for plain objects, arrays and primitives. */
+export function isEqualValue(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqualValue(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every((key) => isEqualValue(a[key], b[key]));
+  }
+  return false;
+}
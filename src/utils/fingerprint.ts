@@ -0,0 +1,28 @@
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Serializes a payload so that equal payloads give equal strings, whatever
+ * the order of their object keys.
+ *
+ * Returns null for payloads JSON cannot represent, such as cyclic objects or
+ * bigints; such payloads never compare equal.
+ */
+export function fingerprint(value: unknown): string | null {
+  try {
+    return JSON.stringify(value, (_key, entry: unknown) =>
+      isPlainObject(entry)
+        ? Object.fromEntries(
+            Object.keys(entry)
+              .sort()
+              .map((key) => [key, entry[key]]),
+          )
+        : entry,
+    );
+  } catch {
+    return null;
+  }
+}
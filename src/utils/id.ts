@@ -0,0 +1,18 @@
+/**
+ * Generates a random unique identifier.
+ *
+ * Uses `crypto.randomUUID` where available and falls back to a random
+ * RFC 4122 v4 string built from `Math.random` in older runtimes.
+ */
+export function createId(): string {
+  const cryptoApi = (globalThis as { crypto?: Crypto }).crypto;
+  if (cryptoApi && typeof cryptoApi.randomUUID === 'function') {
+    return cryptoApi.randomUUID();
+  }
+
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+    const random = (Math.random() * 16) | 0;
+    const value = char === 'x' ? random : (random & 0x3) | 0x8;
+    return value.toString(16);
+  });
+}
@@ -0,0 +1,61 @@
+import type { RateLimitInfo } from '@teracrafts/huefy';
+import type { RateLimitState } from '../types';
+
+// Below this a reset value is a number of seconds, not an epoch timestamp
+const EPOCH_SECONDS_THRESHOLD = 1_000_000_000;
+const EPOCH_MILLISECONDS_THRESHOLD = 1_000_000_000_000;
+
+function toResetTime(reset: unknown, receivedAt: number): number | null {
+  if (reset instanceof Date) return reset.getTime();
+  if (typeof reset === 'string') {
+    const parsed = Date.parse(reset);
+    return Number.isNaN(parsed) ? toResetTime(Number(reset), receivedAt) : parsed;
+  }
+  if (typeof reset !== 'number' || !Number.isFinite(reset) || reset < 0) return null;
+
+  if (reset >= EPOCH_MILLISECONDS_THRESHOLD) return reset;
+  if (reset >= EPOCH_SECONDS_THRESHOLD) return reset * 1000;
+  return receivedAt + reset * 1000;
+}
+
+/**
+ * Normalizes a `RateLimitInfo` update from the core client.
+ *
+ * The reset value may be an epoch timestamp in seconds or milliseconds, a
+ * number of seconds until the reset, a date string or a `Date`; it is
+ * converted to epoch milliseconds.
+ */
+export function toRateLimitState(info: RateLimitInfo, receivedAt = Date.now()): RateLimitState {
+  const { limit, remaining, reset, resetAt } = info as {
+    limit?: unknown;
+    remaining?: unknown;
+    reset?: unknown;
+    resetAt?: unknown;
+  };
+
+  return {
+    limit: typeof limit === 'number' ? limit : null,
+    remaining: typeof remaining === 'number' ? remaining : null,
+    resetAt: toResetTime(resetAt ?? reset, receivedAt),
+    updatedAt: receivedAt,
+    info,
+  };
+}
+
+/**
+ * Whether the quota is used up and the reset is still ahead. A window
+ * without a known reset time never counts as limited, since no further
+ * update would ever lift it.
+ */
+export function isRateLimited(
+  state: RateLimitState | null | undefined,
+  now = Date.now(),
+): state is RateLimitState & { resetAt: number } {
+  return Boolean(
+    state &&
+      state.remaining !== null &&
+      state.remaining <= 0 &&
+      state.resetAt !== null &&
+      state.resetAt > now,
+  );
+}
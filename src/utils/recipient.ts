@@ -0,0 +1,83 @@
+import type { EmailRecipient, SingleRecipient } from '../types/email';
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Checks a single recipient, given as an address or a recipient object.
+ *
+ * @returns A message describing the problem, or null when it is valid.
+ */
+export function validateRecipient(recipient: SingleRecipient): string | null {
+  if (typeof recipient === 'string') {
+    const trimmed = recipient.trim();
+    if (trimmed.length === 0) {
+      return 'Recipient email is required';
+    }
+    if (!EMAIL_REGEX.test(trimmed)) {
+      return 'Invalid email address';
+    }
+    return null;
+  }
+
+  return validateRecipientObject(recipient);
+}
+
+/**
+ * Checks the address and type of a recipient object.
+ *
+ * @returns A message describing the problem, or null when it is valid.
+ */
+export function validateRecipientObject(recipient: EmailRecipient): string | null {
+  const trimmedEmail = recipient.email.trim();
+  if (trimmedEmail.length === 0) {
+    return 'Recipient email is required';
+  }
+  if (!EMAIL_REGEX.test(trimmedEmail)) {
+    return 'Invalid email address';
+  }
+
+  return validateRecipientType(recipient.type);
+}
+
+/**
+ * Checks a recipient type; a missing type is valid.
+ *
+ * @returns A message describing the problem, or null when it is valid.
+ */
+export function validateRecipientType(type: string | undefined): string | null {
+  const normalizedType = type?.trim().toLowerCase();
+  if (normalizedType && !['to', 'cc', 'bcc'].includes(normalizedType)) {
+    return 'Recipient type must be one of: to, cc, bcc';
+  }
+  return null;
+}
+
+/**
+ * Checks every entry of a recipient list and flags addresses that appear
+ * more than once, ignoring case. Later occurrences are the duplicates.
+ *
+ * @returns Messages keyed by `recipients.<index>.email` and
+ * `recipients.<index>.type`.
+ */
+export function validateRecipientList(recipients: EmailRecipient[]): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const seen = new Set<string>();
+
+  recipients.forEach((recipient, index) => {
+    const address = recipient.email.trim().toLowerCase();
+    const emailError = validateRecipient(recipient.email);
+    if (emailError) {
+      errors[`recipients.${index}.email`] = emailError;
+    } else if (seen.has(address)) {
+      errors[`recipients.${index}.email`] = 'Duplicate recipient';
+    }
+    seen.add(address);
+
+    const typeError = validateRecipientType(recipient.type);
+    if (typeError) {
+      errors[`recipients.${index}.type`] = typeError;
+    }
+  });
+
+  return errors;
+}
@@ -0,0 +1,46 @@
+import type { StandardSchemaV1, StandardSchemaV1Issue, StandardSchemaV1Result } from '../types/schema';
+
+/**
+ * Joins an issue path into a dot-separated field path below `prefix`, e.g.
+ * `['address', 'city']` under `data` becomes `data.address.city`.
+ */
+export function issueFieldPath(issue: StandardSchemaV1Issue, prefix: string): string {
+  const segments = (issue.path ?? []).map((segment) =>
+    String(typeof segment === 'object' && segment !== null ? segment.key : segment),
+  );
+  return [prefix, ...segments].join('.');
+}
+
+export interface SchemaOutcome<Output> {
+  /** Parsed value, when validation passed. */
+  value?: Output;
+  /** First message per field path. */
+  fieldErrors: Record<string, string>;
+}
+
+function toOutcome<Output>(result: StandardSchemaV1Result<Output>, prefix: string): SchemaOutcome<Output> {
+  if (!result.issues) return { value: result.value, fieldErrors: {} };
+
+  const fieldErrors: Record<string, string> = {};
+  for (const issue of result.issues) {
+    const path = issueFieldPath(issue, prefix);
+    fieldErrors[path] ??= issue.message;
+  }
+  return { fieldErrors };
+}
+
+/**
+ * Validates `value` against a Standard Schema and maps the issues onto field
+ * paths below `prefix`. Returns a promise only when the schema validates
+ * asynchronously.
+ */
+export function validateWithSchema<Output>(
+  schema: StandardSchemaV1<unknown, Output>,
+  value: unknown,
+  prefix: string,
+): SchemaOutcome<Output> | Promise<SchemaOutcome<Output>> {
+  const result = schema['~standard'].validate(value);
+  return result instanceof Promise
+    ? result.then((settled) => toOutcome(settled, prefix))
+    : toOutcome(result, prefix);
+}
@@ -1,11 +1,30 @@
 import { defineConfig } from 'tsup';
+import type { Options } from 'tsup';
 
-export default defineConfig({
-  entry: ['src/index.ts'],
+const shared: Options = {
   format: ['cjs', 'esm'],
   dts: true,
   splitting: false,
   sourcemap: true,
-  clean: true,
+  // Both builds write to dist, so it is cleaned once by the build script
+  clean: false,
   external: ['react', 'react-dom', '@teracrafts/huefy'],
-});
+};
+
+export default defineConfig([
+  {
+    ...shared,
+    entry: {
+      index: 'src/index.ts',
+      testing: 'src/testing/index.ts',
+    },
+    // Hooks and providers are client components for React Server Components bundlers
+    banner: { js: "'use client';" },
+  },
+  {
+    ...shared,
+    entry: {
+      server: 'src/server/index.ts',
+    },
+  },
+]);